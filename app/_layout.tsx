@@ -7,6 +7,7 @@ import { useEffect } from 'react';
 import 'react-native-reanimated';
 
 import { useColorScheme } from '@/components/useColorScheme';
+import { configureLogSinks } from '../services/LogSinks';
 
 export {
   // Catch any errors thrown by the Layout component.
@@ -21,6 +22,9 @@ export const unstable_settings = {
 // Prevent the splash screen from auto-hiding before asset loading is complete.
 SplashScreen.preventAutoHideAsync();
 
+// Log file and collector sinks, before any screen logs
+configureLogSinks();
+
 export default function RootLayout() {
   const [loaded, error] = useFonts({
     SpaceMono: require('../assets/fonts/SpaceMono-Regular.ttf'),
@@ -53,6 +57,9 @@ function RootLayoutNav() {
       <Stack>
         <Stack.Screen name="index" options={{ headerShown: false }} />
         <Stack.Screen name="modal" options={{ presentation: 'modal' }} />
+        <Stack.Screen name="diagnostics" options={{ title: 'Diagnostics' }} />
+        <Stack.Screen name="feedback" options={{ title: 'Feedback' }} />
+        <Stack.Screen name="logs" options={{ title: 'Logs' }} />
       </Stack>
     </ThemeProvider>
   );
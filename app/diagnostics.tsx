@@ -0,0 +1,140 @@
+import { useCallback, useState } from 'react';
+import { ScrollView, StyleSheet, TouchableOpacity } from 'react-native';
+import { useFocusEffect, useRouter } from 'expo-router';
+
+import { Text, View } from '@/components/Themed';
+import { GroundingStats, groundingLog } from '../services/GroundingGuard';
+import { UsageSnapshot, UsageTotals, usageMeter } from '../services/UsageMeter';
+
+// Developer diagnostics - long press the chat header to get here
+const formatTokens = (tokens: number): string => tokens.toLocaleString('en-US');
+
+const formatCost = (usd: number): string => `$${usd.toFixed(4)}`;
+
+function UsageSection({ title, totals, cap }: { title: string; totals: UsageTotals; cap: number }) {
+  const used = totals.promptTokens + totals.completionTokens;
+
+  return (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>{title}</Text>
+      <Row label="Tokens" value={`${formatTokens(used)} / ${formatTokens(cap)}`} />
+      <Row label="Prompt / completion" value={`${formatTokens(totals.promptTokens)} / ${formatTokens(totals.completionTokens)}`} />
+      <Row label="Model calls" value={`${totals.calls}${totals.estimatedCalls > 0 ? ` (${totals.estimatedCalls} estimated)` : ''}`} />
+      <Row label="Estimated cost" value={formatCost(totals.costUsd)} />
+    </View>
+  );
+}
+
+function Row({ label, value }: { label: string; value: string }) {
+  return (
+    <View style={styles.row}>
+      <Text style={styles.label}>{label}</Text>
+      <Text style={styles.value}>{value}</Text>
+    </View>
+  );
+}
+
+export default function DiagnosticsScreen() {
+  const router = useRouter();
+  const [usage, setUsage] = useState<UsageSnapshot | null>(null);
+  const [grounding, setGrounding] = useState<GroundingStats | null>(null);
+
+  const refresh = useCallback(async () => {
+    const [snapshot, stats] = await Promise.all([usageMeter.getSnapshot(), groundingLog.getStats()]);
+    setUsage(snapshot);
+    setGrounding(stats);
+  }, []);
+
+  useFocusEffect(useCallback(() => {
+    refresh();
+  }, [refresh]));
+
+  const resetUsage = async () => {
+    await usageMeter.reset();
+    refresh();
+  };
+
+  if (!usage || !grounding) {
+    return (
+      <View style={styles.container}>
+        <Text style={styles.label}>Loading...</Text>
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView contentContainerStyle={styles.container}>
+      <UsageSection title="🧮 This session" totals={usage.session} cap={usage.caps.sessionTokens} />
+      <UsageSection title={`📅 Today (${usage.day})`} totals={usage.today} cap={usage.caps.dailyTokens} />
+      <View style={styles.section}>
+        <Row label="Calls stopped by a cap" value={String(usage.blockedCalls)} />
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>🛡️ Grounding</Text>
+        <Row label="Answers checked" value={String(grounding.answersChecked)} />
+        <Row label="Answers corrected" value={String(grounding.answersCorrected)} />
+        {grounding.corrections.slice(-5).reverse().map(correction => (
+          <Text key={`${correction.at}-${correction.subject}-${correction.claimed}`} style={styles.correction}>
+            {correction.action} {correction.kind} for {correction.subject}: "{correction.claimed}" → {correction.actual ?? 'unknown'}
+          </Text>
+        ))}
+      </View>
+
+      <TouchableOpacity style={styles.button} onPress={() => router.push('/feedback')}>
+        <Text style={styles.buttonText}>Review feedback</Text>
+      </TouchableOpacity>
+      <TouchableOpacity style={styles.button} onPress={() => router.push('/logs')}>
+        <Text style={styles.buttonText}>View logs</Text>
+      </TouchableOpacity>
+      <TouchableOpacity style={styles.button} onPress={resetUsage}>
+        <Text style={styles.buttonText}>Reset usage totals</Text>
+      </TouchableOpacity>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexGrow: 1,
+    padding: 20,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 4,
+  },
+  label: {
+    fontSize: 15,
+    opacity: 0.7,
+  },
+  value: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  correction: {
+    fontSize: 13,
+    opacity: 0.7,
+    marginTop: 4,
+  },
+  button: {
+    alignSelf: 'flex-start',
+    backgroundColor: '#ff0080',
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    marginBottom: 12,
+  },
+  buttonText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+});
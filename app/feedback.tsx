@@ -0,0 +1,222 @@
+import { useCallback, useMemo, useState } from 'react';
+import { Platform, ScrollView, Share, StyleSheet, TouchableOpacity } from 'react-native';
+import { useFocusEffect } from 'expo-router';
+
+import { Text, View } from '@/components/Themed';
+import {
+  AnswerRoute,
+  FEEDBACK_REASONS,
+  FeedbackEntry,
+  FeedbackFilter,
+  FeedbackReason,
+  FeedbackType,
+  feedbackStore,
+  feedbackToCsv,
+  feedbackToJson,
+  filterFeedback
+} from '../services/FeedbackService';
+import { logger } from '../services/Logger';
+
+const log = logger.withTag('feedback');
+
+// Feedback review - every rated answer with what it was made from; open it from the diagnostics screen
+const TYPE_FILTERS: Array<{ id: FeedbackType; label: string }> = [
+  { id: 'negative', label: '👎' },
+  { id: 'positive', label: '👍' }
+];
+
+const ROUTE_FILTERS: Array<{ id: AnswerRoute; label: string }> = [
+  { id: 'pattern', label: 'Pattern' },
+  { id: 'ai', label: 'AI' },
+  { id: 'fallback', label: 'Fallback' }
+];
+
+const ROUTE_LABELS: Record<AnswerRoute, string> = { pattern: 'pattern match', ai: 'AI', fallback: 'fallback' };
+
+const reasonLabel = (reason: FeedbackReason): string =>
+  FEEDBACK_REASONS.find(option => option.id === reason)?.label ?? reason;
+
+// Share sheet on a phone, a download on the web
+const exportFeedback = async (entries: FeedbackEntry[], format: 'json' | 'csv') => {
+  const content = format === 'json' ? feedbackToJson(entries) : feedbackToCsv(entries);
+  const filename = `pixie-pal-feedback.${format}`;
+
+  if (Platform.OS === 'web') {
+    const url = URL.createObjectURL(new Blob([content], { type: format === 'json' ? 'application/json' : 'text/csv' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+    return;
+  }
+
+  try {
+    await Share.share({ title: filename, message: content });
+  } catch (error) {
+    log.error('Error exporting feedback', { error });
+  }
+};
+
+function Chip<T extends string>({ label, value, selected, onSelect }: { label: string; value: T; selected: boolean; onSelect: (value: T | undefined) => void }) {
+  return (
+    <TouchableOpacity style={[styles.chip, selected && styles.chipSelected]} onPress={() => onSelect(selected ? undefined : value)}>
+      <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{label}</Text>
+    </TouchableOpacity>
+  );
+}
+
+function FeedbackRow({ entry }: { entry: FeedbackEntry }) {
+  const details = [
+    entry.route ? ROUTE_LABELS[entry.route] : null,
+    entry.park,
+    entry.dataAgeMinutes !== null ? `data ${entry.dataAgeMinutes} min old` : null,
+    new Date(entry.timestamp).toLocaleString()
+  ].filter(Boolean);
+
+  return (
+    <View style={styles.entry}>
+      <Text style={styles.entryTitle}>
+        {entry.feedbackType === 'positive' ? '👍' : '👎'} {entry.reason ? reasonLabel(entry.reason) : ''}
+      </Text>
+      {entry.question && <Text style={styles.question}>Q: {entry.question}</Text>}
+      <Text style={styles.answer} numberOfLines={4}>A: {entry.messageText}</Text>
+      {entry.comment && <Text style={styles.comment}>"{entry.comment}"</Text>}
+      <Text style={styles.details}>{details.join(' · ')}</Text>
+    </View>
+  );
+}
+
+export default function FeedbackScreen() {
+  const [entries, setEntries] = useState<FeedbackEntry[]>([]);
+  const [filter, setFilter] = useState<FeedbackFilter>({});
+
+  useFocusEffect(useCallback(() => {
+    feedbackStore.getAll().then(setEntries);
+  }, []));
+
+  const visible = useMemo(() => filterFeedback(entries, filter), [entries, filter]);
+
+  return (
+    <ScrollView contentContainerStyle={styles.container}>
+      <View style={styles.filters}>
+        {TYPE_FILTERS.map(option => (
+          <Chip key={option.id} label={option.label} value={option.id} selected={filter.feedbackType === option.id}
+            onSelect={feedbackType => setFilter(prev => ({ ...prev, feedbackType }))} />
+        ))}
+        {ROUTE_FILTERS.map(option => (
+          <Chip key={option.id} label={option.label} value={option.id} selected={filter.route === option.id}
+            onSelect={route => setFilter(prev => ({ ...prev, route }))} />
+        ))}
+      </View>
+      <View style={styles.filters}>
+        {FEEDBACK_REASONS.map(option => (
+          <Chip key={option.id} label={option.label} value={option.id} selected={filter.reason === option.id}
+            onSelect={reason => setFilter(prev => ({ ...prev, reason }))} />
+        ))}
+      </View>
+
+      <View style={styles.toolbar}>
+        <Text style={styles.count}>{visible.length} of {entries.length}</Text>
+        <TouchableOpacity style={styles.button} onPress={() => exportFeedback(visible, 'json')} disabled={visible.length === 0}>
+          <Text style={styles.buttonText}>Export JSON</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.button} onPress={() => exportFeedback(visible, 'csv')} disabled={visible.length === 0}>
+          <Text style={styles.buttonText}>Export CSV</Text>
+        </TouchableOpacity>
+      </View>
+
+      {visible.length === 0 ? (
+        <Text style={styles.empty}>{entries.length === 0 ? 'No feedback yet.' : 'Nothing matches these filters.'}</Text>
+      ) : (
+        visible.map(entry => <FeedbackRow key={entry.id} entry={entry} />)
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexGrow: 1,
+    padding: 20,
+  },
+  filters: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 4,
+  },
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 12,
+    backgroundColor: 'rgba(79, 172, 254, 0.12)',
+    marginRight: 6,
+    marginBottom: 6,
+  },
+  chipSelected: {
+    backgroundColor: '#4facfe',
+  },
+  chipText: {
+    fontSize: 13,
+  },
+  chipTextSelected: {
+    color: '#fff',
+    fontWeight: 'bold',
+  },
+  toolbar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginVertical: 12,
+  },
+  count: {
+    flex: 1,
+    fontSize: 14,
+    opacity: 0.7,
+  },
+  button: {
+    backgroundColor: '#ff0080',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    marginLeft: 8,
+  },
+  buttonText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  empty: {
+    fontSize: 15,
+    opacity: 0.7,
+    marginTop: 24,
+    textAlign: 'center',
+  },
+  entry: {
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(79, 172, 254, 0.2)',
+  },
+  entryTitle: {
+    fontSize: 15,
+    fontWeight: 'bold',
+    marginBottom: 4,
+  },
+  question: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginBottom: 2,
+  },
+  answer: {
+    fontSize: 13,
+    opacity: 0.8,
+  },
+  comment: {
+    fontSize: 13,
+    fontStyle: 'italic',
+    marginTop: 4,
+  },
+  details: {
+    fontSize: 12,
+    opacity: 0.6,
+    marginTop: 4,
+  },
+});
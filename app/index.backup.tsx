@@ -14,6 +14,7 @@ import {
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { pixiePalData } from '../services/PixiePalDataService';
+import { getRelayUrl, relayHeaders } from '../services/RelayClient';
 import { LinearGradient } from 'expo-linear-gradient';
 
 // Types
@@ -578,11 +579,11 @@ RESPONSE RULES:
 
 Answer the user's question using this enhanced Disney data!`;
 
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
+      const response = await fetch(`${getRelayUrl()}/v1/chat/completions`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'Authorization': `Bearer ${process.env.EXPO_PUBLIC_OPENAI_API_KEY || ''}`
+          ...relayHeaders()
         },
         body: JSON.stringify({
           model: 'gpt-4o-mini',
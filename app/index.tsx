@@ -11,12 +11,40 @@ import {
   Dimensions,
   Keyboard,
 } from 'react-native';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { pixiePalData } from '../services/PixiePalDataService';
+import { useRouter } from 'expo-router';
+import { pixiePalData, CharacterMeet, CompleteParkData, DataFreshness, ParkData } from '../services/PixiePalDataService';
+import { ParkRefreshScheduler } from '../services/ParkRefreshScheduler';
+import { isAlertConditionMet, parseAlertRequest, waitTimeAlerts } from '../services/WaitTimeAlertService';
+import { QueryIntent } from '../services/QueryIntentClassifier';
+import { formatDidYouMean, resolveAttraction } from '../services/AttractionResolver';
+import { PARK_NAMES, formatDisneyResponse, formatWaitTimeBadge } from '../services/ChatFormatting';
+import { ParkEntertainment, ParkSchedule, eventTimes, runResponseHandlers } from '../services/ResponseHandlers';
+import {
+  EMPTY_CONVERSATION,
+  ConversationState,
+  describeConversationState,
+  recordTurn,
+  resolveFollowUp,
+  updateConversationState
+} from '../services/ConversationState';
+import { pixiePalAssistant } from '../services/PixiePalAssistant';
+import { CompletionOptions, isAbortError } from '../services/ChatModels';
+import { GroundedStream, GroundingData, groundAnswer, groundingLog } from '../services/GroundingGuard';
+import { deviceIdentity } from '../services/RelayClient';
+import { isUsageCapError, usageMeter } from '../services/UsageMeter';
+import { ChatSession, chatHistory, createChatSession } from '../services/ChatHistory';
+import { AnswerContext, AnswerRoute, FeedbackReason, feedbackStore, getDataAgeMinutes } from '../services/FeedbackService';
+import { logger } from '../services/Logger';
+import FeedbackForm from '../components/FeedbackForm';
 import { LinearGradient } from 'expo-linear-gradient';
 import VoiceInput from '../components/VoiceInput';
-import { VoiceService } from '../services/VoiceService';
+import { SentenceSpeaker, VoiceService } from '../services/VoiceService';
+import { MessagePayload, noteCard, rideWaitsCard } from '../services/MessagePayloads';
+import MessageCard from '../components/MessageCard';
+import Markdown from '../components/Markdown';
+
+const log = logger.withTag('chat');
 
 // Types
 interface Message {
@@ -25,6 +53,9 @@ interface Message {
   isUser: boolean;
   timestamp: Date;
   showFeedback?: boolean;
+  isStreaming?: boolean; // the answer is still arriving
+  payload?: MessagePayload; // rendered as a card instead of the text
+  context?: AnswerContext; // how the answer was made, saved with the guest's feedback
   feedback?: {
     type: 'positive' | 'negative';
     comment?: string;
@@ -32,6 +63,14 @@ interface Message {
   };
 }
 
+// What processUserInput answers with; free-form AI replies have no payload
+interface ChatReply {
+  text: string;
+  payload?: MessagePayload;
+  route: AnswerRoute;
+  park: ExtendedParkId; // whose data the answer came from
+}
+
 interface Attraction {
   id: string;
   name: string;
@@ -52,29 +91,9 @@ interface Entertainment {
   duration?: number;
 }
 
-interface CharacterMeet {
-  characters?: string[];
-  character?: string;
-  location: string;
-  times?: string[];
-  time?: string;
-  type: 'character-meet';
-  lastUpdated: string;
-  park?: string;
-}
-
 type ParkId = 'magicKingdom' | 'epcot' | 'hollywoodStudios' | 'animalKingdom';
 type ExtendedParkId = ParkId | 'disneySprings' | 'resorts';
 
-const PARK_NAMES: Record<ExtendedParkId, string> = {
-  magicKingdom: 'Magic Kingdom',
-  epcot: 'EPCOT', 
-  hollywoodStudios: "Disney's Hollywood Studios",
-  animalKingdom: "Disney's Animal Kingdom",
-  disneySprings: 'Disney Springs',
-  resorts: 'Resorts'
-};
-
 const getParkAbbreviation = (park: ExtendedParkId): string => {
   const abbreviations: Record<ExtendedParkId, string> = {
     magicKingdom: 'MK',
@@ -87,6 +106,17 @@ const getParkAbbreviation = (park: ExtendedParkId): string => {
   return abbreviations[park];
 };
 
+const isParkId = (park: ExtendedParkId): park is ParkId =>
+  park !== 'disneySprings' && park !== 'resorts';
+
+// "just now", "3m ago", "1h ago" for the header's live indicator
+const formatRefreshAge = (date: Date): string => {
+  const minutes = Math.floor((Date.now() - date.getTime()) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  return `${Math.floor(minutes / 60)}h ago`;
+};
+
 const PARKS: Array<{id: ExtendedParkId; name: string; icon: string; color: string}> = [
   { id: 'magicKingdom', name: 'Magic Kingdom', icon: '🏰', color: '#4facfe' },
   { id: 'epcot', name: 'EPCOT', icon: '🌐', color: '#4F9ECD' },
@@ -96,38 +126,10 @@ const PARKS: Array<{id: ExtendedParkId; name: string; icon: string; color: strin
   { id: 'resorts', name: 'Resorts', icon: '🏨', color: '#9B59B6' },
 ];
 
-// FIXED: Proper attraction-to-park mapping with REAL RIDES ONLY
-const ATTRACTION_TO_PARK: Record<string, ParkId> = {
-  'space mountain': 'magicKingdom',
-  'pirates of the caribbean': 'magicKingdom',
-  'haunted mansion': 'magicKingdom',
-  'big thunder mountain': 'magicKingdom',
-  'seven dwarfs mine train': 'magicKingdom',
-  'tiana\'s bayou adventure': 'magicKingdom',
-  'jungle cruise': 'magicKingdom',
-  'splash mountain': 'magicKingdom',
-  'tron lightcycle run': 'magicKingdom',
-  'it\'s a small world': 'magicKingdom',
-  'peter pan\'s flight': 'magicKingdom',
-  'buzz lightyear': 'magicKingdom',
-  'guardians of the galaxy': 'epcot',
-  'test track': 'epcot',
-  'spaceship earth': 'epcot',
-  'frozen ever after': 'epcot',
-  'soarin': 'epcot',
-  'mission space': 'epcot',
-  'rise of the resistance': 'hollywoodStudios',
-  'millennium falcon': 'hollywoodStudios',
-  'tower of terror': 'hollywoodStudios',
-  'rock n roller coaster': 'hollywoodStudios',
-  'slinky dog dash': 'hollywoodStudios',
-  'mickey and minnie\'s runaway railway': 'hollywoodStudios',
-  'avatar flight of passage': 'animalKingdom',
-  'expedition everest': 'animalKingdom',
-  'kilimanjaro safaris': 'animalKingdom',
-  'dinosaur': 'animalKingdom',
-  'navi river journey': 'animalKingdom'
-};
+// Intents the offline fallback answers with shows or rides
+const ENTERTAINMENT_INTENTS: QueryIntent[] = ['show_times', 'parade', 'fireworks'];
+const ATTRACTION_INTENTS: QueryIntent[] = ['ride_wait', 'wait_times', 'ride_info', 'wait_trend', 'wait_alert'];
+const SINGLE_RIDE_INTENTS: QueryIntent[] = ['ride_wait', 'wait_trend', 'wait_alert'];
 
 // FIXED: Define what should NOT be considered a ride
 const NOT_RIDES = [
@@ -160,161 +162,44 @@ const isShow = (attractionName: string): boolean => {
          lowerName.includes('country bear') || lowerName.includes('carousel of progress');
 };
 
-// DISNEY UX HELPER FUNCTIONS
-const formatTime = (militaryTime: string): string => {
-  if (!militaryTime || !militaryTime.includes(':')) return militaryTime;
-  
-  const [hours, minutes] = militaryTime.split(':');
-  const hour24 = parseInt(hours);
-  
-  if (hour24 === 0) return `12:${minutes} AM`;
-  if (hour24 < 12) return `${hour24}:${minutes} AM`;
-  if (hour24 === 12) return `12:${minutes} PM`;
-  return `${hour24 - 12}:${minutes} PM`;
-};
-
-const formatDate = (dateString: string): string => {
-  if (!dateString || !dateString.includes('-')) return dateString;
-  
-  const parts = dateString.split('-');
-  if (parts.length === 3) {
-    const [year, month, day] = parts;
-    return `${month}-${day}-${year}`;
-  }
-  return dateString;
-};
-
-// ENHANCED DISNEY-STYLE WAIT TIME FORMATTING
-const getWaitTimeBadgeColor = (waitTime: number): string => {
-  if (waitTime <= 15) return '#27AE60'; // Green - Great
-  if (waitTime <= 30) return '#F39C12'; // Orange - Good  
-  if (waitTime <= 60) return '#E67E22'; // Dark Orange - Okay
-  return '#E74C3C'; // Red - Long
-};
-
-const formatWaitTimeBadge = (waitTime: number, hasLightningLane: boolean = false): string => {
-  const badge = `⏰ ${waitTime} min`;
-  const llBadge = hasLightningLane ? ' ⚡' : '';
-  return `${badge}${llBadge}`;
-};
-
-// ENHANCED DISNEY RESPONSE FORMATTING
-const formatDisneyResponse = (
-  title: string, 
-  content: string, 
-  actionCue?: string
-): string => {
-  let response = `**${title}**\n\n${content}`;
-  
-  if (actionCue) {
-    response += `\n\n${actionCue} ✨`;
-  }
-  
-  return response;
-};
-
-// IMPROVED ANALYZE QUERY FUNCTION
-const analyzeQuery = (input: string) => {
-  const lower = input.toLowerCase();
-  
-  // Check for specific attraction names first
-  const hasAttractionName = Object.keys(ATTRACTION_TO_PARK).some(ride => 
-    lower.includes(ride.toLowerCase())
-  );
-  
-  return {
-    isAttractionWaitQuery: (
-      (lower.includes('wait') && (hasAttractionName || lower.includes('ride') || lower.includes('attraction'))) ||
-      lower.includes('shortest wait') || lower.includes('longest wait') || 
-      lower.includes('fastest ride') || lower.includes('ride times')
-    ),
-    
-    isShowWaitQuery: (
-      (lower.includes('wait') && (lower.includes('show') || lower.includes('parade') || lower.includes('firework'))) ||
-      lower.includes('next show') || lower.includes('when is') || lower.includes('show times') ||
-      lower.includes('how long until')
-    ),
-    
-    isCharacterWaitQuery: (
-      (lower.includes('wait') && (lower.includes('character') || lower.includes('meet') || lower.includes('mickey') || lower.includes('princess'))) ||
-      lower.includes('when can i meet') || lower.includes('character times') ||
-      lower.includes('meet times')
-    ),
-    
-    isGeneralWaitQuery: (
-      lower.includes('wait times') && !hasAttractionName && 
-      !lower.includes('show') && !lower.includes('character') && !lower.includes('meet')
-    ),
-    
-    isParkHoursQuery: (
-      lower.includes('park hours') || lower.includes('operating hours') ||
-      (lower.includes('open') && lower.includes('close')) ||
-      lower.includes('what time does') && (lower.includes('open') || lower.includes('close'))
-    ),
-    
-    isTimeQuery: lower.includes('time') || lower.includes('hours') || lower.includes('when'),
-    isSpecificLocationTime: lower.includes('fairytale hall') || lower.includes('princess fairytale hall') || lower.includes('fairy hall') || lower.includes('theater') || lower.includes('sideshow'),
-    isCharacterQuery: (lower.includes('character') || lower.includes('meet') || lower.includes('mickey') || 
-                      (lower.includes('princess') && !lower.includes('fairytale') && !lower.includes('fairy hall') && !lower.includes('princess fairytale hall'))),
-    isSpecificCharacterLocation: lower.includes('fairytale hall') || lower.includes('princess fairytale hall') || lower.includes('fairy hall') || lower.includes('town square theater') || lower.includes('pete\'s silly sideshow'),
-    isEntertainmentQuery: lower.includes('show') || lower.includes('parade') || lower.includes('firework') || lower.includes('entertainment'),
-    isFireworksQuery: lower.includes('firework'),
-    isShowQuery: (lower.includes('show') && !lower.includes('firework') && !lower.includes('parade')),
-    isParadeQuery: lower.includes('parade'),
-    isAttractionQuery: lower.includes('ride') || lower.includes('attraction') || lower.includes('wait') || hasAttractionName,
-    isCrossParks: lower.includes('flight of passage') || lower.includes('rise of the resistance') || lower.includes('frozen ever after'),
-    targetPark: (lower.includes('mk') || lower.includes('magic kingdom')) ? ('magicKingdom' as ExtendedParkId) :
-                (lower.includes('epcot') || lower.includes('ep')) ? ('epcot' as ExtendedParkId) :
-                (lower.includes('hollywood') || lower.includes('hs')) ? ('hollywoodStudios' as ExtendedParkId) :
-                (lower.includes('animal') || lower.includes('ak')) ? ('animalKingdom' as ExtendedParkId) : null
-  };
-};
-
 export default function PixiePalChat() {
+  const router = useRouter();
   const [currentPark, setCurrentPark] = useState<ExtendedParkId>('magicKingdom');
   const [messages, setMessages] = useState<Message[]>([]);
   const [inputText, setInputText] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [allAttractions, setAllAttractions] = useState<Attraction[]>([]);
-  const [allEntertainment, setAllEntertainment] = useState<any[]>([]);
-  const [allParkHours, setAllParkHours] = useState<any[]>([]);
+  const [allEntertainment, setAllEntertainment] = useState<ParkEntertainment[]>([]);
+  const [allParkHours, setAllParkHours] = useState<ParkSchedule[]>([]);
   const [allCharacterMeets, setAllCharacterMeets] = useState<CharacterMeet[]>([]);
+  const [parkDataFreshness, setParkDataFreshness] = useState<Partial<Record<ParkId, DataFreshness>>>({});
+  const [lastRefreshed, setLastRefreshed] = useState<Date | null>(null);
+  const [, setClockTick] = useState(0);
+  const refreshSchedulerRef = useRef<ParkRefreshScheduler | null>(null);
+  const replyAbortRef = useRef<AbortController | null>(null);
   const scrollViewRef = useRef<ScrollView>(null);
-  const [conversationContext, setConversationContext] = useState<string[]>([]);
+  const sessionRef = useRef<ChatSession | null>(null);
+  const [historyRestored, setHistoryRestored] = useState(false);
+  const [feedbackFormFor, setFeedbackFormFor] = useState<string | null>(null);
+  const [conversationState, setConversationState] = useState<ConversationState>(EMPTY_CONVERSATION);
   const [keyboardVisible, setKeyboardVisible] = useState(false);
   const [parkSelectorVisible, setParkSelectorVisible] = useState(true);
   const voiceService = VoiceService.getInstance();
 
-  // FIXED: Enhanced bold text formatter with proper React.ReactNode return type
-  const formatBoldText = (text: string): React.ReactNode[] => {
-    const parts = text.split(/(\*\*.*?\*\*)/g);
-    return parts.map((part, index) => {
-      if (part.startsWith('**') && part.endsWith('**')) {
-        const boldText = part.slice(2, -2);
-        return (
-          <Text key={index} style={styles.boldText}>
-            {boldText}
-          </Text>
-        );
-      }
-      return part;
-    });
-  };
-
   // Handle voice input - transcribe and process like text input
   const handleVoiceResult = async (audioUri: string) => {
     try {
-      console.log('🎤 Processing voice input...');
+      log.debug('Processing voice input');
       setIsLoading(true);
       
       // Use voice service to transcribe audio
       const transcription = await voiceService.transcribeAudio(audioUri);
-      console.log('✅ Voice transcription:', transcription);
+      log.debug('Voice transcription', { characters: transcription.length });
       
       // Process as if user typed the message
       await processVoiceMessage(transcription);
     } catch (error) {
-      console.error('❌ Voice processing error:', error);
+      log.error('Voice processing error', { error });
       
       const errorMessage: Message = {
         id: `error_${Date.now()}_${Math.random()}`,
@@ -330,42 +215,9 @@ export default function PixiePalChat() {
     }
   };
 
-  // Process voice message like a regular text message
+  // Process voice message like a regular text message, reading the answer aloud as it arrives
   const processVoiceMessage = async (transcription: string) => {
-    const userMessage: Message = {
-      id: `user_${Date.now()}_${Math.random()}`,
-      text: transcription,
-      isUser: true,
-      timestamp: new Date()
-    };
-
-    setMessages(prev => [...prev, userMessage]);
-
-    try {
-      const response = await processUserInput(transcription);
-      
-      const aiMessage: Message = {
-        id: `ai_${Date.now()}_${Math.random()}`,
-        text: response,
-        isUser: false,
-        timestamp: new Date(),
-        showFeedback: true
-      };
-
-      setMessages(prev => [...prev, aiMessage]);
-    } catch (error) {
-      console.log('❌ Error processing voice message:', error);
-      
-      const errorMessage: Message = {
-        id: `error_${Date.now()}_${Math.random()}`,
-        text: "Something magical went wrong! ✨ Try asking about wait times or shows!",
-        isUser: false,
-        timestamp: new Date(),
-        showFeedback: true
-      };
-      
-      setMessages(prev => [...prev, errorMessage]);
-    }
+    await replyTo(transcription, voiceService.createSentenceSpeaker());
   };
 
   const formatTimeDisplay = (date: Date) => {
@@ -393,10 +245,68 @@ export default function PixiePalChat() {
   };
 
   useEffect(() => {
-    loadAttractions();
-    addWelcomeMessage();
+    const loadController = new AbortController();
+    refreshSchedulerRef.current = new ParkRefreshScheduler(pixiePalData, {
+      onWaitTimes: data => publishWaitTimes(data.parkId as ParkId, data),
+      onRefreshed: setLastRefreshed
+    });
+    
+    deviceIdentity.load();
+    usageMeter.load();
+    loadAttractions(loadController.signal);
+    restoreChat();
+    
+    // Keep the "Updated Xm ago" indicator ticking
+    const clock = setInterval(() => setClockTick(tick => tick + 1), 30 * 1000);
+    
+    return () => {
+      loadController.abort();
+      refreshSchedulerRef.current?.stop();
+      clearInterval(clock);
+    };
   }, []);
 
+  // Poll the park the guest is looking at more often
+  useEffect(() => {
+    refreshSchedulerRef.current?.setCurrentPark(isParkId(currentPark) ? currentPark : null);
+  }, [currentPark]);
+
+  // Save after every change, but not mid-stream - a half-written answer isn't worth restoring
+  useEffect(() => {
+    const session = sessionRef.current;
+    if (!historyRestored || !session || messages.some(message => message.isStreaming)) {
+      return;
+    }
+    chatHistory.save({ ...session, park: currentPark, messages, conversation: conversationState });
+  }, [historyRestored, messages, conversationState, currentPark]);
+
+  // Pick up today's conversation where the guest left it, or start the park day with a welcome
+  const restoreChat = async () => {
+    const session = await chatHistory.getCurrentSession();
+    if (session && session.messages.length > 0) {
+      sessionRef.current = session;
+      setMessages(session.messages);
+      setConversationState(session.conversation);
+      const park = PARKS.find(({ id }) => id === session.park);
+      if (park) {
+        setCurrentPark(park.id);
+      }
+      log.info('Restored chat', { messages: session.messages.length, day: session.day });
+    } else {
+      sessionRef.current = createChatSession(currentPark);
+      addWelcomeMessage();
+    }
+    setHistoryRestored(true);
+  };
+
+  // Today's chat stays in history; the new day starts clean
+  const startNewDay = () => {
+    sessionRef.current = createChatSession(currentPark);
+    setConversationState(EMPTY_CONVERSATION);
+    addWelcomeMessage();
+    log.info('Started a new park day');
+  };
+
   const addWelcomeMessage = () => {
     const welcomeMessage: Message = {
       id: `welcome_${Date.now()}`,
@@ -408,36 +318,34 @@ export default function PixiePalChat() {
     setMessages([welcomeMessage]);
   };
 
-  const handleFeedback = async (messageId: string, feedbackType: 'positive' | 'negative', comment?: string) => {
+  const handleFeedback = async (message: Message, feedbackType: 'positive' | 'negative', reason?: FeedbackReason, comment?: string) => {
+    setFeedbackFormFor(null);
     setMessages(prev => prev.map(msg => 
-      msg.id === messageId 
+      msg.id === message.id 
         ? { ...msg, feedback: { type: feedbackType, comment, timestamp: new Date() } }
         : msg
     ));
     
-    const feedbackData = {
-      messageId,
-      feedbackType,
-      comment,
-      timestamp: new Date().toISOString(),
-      park: currentPark,
-      messageText: messages.find(m => m.id === messageId)?.text?.substring(0, 100)
-    };
-    
-    console.log('📊 Feedback received:', feedbackData);
-    
     try {
-      const existingFeedback = await AsyncStorage.getItem('pixie_pal_feedback');
-      const feedbackArray = existingFeedback ? JSON.parse(existingFeedback) : [];
-      feedbackArray.push(feedbackData);
-      await AsyncStorage.setItem('pixie_pal_feedback', JSON.stringify(feedbackArray));
-      console.log('✅ Feedback saved locally');
+      await feedbackStore.add({
+        messageId: message.id,
+        feedbackType,
+        reason: reason ?? null,
+        comment: comment || null,
+        timestamp: new Date().toISOString(),
+        park: message.context?.park ?? currentPark,
+        messageText: message.text,
+        question: message.context?.question ?? null,
+        route: message.context?.route ?? null,
+        dataAgeMinutes: message.context?.dataAgeMinutes ?? null
+      });
     } catch (error) {
-      console.log('❌ Error saving feedback:', error);
+      log.error('Error saving feedback', { error });
     }
   };
 
-  const FeedbackComponent = ({ message }: { message: Message }) => {
+  // A plain function rather than a component, so the open form keeps its state across re-renders
+  const renderFeedback = (message: Message) => {
     if (message.feedback) {
       return (
         <View style={styles.feedbackCompleted}>
@@ -446,17 +354,27 @@ export default function PixiePalChat() {
       );
     }
 
+    // Thumbs down asks what went wrong before saving
+    if (feedbackFormFor === message.id) {
+      return (
+        <FeedbackForm
+          onSubmit={(reason, comment) => handleFeedback(message, 'negative', reason, comment)}
+          onCancel={() => setFeedbackFormFor(null)}
+        />
+      );
+    }
+
     return (
       <View style={styles.feedbackContainer}>
         <TouchableOpacity
           style={styles.feedbackButton}
-          onPress={() => handleFeedback(message.id, 'positive')}
+          onPress={() => handleFeedback(message, 'positive')}
         >
           <Text style={styles.feedbackButtonText}>👍</Text>
         </TouchableOpacity>
         <TouchableOpacity
           style={styles.feedbackButton}
-          onPress={() => handleFeedback(message.id, 'negative')}
+          onPress={() => setFeedbackFormFor(message.id)}
         >
           <Text style={styles.feedbackButtonText}>👎</Text>
         </TouchableOpacity>
@@ -464,455 +382,484 @@ export default function PixiePalChat() {
     );
   };
 
-  const loadAttractions = async () => {
+  // Replace one park's rides (and their freshness) in screen state
+  const publishWaitTimes = (parkId: ParkId, waitTimes: ParkData) => {
+    setParkDataFreshness(prev => ({
+      ...prev,
+      [parkId]: { fetchedAt: waitTimes.fetchedAt, isStale: waitTimes.isStale, origin: waitTimes.origin }
+    }));
+    
+    // Never mix the "Check Disney World App" placeholder into real ride data
+    if (waitTimes.origin !== 'fallback' && waitTimes.attractions.length > 0) {
+      // FIXED: Properly categorize attractions vs shows vs character meets
+      const parkAttractions: Attraction[] = waitTimes.attractions
+        .filter(attraction => isActualRide(attraction.name)) // Only real rides
+        .map(attraction => ({
+          id: attraction.id,
+          name: attraction.name,
+          waitTime: attraction.waitTime,
+          isOpen: attraction.isOpen,
+          hasLightningLane: attraction.hasLightningLane || false,
+          park: parkId,
+          land: attraction.land,
+          type: 'ride'
+        }));
+      
+      setAllAttractions(prev => [...prev.filter(a => a.park !== parkId), ...parkAttractions]);
+    }
+    
+    // Alerts only fire on fresh readings, never on cached or placeholder waits
+    if (waitTimes.origin === 'live') {
+      checkWaitTimeAlerts(waitTimes);
+    }
+  };
+
+  const checkWaitTimeAlerts = async (waitTimes: ParkData) => {
     try {
-      setIsLoading(true);
+      const triggered = await waitTimeAlerts.checkAlerts(waitTimes.attractions);
+      if (triggered.length === 0) {
+        return;
+      }
       
-      const parks = [
-        { id: 'magicKingdom' as ParkId, name: 'magic-kingdom' },
-        { id: 'epcot' as ParkId, name: 'epcot' },
-        { id: 'hollywoodStudios' as ParkId, name: 'hollywood-studios' },
-        { id: 'animalKingdom' as ParkId, name: 'animal-kingdom' }
-      ];
-
-      const allData: Attraction[] = [];
-      const allEntertainment: any[] = [];
-      const allParkHours: any[] = [];
-      const allCharacterMeets: CharacterMeet[] = [];
-
-      for (const park of parks) {
-        try {
-          console.log(`🔍 Fetching real data for ${park.name}...`);
-          
-          const data = await pixiePalData.getWaitTimes(park.id);
-          
-          let entertainmentData = null;
-          try {
-            console.log(`🎭 Fetching entertainment for ${park.name}...`);
-            const response = await fetch(`https://disney-data-proxy.onrender.com/api/disney/entertainment/${park.name}`);
-            if (response.ok) {
-              entertainmentData = await response.json();
-              console.log(`🎭 Got ${entertainmentData?.entertainment?.length || 0} entertainment items`);
-            }
-          } catch (entertainmentError) {
-            console.log(`⚠️ Entertainment data not available for ${park.name}`);
-          }
-          
-          let characterMeetData = null;
-          try {
-            console.log(`🧚‍♀️ Fetching character meets for ${park.name}...`);
-            const characterResponse = await fetch(`https://disney-data-proxy.onrender.com/api/disney/character-meets/${park.name}`);
-            if (characterResponse.ok) {
-              characterMeetData = await characterResponse.json();
-            }
-          } catch (characterError) {
-            console.log(`⚠️ Character meet data not available for ${park.name}`);
-          }
-          
-          let parkHoursData = null;
-          try {
-            console.log(`🕐 Fetching park hours for ${park.name}...`);
-            const hoursResponse = await fetch(`https://disney-data-proxy.onrender.com/api/disney/park-hours/${park.name}`);
-            if (hoursResponse.ok) {
-              parkHoursData = await hoursResponse.json();
-            }
-          } catch (hoursError) {
-            console.log(`⚠️ Park hours not available for ${park.name}`);
-          }
-          
-          if (data && data.attractions && data.attractions.length > 0) {
-            console.log(`✅ Got ${data.attractions.length} attractions from ${park.name}`);
-            
-            // FIXED: Properly categorize attractions vs shows vs character meets
-            const parkAttractions = data.attractions
-              .filter((attraction: any) => isActualRide(attraction.name)) // Only real rides
-              .map((attraction: any) => ({
-                id: `${park.name}-${attraction.id}`,
-                name: attraction.name,
-                waitTime: attraction.waitTime || 0,
-                isOpen: attraction.isOpen || true,
-                hasLightningLane: attraction.fastPassAvailable || attraction.hasLightningLane || false,
-                park: park.id,
-                land: attraction.land,
-                type: 'ride'
-              }));
-            
-            allData.push(...parkAttractions);
-          }
+      const alertMessages: Message[] = triggered.map(({ alert, title, body }) => ({
+        id: `alert_${Date.now()}_${alert.id}`,
+        text: formatDisneyResponse(title, body, "Head over now before the line grows"),
+        isUser: false,
+        timestamp: new Date(),
+        showFeedback: false
+      }));
+      setMessages(prev => [...prev, ...alertMessages]);
+    } catch (error) {
+      log.error('Error checking wait time alerts', { error });
+    }
+  };
 
-          if (entertainmentData && entertainmentData.entertainment) {
+  // Merge one park's data into screen state, replacing whatever that park had before
+  const publishParkData = (data: CompleteParkData) => {
+    const { parkId, waitTimes, entertainment, parades, parkHours, characterMeets } = data;
+    
+    publishWaitTimes(parkId, waitTimes);
+    
+    if (entertainment.origin !== 'fallback' || parades.origin !== 'fallback') {
+      setAllEntertainment(prev => {
+        const previous = prev.find(e => e.park === parkId);
+        return [
+          ...prev.filter(e => e.park !== parkId),
+          {
+            park: parkId,
             // FIXED: Filter out character meets from entertainment
-            const actualEntertainment = entertainmentData.entertainment.filter((item: any) => 
-              !isCharacterMeet(item.name)
-            );
-            
-            allEntertainment.push({
-              park: park.id,
-              entertainment: actualEntertainment
-            });
-          }
-
-          if (characterMeetData && characterMeetData.characterMeets) {
-            const parkCharacterMeets = characterMeetData.characterMeets.map((meet: any) => ({
-              ...meet,
-              park: park.id
-            }));
-            allCharacterMeets.push(...parkCharacterMeets);
+            entertainment: entertainment.origin !== 'fallback'
+              ? entertainment.events.filter(item => !isCharacterMeet(item.name))
+              : previous?.entertainment ?? null,
+            parades: parades.origin !== 'fallback' ? parades.events : previous?.parades ?? null
           }
+        ];
+      });
+    }
+    
+    if (characterMeets.origin !== 'fallback') {
+      setAllCharacterMeets(prev => [...prev.filter(meet => meet.park !== parkId), ...characterMeets.meets]);
+    }
+    
+    if (parkHours.origin !== 'fallback') {
+      setAllParkHours(prev => [...prev.filter(p => p.park !== parkId), { park: parkId, hours: parkHours.schedule }]);
+    }
+    
+    log.info('Park data loaded', {
+      park: parkId,
+      rides: waitTimes.attractions.length,
+      entertainment: entertainment.events.length,
+      characterMeets: characterMeets.meets.length
+    });
+  };
 
-          if (parkHoursData) {
-            allParkHours.push({
-              park: park.id,
-              hours: parkHoursData
+  // All parks load in parallel; each park becomes answerable as soon as it arrives
+  const loadAttractions = async (signal?: AbortSignal) => {
+    setIsLoading(true);
+    let firstParkLoaded = false;
+    
+    try {
+      await pixiePalData.loadAllParks({
+        signal,
+        onPark: data => {
+          publishParkData(data);
+          if (data.waitTimes.origin !== 'fallback') {
+            setLastRefreshed(prev => {
+              const fetchedAt = new Date(data.waitTimes.fetchedAt);
+              return prev && prev > fetchedAt ? prev : fetchedAt;
             });
           }
-          
-        } catch (error) {
-          console.log(`❌ Failed to get ${park.name} data:`, error);
+          if (!firstParkLoaded) {
+            firstParkLoaded = true;
+            setIsLoading(false);
+          }
         }
-      }
-
-      if (allData.length > 0) {
-        setAllAttractions(allData);
-        setAllEntertainment(allEntertainment);
-        setAllParkHours(allParkHours);
-        setAllCharacterMeets(allCharacterMeets);
-        
-        console.log(`✅ LOADED DISNEY DATA: ${allData.length} rides, ${allEntertainment.length} entertainment, ${allCharacterMeets.length} character meets`);
-      }
+      });
+      
+      refreshSchedulerRef.current?.start();
     } catch (error) {
-      console.log('❌ Error loading attractions:', error);
+      // Leaving the screen cancels the load; that's not a failure
+      if (signal?.aborted) {
+        log.debug('Attraction load cancelled');
+      } else {
+        log.error('Error loading attractions', { error });
+      }
     } finally {
-      setIsLoading(false);
+      if (!signal?.aborted) {
+        setIsLoading(false);
+      }
     }
   };
 
-  // ENHANCED PATTERN MATCHING with proper categorization
-  const tryPatternMatch = (input: string, contextPark?: ExtendedParkId): string | null => {
-    const lowerInput = input.toLowerCase();
-    const effectivePark = contextPark || currentPark;
-    const analysis = analyzeQuery(input);
-
-    // Handle general "wait times" query with PROPER categorization
-    if (analysis.isGeneralWaitQuery) {
-      const currentParkAttractions = allAttractions.filter(a => a.park === effectivePark);
-      const currentParkEntertainment = allEntertainment.find(e => e.park === effectivePark)?.entertainment || [];
-      const currentParkCharacters = allCharacterMeets.filter(meet => meet.park === effectivePark);
-      
-      let content = '';
-      
-      // FIXED: Only show ACTUAL RIDES with shortest waits
-      if (currentParkAttractions.length > 0) {
-        const shortestWaits = currentParkAttractions
-          .filter(a => a.isOpen && a.type === 'ride') // Only actual rides
-          .sort((a, b) => a.waitTime - b.waitTime)
-          .slice(0, 3);
-        
-        if (shortestWaits.length > 0) {
-          content += `**🎢 Shortest Ride Waits**\n\n`;
-          shortestWaits.forEach((attraction, index) => {
-            const badge = formatWaitTimeBadge(attraction.waitTime, attraction.hasLightningLane);
-            content += `**${index + 1}. ${attraction.name}**\n${badge}\n\n`;
-          });
-        }
-      }
-      
-      // FIXED: Only show ACTUAL SHOWS (not character meets)
-      if (currentParkEntertainment.length > 0) {
-        const actualShows = currentParkEntertainment.filter((show: any) => 
-          !isCharacterMeet(show.name)
-        );
-        
-        if (actualShows.length > 0) {
-          content += `**🎭 Shows Starting Soon**\n\n`;
-          actualShows.slice(0, 2).forEach((show: any) => {
-            const times = show.times?.join(', ') || 'Check times';
-            content += `**${show.name}**\n🕐 ${times}\n\n`;
-          });
-        }
-      }
-      
-      // FIXED: Only show ACTUAL CHARACTER MEETS (no duplicates)
-      if (currentParkCharacters.length > 0) {
-        const uniqueCharacters = currentParkCharacters
-          .filter((meet, index, self) => 
-            index === self.findIndex(m => 
-              (m.character || m.characters?.join(',')) === (meet.character || meet.characters?.join(','))
-            )
-          )
-          .slice(0, 3);
-        
-        if (uniqueCharacters.length > 0) {
-          content += `**🧚‍♀️ Characters Available**\n\n`;
-          uniqueCharacters.forEach(meet => {
-            const characters = meet.characters?.join(', ') || meet.character || 'Character';
-            const times = meet.times?.join(', ') || meet.time || 'Check times';
-            content += `**${characters}**\n📍 ${meet.location}\n🕐 ${times}\n\n`;
-          });
-        }
-      }
-      
+  const createWaitTimeAlert = async (input: string): Promise<string> => {
+    const request = parseAlertRequest(input);
+    const attraction = resolveAttraction(input, allAttractions).match;
+    
+    if (!attraction || !request) {
+      const activeAlerts = await waitTimeAlerts.getAlerts();
+      const active = activeAlerts.length > 0
+        ? `\n\n**Watching now:**\n${activeAlerts.map(alert => `🔔 ${waitTimeAlerts.describeAlert(alert)}`).join('\n')}`
+        : '';
+      const ride = attraction?.name || 'Space Mountain';
+      return formatDisneyResponse(
+        "🔔 Wait Time Alerts",
+        `I can watch any ride for you! Try:\n\n⏰ "Tell me when ${ride} is under 30 minutes"\n🎢 "Tell me when TRON reopens"${active}`,
+        "I'll ping you as soon as it happens"
+      );
+    }
+    
+    if (isAlertConditionMet(request, attraction)) {
       return formatDisneyResponse(
-        `${PARK_NAMES[effectivePark]} Wait Times`,
-        content.trim() || "Getting the latest wait times ready for you!",
-        "Want alerts when lines drop? Just ask"
+        "✨ Good News!",
+        `**${attraction.name}** is open right now with a ${attraction.waitTime} min wait - no alert needed!`,
+        "Head over now before the line grows"
       );
     }
     
-    // Other pattern matching continues...
-    return null;
+    const alert = await waitTimeAlerts.addAlert(attraction, request);
+    const status = attraction.isOpen ? `⏰ Right now: ${attraction.waitTime} min` : '🚫 Currently closed';
+    return formatDisneyResponse(
+      "🔔 Alert Set!",
+      `I'll let you know when **${waitTimeAlerts.describeAlert(alert)}**.\n\n${status}`,
+      "I check for you every couple of minutes while the app is open"
+    );
   };
 
-  const processUserInput = async (input: string): Promise<string> => {
-    setConversationContext(prev => [...prev.slice(-4), input]);
-    
-    const analysis = analyzeQuery(input);
+  // `stream` delivers the AI's answer as it's written; deterministic answers just return
+  const processUserInput = async (input: string, stream: CompletionOptions = {}): Promise<ChatReply> => {
+    // Follow-ups ("what about at EPCOT?", "is it shorter now?") borrow their subject from earlier turns
+    const { question, analysis, isFollowUp } = resolveFollowUp(input, conversationState, {
+      attractions: allAttractions,
+      characters: allCharacterMeets.flatMap(meet => meet.characters),
+      park: currentPark,
+      entertainment: allEntertainment
+    });
+    log.info('Intent classified', {
+      intent: analysis.intent,
+      confidence: analysis.confidence,
+      ...(isFollowUp ? { followUp: question } : {})
+    });
     
-    let targetPark: ExtendedParkId = analysis.targetPark || currentPark;
+    let targetPark: ExtendedParkId = analysis.slots.park || currentPark;
+    setConversationState(prev => updateConversationState(prev, analysis, targetPark));
     
     if (targetPark !== currentPark) {
       setCurrentPark(targetPark);
-      console.log(`🔄 Switched to ${PARK_NAMES[targetPark]}`);
+      log.debug('Switched park', { park: targetPark });
     }
 
-    const patternResult = tryPatternMatch(input, targetPark);
-    if (patternResult) {
-      console.log('🟢 Using pattern matching (Disney formatted)');
-      return patternResult;
+    // Two or more rides match equally well ("the mountain") - ask instead of guessing
+    if (analysis.attractionCandidates.length > 1 && SINGLE_RIDE_INTENTS.includes(analysis.intent)) {
+      return {
+        text: formatDisneyResponse(
+          "🎢 Which Ride?",
+          formatDidYouMean(analysis.attractionCandidates),
+          "Just tell me the ride name"
+        ),
+        route: 'pattern',
+        park: targetPark
+      };
+    }
+
+    // "Tell me when Space Mountain is under 30 minutes" / "tell me when Tron reopens"
+    if (analysis.intent === 'wait_alert') {
+      return { text: await createWaitTimeAlert(question), route: 'pattern', park: targetPark };
+    }
+
+    // "Is the line for Slinky Dog going down?" - answered from today's wait time history
+    if (analysis.intent === 'wait_trend') {
+      const attraction = resolveAttraction(question, allAttractions).match;
+      if (attraction) {
+        const [trend, lowest] = await Promise.all([
+          pixiePalData.getWaitTimeTrend(attraction.id),
+          pixiePalData.getLowestWaitToday(attraction.id)
+        ]);
+        log.debug('Answering wait trend', { attraction: attraction.name, direction: trend.direction });
+        return { text: pixiePalData.formatWaitTimeTrend(attraction, trend, lowest), route: 'pattern', park: targetPark };
+      }
+    }
+
+    const handled = runResponseHandlers({
+      input: question,
+      analysis,
+      park: targetPark,
+      now: new Date(),
+      attractions: allAttractions,
+      entertainment: allEntertainment,
+      parkHours: allParkHours,
+      characterMeets: allCharacterMeets,
+      freshness: parkDataFreshness
+    });
+    if (handled) {
+      log.debug('Answered by handler', { handler: handled.handler });
+      if (handled.switchToPark && handled.switchToPark !== targetPark) {
+        const switchedPark = handled.switchToPark;
+        setCurrentPark(switchedPark);
+        setConversationState(prev => ({ ...prev, park: switchedPark }));
+        log.debug('Auto-switched park', { park: switchedPark });
+      }
+      return { text: handled.text, payload: handled.payload, route: 'pattern', park: handled.switchToPark || targetPark };
     }
 
     if (targetPark === 'disneySprings' || targetPark === 'resorts') {
       if (targetPark === 'disneySprings') {
-        return formatDisneyResponse(
-          "🛍️ Disney Springs",
-          "Disney's shopping and dining district!\n\n📍 **What's there:** World-class shopping, amazing restaurants, live entertainment\n🕐 **Hours:** 10:00 AM - 11:00 PM daily\n🚗 **Parking:** Free parking available",
-          "Ask about specific stores or dining"
-        );
+        return {
+          text: formatDisneyResponse(
+            "🛍️ Disney Springs",
+            "Disney's shopping and dining district!\n\n📍 **What's there:** World-class shopping, amazing restaurants, live entertainment\n🕐 **Hours:** 10:00 AM - 11:00 PM daily\n🚗 **Parking:** Free parking available",
+            "Ask about specific stores or dining"
+          ),
+          route: 'pattern',
+          park: targetPark
+        };
       } else {
-        return formatDisneyResponse(
-          "🏨 Disney Resort Hotels",
-          "Magical accommodations await!\n\n🏰 **Deluxe:** Grand Floridian, Polynesian, Contemporary\n🌟 **Moderate:** Port Orleans, Caribbean Beach, Coronado Springs\n💰 **Value:** All-Star resorts, Pop Century, Art of Animation",
-          "Each resort has unique theming and transportation"
-        );
+        return {
+          text: formatDisneyResponse(
+            "🏨 Disney Resort Hotels",
+            "Magical accommodations await!\n\n🏰 **Deluxe:** Grand Floridian, Polynesian, Contemporary\n🌟 **Moderate:** Port Orleans, Caribbean Beach, Coronado Springs\n💰 **Value:** All-Star resorts, Pop Century, Art of Animation",
+            "Each resort has unique theming and transportation"
+          ),
+          route: 'pattern',
+          park: targetPark
+        };
       }
     }
 
     try {
-      console.log('🤖 Using enhanced AI with Disney formatting');
-      
-      const currentParkAttractions = allAttractions.filter(a => a.park === targetPark);
-      const currentParkEntertainment = allEntertainment.find(e => e.park === targetPark)?.entertainment || [];
-      const currentParkCharacters = allCharacterMeets.filter(meet => meet.park === targetPark);
-      
-      const attractionsContext = currentParkAttractions.map(a => 
-        `${a.name} (${a.land || 'park'}) - ${a.waitTime} min wait${a.hasLightningLane ? ' (Lightning Lane available)' : ''}${!a.isOpen ? ' (CLOSED)' : ''}`
-      ).join('\n');
-      
-      const entertainmentContext = currentParkEntertainment.length > 0
-        ? currentParkEntertainment.map((e: any) => {
-            const times = e.times?.join(', ') || 'Times vary';
-            const location = e.location || e.land || 'Multiple locations';
-            const type = e.type ? `[${e.type}]` : '';
-            return `${e.name} ${type} - ${times} (${location})`;
-          }).join('\n')  
-        : 'No scheduled entertainment found';
-
-      const characterContext = currentParkCharacters.length > 0
-        ? currentParkCharacters.map(meet => {
-            const characters = meet.characters?.join(', ') || meet.character || 'Character';
-            const times = meet.times?.join(', ') || meet.time || 'Check times';
-            return `${characters} - ${meet.location} (${times})`;
-          }).join('\n')
-        : 'No character meet data available';
-
-      // ENHANCED AI PROMPT
-      const aiPrompt = `You are Pixie Pal, the warmest Disney assistant! 🏰
-
-CURRENT PARK: ${PARK_NAMES[targetPark]}
-USER QUESTION: "${input}"
-
-🎢 LIVE ATTRACTION WAIT TIMES:
-${attractionsContext}
-
-🎭 CURRENT ENTERTAINMENT & SHOWS:
-${entertainmentContext}
-
-🧚‍♀️ CHARACTER MEET & GREETS:
-${characterContext}
-
-📋 DISNEY UX RESPONSE RULES:
-
-**Structure Every Response:**
-1. **Header** (bold + icon, NO timestamp)
-2. **Well-spaced content** with clear visual breaks
-3. **Action cue** (one friendly sentence ending with ✨)
-
-**Visual Formatting:**
-• Use **text** for bold (processed by formatBoldText)
-• Add blank lines between items for spacing
-• Use ✨ **🎢 Section Name** ✨ for section headers (NO ugly lines!)
-• Format wait times as "⏰ 25 min ⚡"
-• Use 📍 for locations, 🕐 for times
-• Maximum 5 items per section
-
-**Content Rules:**
-• Welcoming & optimistic tone
-• Max 2 emojis per response  
-• Keep under 120 words
-• Use "Great news!" for short waits
-• Clear visual hierarchy
-
-**Response Examples:**
-"**Space Mountain**\n\n⏰ 25 min ⚡\n\n📍 Tomorrowland, Magic Kingdom"
-
-"**Festival of Fantasy Parade**\n\n🕐 3:00 PM, 5:30 PM\n\n📍 Main Street USA"
-
-Answer with clear sections and visual breaks! ✨`;
-
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${process.env.EXPO_PUBLIC_OPENAI_API_KEY || ''}`
-        },
-        body: JSON.stringify({
-          model: 'gpt-4o-mini',
-          messages: [
-            {
-              role: 'user',
-              content: aiPrompt
-            }
-          ],
-          max_tokens: 400,
-          temperature: 0.2
-        })
+      // Quoted waits and showtimes are checked against what's loaded before the guest sees or hears them
+      const groundingData: GroundingData = {
+        attractions: allAttractions,
+        events: allEntertainment.flatMap(park => [...(park.entertainment || []), ...(park.parades || [])])
+      };
+      const grounded = stream.onText ? new GroundedStream(groundingData, stream.onText) : null;
+
+      // The model fetches what it needs through tools - see services/AssistantTools.ts
+      const answer = await pixiePalAssistant.answer({
+        parkName: PARK_NAMES[targetPark],
+        // The follow-up with its subject filled in ("is it down?" -> "is Space Mountain down?")
+        question,
+        history: conversationState.turns,
+        followUpContext: describeConversationState(conversationState)
+      }, {
+        ...stream,
+        onText: grounded ? chunk => grounded.push(chunk) : undefined,
+        onToolCalls: () => {
+          grounded?.reset();
+          stream.onToolCalls?.();
+        }
       });
 
-      if (!response.ok) {
-        throw new Error(`OpenAI API failed: ${response.status}`);
-      }
-
-      const aiData = await response.json();
-      const aiResponse = aiData.choices[0]?.message?.content || 'Something magical happened! ✨ Try asking about wait times or shows!';
+      log.debug('AI answer received', { toolCalls: answer.toolResults.length });
 
-      console.log('✅ Enhanced Disney AI response received');
-      return aiResponse;
+      const grounding = groundAnswer(answer.text, groundingData);
+      grounded?.finish(grounding.text);
+      groundingLog.record(grounding.corrections);
+      return { text: grounding.text, route: 'ai', park: targetPark };
       
     } catch (error) {
-      console.log('❌ AI error, using enhanced fallback:', error);
+      if (isAbortError(error)) {
+        throw error;
+      }
+      log.warn(isUsageCapError(error) ? 'Token cap reached, answering from park data' : 'AI error, using the park data fallback', {
+        intent: analysis.intent,
+        park: targetPark,
+        error
+      });
       
       const currentParkAttractions = allAttractions.filter(a => a.park === targetPark);
       const currentParkCharacters = allCharacterMeets.filter(meet => meet.park === targetPark);
       const currentParkEntertainment = allEntertainment.find(e => e.park === targetPark)?.entertainment || [];
       
-      if (analysis.isEntertainmentQuery && currentParkEntertainment.length > 0) {
+      if (ENTERTAINMENT_INTENTS.includes(analysis.intent) && currentParkEntertainment.length > 0) {
+        const title = `🎭 ${PARK_NAMES[targetPark]} Entertainment`;
+        const actionCue = "Check the Disney app for any last-minute changes";
+        const shows = currentParkEntertainment.slice(0, 4).map(show => ({
+          name: show.name,
+          times: eventTimes(show),
+          location: show.location
+        }));
         let content = '';
-        const entertainmentShows = currentParkEntertainment.slice(0, 4);
-        entertainmentShows.forEach((show: any) => {
-          const times = show.times?.join(', ') || 'Check times';
+        shows.forEach(show => {
+          const times = show.times.join(', ') || 'Check times';
           content += `**${show.name}**\n🕐 ${times}\n\n`;
         });
         
-        return formatDisneyResponse(
-          `🎭 ${PARK_NAMES[targetPark]} Entertainment`,
-          content,
-          "Check the Disney app for any last-minute changes"
-        );
+        return {
+          text: formatDisneyResponse(title, content, actionCue),
+          payload: { title, sections: [{ kind: 'show_schedule', shows }], actionCue },
+          route: 'fallback',
+          park: targetPark
+        };
       }
       
-      if (analysis.isCharacterQuery && currentParkCharacters.length > 0) {
+      if (analysis.intent === 'character_meet' && currentParkCharacters.length > 0) {
+        const title = `🧚‍♀️ ${PARK_NAMES[targetPark]} Character Meets`;
+        const actionCue = "Arrive early for the best meet experience";
+        const meets = currentParkCharacters.slice(0, 3);
         let content = '';
-        currentParkCharacters.slice(0, 3).forEach((meet) => {
-          const characters = meet.characters?.join(', ') || meet.character || 'Character';
-          const times = meet.times?.join(', ') || meet.time || 'Check times';
+        meets.forEach((meet) => {
+          const characters = meet.characters.join(', ');
+          const times = meet.times.join(', ') || 'Check times';
           content += `**${characters}**\n📍 ${meet.location}\n🕐 ${times}\n\n`;
         });
         
-        return formatDisneyResponse(
-          `🧚‍♀️ ${PARK_NAMES[targetPark]} Character Meets`,
-          content,
-          "Arrive early for the best meet experience"
-        );
+        return {
+          text: formatDisneyResponse(title, content, actionCue),
+          payload: { title, sections: [{ kind: 'character_meets', meets }], actionCue },
+          route: 'fallback',
+          park: targetPark
+        };
       }
       
-      if (analysis.isAttractionQuery && currentParkAttractions.length > 0) {
-        let content = '';
+      if (ATTRACTION_INTENTS.includes(analysis.intent) && currentParkAttractions.length > 0 && isParkId(targetPark)) {
+        const attractionPark = targetPark;
+        const title = `🏰 ${PARK_NAMES[targetPark]} Attractions`;
+        const actionCue = "Live wait times updated every few minutes";
         const topAttractions = currentParkAttractions.slice(0, 5);
+        let content = '';
         topAttractions.forEach((a) => {
           const badge = formatWaitTimeBadge(a.waitTime, a.hasLightningLane);
           content += `**${a.name}**\n${badge}\n\n`;
         });
         
-        return formatDisneyResponse(
-          `🏰 ${PARK_NAMES[targetPark]} Attractions`,
-          content,
-          "Live wait times updated every few minutes"
-        );
+        return {
+          text: formatDisneyResponse(title, content, actionCue),
+          payload: rideWaitsCard(title, topAttractions.map(a => ({ ...a, park: attractionPark })), { actionCue }),
+          route: 'fallback',
+          park: targetPark
+        };
       }
       
-      return formatDisneyResponse(
-        "✨ Magic in Progress",
-        `I have data for ${currentParkAttractions.length} attractions, ${currentParkEntertainment.length} shows, and ${currentParkCharacters.length} character meets at ${PARK_NAMES[targetPark]}!`,
-        'Try asking "show me rides" or "character meets"'
-      );
+      const title = "✨ Magic in Progress";
+      const summary = `I have data for ${currentParkAttractions.length} attractions, ${currentParkEntertainment.length} shows, and ${currentParkCharacters.length} character meets at ${PARK_NAMES[targetPark]}!`;
+      const actionCue = 'Try asking "show me rides" or "character meets"';
+      return { text: formatDisneyResponse(title, summary, actionCue), payload: noteCard(title, summary, actionCue), route: 'fallback', park: targetPark };
     }
   };
 
-  const sendMessage = async (messageText?: string): Promise<void> => {
-    const textToSend = messageText || inputText.trim();
-    
-    if (!textToSend) {
-      console.log('❌ No text to send');
-      return;
-    }
-
-    if (isLoading) {
-      console.log('⏳ Already processing, please wait...');
-      return;
-    }
-
-    console.log('✅ Proceeding with send:', textToSend);
+  const updateMessage = (id: string, update: (message: Message) => Partial<Message>) => {
+    setMessages(prev => prev.map(message => (message.id === id ? { ...message, ...update(message) } : message)));
+  };
 
+  // Adds the question and an empty answer bubble up front, then fills the bubble as the answer streams in
+  const replyTo = async (text: string, speaker?: SentenceSpeaker): Promise<void> => {
     const userMessage: Message = {
       id: `user_${Date.now()}_${Math.random()}`,
-      text: textToSend,
+      text,
       isUser: true,
       timestamp: new Date()
     };
+    const replyId = `ai_${Date.now()}_${Math.random()}`;
+    const controller = new AbortController();
+    replyAbortRef.current = controller;
+    let streamed = '';
+    const startedAt = Date.now();
 
-    setMessages(prev => [...prev, userMessage]);
-    setInputText('');
+    setMessages(prev => [...prev, userMessage, { id: replyId, text: '', isUser: false, timestamp: new Date(), isStreaming: true }]);
     setIsLoading(true);
 
     try {
-      const response = await processUserInput(userMessage.text);
-      
-      const aiMessage: Message = {
-        id: `ai_${Date.now()}_${Math.random()}`,
-        text: response,
-        isUser: false,
-        timestamp: new Date(),
-        showFeedback: true
+      const reply = await processUserInput(text, {
+        signal: controller.signal,
+        onText: chunk => {
+          streamed += chunk;
+          speaker?.push(chunk);
+          updateMessage(replyId, message => ({ text: message.text + chunk }));
+        },
+        // The model went to look something up; what it wrote before that isn't the answer
+        onToolCalls: () => {
+          streamed = '';
+          speaker?.reset();
+          updateMessage(replyId, () => ({ text: '' }));
+        }
+      });
+      log.info('Answer route', { route: reply.route, park: reply.park, latencyMs: Date.now() - startedAt });
+      setConversationState(prev => recordTurn(prev, text, reply.text));
+
+      // Streamed text was grounded on the way in; answers that didn't stream (or fell back after a failed stream) arrive whole
+      if (speaker && reply.text !== streamed) {
+        await speaker.cancel();
+        const { shouldSpeak, spokenText } = voiceService.shouldSpeakResponse(reply.text);
+        if (shouldSpeak) voiceService.speakText(spokenText);
+      } else {
+        speaker?.finish();
+      }
+      const context: AnswerContext = {
+        question: text,
+        route: reply.route,
+        park: reply.park,
+        dataAgeMinutes: isParkId(reply.park) ? getDataAgeMinutes(parkDataFreshness[reply.park]) : null
       };
-
-      setMessages(prev => [...prev, aiMessage]);
+      updateMessage(replyId, () => ({ text: reply.text, payload: reply.payload, context, timestamp: new Date(), isStreaming: false, showFeedback: true }));
     } catch (error) {
-      console.log('❌ Error processing message:', error);
-      
-      const errorMessage: Message = {
-        id: `error_${Date.now()}_${Math.random()}`,
+      speaker?.cancel();
+
+      if (isAbortError(error)) {
+        log.info('Answer cancelled');
+        updateMessage(replyId, message => ({
+          text: message.text ? `${message.text}\n\n✋ Stopped` : '✋ Stopped',
+          isStreaming: false
+        }));
+        return;
+      }
+
+      log.error('Error processing message', { error });
+      updateMessage(replyId, () => ({
         text: "Oops! Something magical went wrong. ✨ Try asking about wait times or shows!",
-        isUser: false,
+        context: { question: text, route: 'fallback', park: currentPark, dataAgeMinutes: null },
         timestamp: new Date(),
+        isStreaming: false,
         showFeedback: true
-      };
-      
-      setMessages(prev => [...prev, errorMessage]);
+      }));
     } finally {
+      replyAbortRef.current = null;
       setIsLoading(false);
     }
   };
 
+  const cancelReply = () => {
+    replyAbortRef.current?.abort();
+  };
+
+  const sendMessage = async (messageText?: string): Promise<void> => {
+    const textToSend = messageText || inputText.trim();
+    
+    if (!textToSend) {
+      log.debug('No text to send');
+      return;
+    }
+
+    if (isLoading) {
+      log.debug('Already processing, ignoring send');
+      return;
+    }
+
+    setInputText('');
+    await replyTo(textToSend);
+  };
+
+  const isStreaming = messages.some(message => message.isStreaming);
+
   useEffect(() => {
     if (scrollViewRef.current) {
       setTimeout(() => {
@@ -928,7 +875,13 @@ Answer with clear sections and visual breaks! ✨`;
         behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
       >
         {/* ENHANCED MAGICAL HEADER */}
-        <TouchableOpacity style={styles.magicalHeaderContainer} onPress={toggleParkSelector} activeOpacity={0.8}>
+        {/* Long press opens the developer diagnostics */}
+        <TouchableOpacity
+          style={styles.magicalHeaderContainer}
+          onPress={toggleParkSelector}
+          onLongPress={() => router.push('/diagnostics')}
+          activeOpacity={0.8}
+        >
           <LinearGradient
             colors={['#4facfe', '#ff0080']}
             start={{ x: 0, y: 0 }}
@@ -950,6 +903,9 @@ Answer with clear sections and visual breaks! ✨`;
               <View style={styles.headerRight}>
                 <Text style={styles.magicStar}>⭐</Text>
                 <Text style={styles.liveText}>Live Magic</Text>
+                <Text style={styles.liveUpdatedText}>
+                  {lastRefreshed ? `Updated ${formatRefreshAge(lastRefreshed)}` : 'Connecting...'}
+                </Text>
               </View>
             </View>
           </LinearGradient>
@@ -969,7 +925,7 @@ Answer with clear sections and visual breaks! ✨`;
                   style={styles.parkButton}
                   onPress={() => {
                     setCurrentPark(park.id);
-                    console.log(`🏰 Switched to ${park.name}`);
+                    log.debug('Switched park', { park: park.id });
                     if (keyboardVisible) {
                       setParkSelectorVisible(false);
                     }
@@ -997,6 +953,12 @@ Answer with clear sections and visual breaks! ✨`;
                   )}
                 </TouchableOpacity>
               ))}
+              <TouchableOpacity style={styles.parkButton} onPress={startNewDay} disabled={isLoading}>
+                <View style={styles.inactiveParkButton}>
+                  <Text style={styles.parkEmoji}>🌅</Text>
+                  <Text style={styles.parkName}>New Day</Text>
+                </View>
+              </TouchableOpacity>
             </ScrollView>
           </View>
         )}
@@ -1048,11 +1010,22 @@ Answer with clear sections and visual breaks! ✨`;
                         {formatTimeDisplay(message.timestamp)} 🕐
                       </Text>
                     </LinearGradient>
+                  ) : message.isStreaming && !message.text ? (
+                    <View style={styles.loadingContainer}>
+                      <View style={styles.loadingDots}>
+                        <View style={[styles.loadingDot, styles.loadingDot1]} />
+                        <View style={[styles.loadingDot, styles.loadingDot2]} />
+                        <View style={[styles.loadingDot, styles.loadingDot3]} />
+                      </View>
+                      <Text style={styles.loadingText}>Sprinkling pixie dust...</Text>
+                    </View>
                   ) : (
                     <View>
-                      <Text style={styles.aiMessageText}>
-                        {formatBoldText(message.text)}
-                      </Text>
+                      {message.payload ? (
+                        <MessageCard payload={message.payload} onAsk={sendMessage} disabled={isLoading} />
+                      ) : (
+                        <Markdown text={message.text} style={styles.aiMessageText} />
+                      )}
                       <Text style={styles.messageTime}>
                         {formatTimeDisplay(message.timestamp)} 🕐
                       </Text>
@@ -1060,15 +1033,13 @@ Answer with clear sections and visual breaks! ✨`;
                   )}
                 </View>
 
-                {!message.isUser && message.showFeedback && (
-                  <FeedbackComponent message={message} />
-                )}
+                {!message.isUser && message.showFeedback && renderFeedback(message)}
               </View>
             </View>
           ))}
           
-          {/* FIXED: SMALL DISCRETE LOADING DOTS */}
-          {isLoading && (
+          {/* FIXED: SMALL DISCRETE LOADING DOTS - while voice is transcribed, before the answer bubble exists */}
+          {isLoading && !isStreaming && (
             <View style={[styles.messageContainer, styles.aiMessage]}>
               <View style={styles.aiMessageHeader}>
                 <View style={styles.aiAvatar}>
@@ -1111,22 +1082,40 @@ Answer with clear sections and visual breaks! ✨`;
               accessibilityLabel="Type your Disney question"
               accessibilityHint="Ask about wait times, shows, or character meets"
             />
-            <TouchableOpacity
-              style={styles.sendButton}
-              onPress={() => sendMessage()}
-              disabled={!inputText.trim() || isLoading}
-              accessibilityLabel="Send message"
-              accessibilityHint="Send your question to Pixie Pal"
-            >
-              <LinearGradient
-                colors={!inputText.trim() || isLoading ? ['#ccc', '#ccc'] : ['#4facfe', '#ff0080']}
-                start={{ x: 0, y: 0 }}
-                end={{ x: 1, y: 1 }}
-                style={styles.sendButtonGradient}
+            {isStreaming ? (
+              <TouchableOpacity
+                style={styles.sendButton}
+                onPress={cancelReply}
+                accessibilityLabel="Stop answer"
+                accessibilityHint="Stop Pixie Pal's answer"
+              >
+                <LinearGradient
+                  colors={['#ff0080', '#E74C3C']}
+                  start={{ x: 0, y: 0 }}
+                  end={{ x: 1, y: 1 }}
+                  style={styles.sendButtonGradient}
+                >
+                  <Text style={styles.sendButtonText}>⏹</Text>
+                </LinearGradient>
+              </TouchableOpacity>
+            ) : (
+              <TouchableOpacity
+                style={styles.sendButton}
+                onPress={() => sendMessage()}
+                disabled={!inputText.trim() || isLoading}
+                accessibilityLabel="Send message"
+                accessibilityHint="Send your question to Pixie Pal"
               >
-                <Text style={styles.sendButtonText}>✨</Text>
-              </LinearGradient>
-            </TouchableOpacity>
+                <LinearGradient
+                  colors={!inputText.trim() || isLoading ? ['#ccc', '#ccc'] : ['#4facfe', '#ff0080']}
+                  start={{ x: 0, y: 0 }}
+                  end={{ x: 1, y: 1 }}
+                  style={styles.sendButtonGradient}
+                >
+                  <Text style={styles.sendButtonText}>✨</Text>
+                </LinearGradient>
+              </TouchableOpacity>
+            )}
           </View>
         </View>
       </KeyboardAvoidingView>
@@ -1207,6 +1196,11 @@ const styles = StyleSheet.create({
     fontSize: 10,
     fontWeight: '600',
   },
+  liveUpdatedText: {
+    color: '#E1C4F7',
+    fontSize: 9,
+    opacity: 0.85,
+  },
 
   // ENHANCED PARK SELECTOR
   parkSelectorContainer: {
@@ -1368,10 +1362,6 @@ const styles = StyleSheet.create({
     lineHeight: 22,
     fontWeight: '500',
   },
-  boldText: {
-    fontWeight: 'bold',
-    color: '#2C3E50',
-  },
   messageTime: {
     fontSize: 11,
     marginTop: 8,
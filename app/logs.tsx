@@ -0,0 +1,159 @@
+import { useEffect, useMemo, useState } from 'react';
+import { ScrollView, StyleSheet, TouchableOpacity } from 'react-native';
+
+import { Text, View } from '@/components/Themed';
+import { LOG_LEVELS, LogEntry, LogLevel, isAtLeast, logger } from '../services/Logger';
+
+// Log viewer - the logger's ring buffer, newest first; open it from the diagnostics screen
+const LEVEL_COLORS: Record<LogLevel, string> = {
+  debug: '#8e8e93',
+  info: '#4facfe',
+  warn: '#ff9500',
+  error: '#ff3b30'
+};
+
+const formatTime = (at: string): string =>
+  new Date(at).toLocaleTimeString('en-US', { hour12: false });
+
+function Chip({ label, selected, onPress }: { label: string; selected: boolean; onPress: () => void }) {
+  return (
+    <TouchableOpacity style={[styles.chip, selected && styles.chipSelected]} onPress={onPress}>
+      <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{label}</Text>
+    </TouchableOpacity>
+  );
+}
+
+function LogRow({ entry }: { entry: LogEntry }) {
+  return (
+    <View style={styles.entry}>
+      <Text style={styles.entryTitle}>
+        <Text style={{ color: LEVEL_COLORS[entry.level] }}>{entry.level.toUpperCase()}</Text> [{entry.tag}] {entry.message}
+      </Text>
+      {entry.fields && <Text style={styles.fields}>{JSON.stringify(entry.fields)}</Text>}
+      <Text style={styles.details}>{formatTime(entry.at)}</Text>
+    </View>
+  );
+}
+
+export default function LogsScreen() {
+  const [entries, setEntries] = useState<LogEntry[]>(() => logger.getEntries());
+  const [minLevel, setMinLevel] = useState<LogLevel>('debug');
+  const [tag, setTag] = useState<string | undefined>();
+
+  // New entries show up while the screen is open
+  useEffect(() => logger.subscribe(() => setEntries(logger.getEntries())), []);
+
+  const tags = useMemo(() => [...new Set(entries.map(entry => entry.tag))].sort(), [entries]);
+  const visible = useMemo(() => entries
+    .filter(entry => isAtLeast(entry.level, minLevel) && (!tag || entry.tag === tag))
+    .reverse(), [entries, minLevel, tag]);
+
+  const clear = () => {
+    logger.clear();
+    setEntries([]);
+  };
+
+  return (
+    <ScrollView contentContainerStyle={styles.container}>
+      <View style={styles.filters}>
+        {LOG_LEVELS.map(level => (
+          <Chip key={level} label={`${level}+`} selected={minLevel === level} onPress={() => setMinLevel(level)} />
+        ))}
+      </View>
+      <View style={styles.filters}>
+        {tags.map(option => (
+          <Chip key={option} label={option} selected={tag === option} onPress={() => setTag(tag === option ? undefined : option)} />
+        ))}
+      </View>
+
+      <View style={styles.toolbar}>
+        <Text style={styles.count}>{visible.length} of {entries.length}</Text>
+        <TouchableOpacity style={styles.button} onPress={clear} disabled={entries.length === 0}>
+          <Text style={styles.buttonText}>Clear</Text>
+        </TouchableOpacity>
+      </View>
+
+      {visible.length === 0 ? (
+        <Text style={styles.empty}>{entries.length === 0 ? 'Nothing logged yet.' : 'Nothing matches these filters.'}</Text>
+      ) : (
+        visible.map(entry => <LogRow key={entry.id} entry={entry} />)
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexGrow: 1,
+    padding: 20,
+  },
+  filters: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 4,
+  },
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 12,
+    backgroundColor: 'rgba(79, 172, 254, 0.12)',
+    marginRight: 6,
+    marginBottom: 6,
+  },
+  chipSelected: {
+    backgroundColor: '#4facfe',
+  },
+  chipText: {
+    fontSize: 13,
+  },
+  chipTextSelected: {
+    color: '#fff',
+    fontWeight: 'bold',
+  },
+  toolbar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginVertical: 12,
+  },
+  count: {
+    flex: 1,
+    fontSize: 14,
+    opacity: 0.7,
+  },
+  button: {
+    backgroundColor: '#ff0080',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    marginLeft: 8,
+  },
+  buttonText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  empty: {
+    fontSize: 15,
+    opacity: 0.7,
+    marginTop: 24,
+    textAlign: 'center',
+  },
+  entry: {
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(79, 172, 254, 0.2)',
+  },
+  entryTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  fields: {
+    fontSize: 12,
+    fontFamily: 'SpaceMono',
+    marginTop: 4,
+  },
+  details: {
+    fontSize: 12,
+    opacity: 0.6,
+    marginTop: 4,
+  },
+});
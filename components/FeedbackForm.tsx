@@ -0,0 +1,134 @@
+import React, { useState } from 'react';
+import { StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { FEEDBACK_REASONS, FeedbackReason } from '../services/FeedbackService';
+
+interface FeedbackFormProps {
+  onSubmit: (reason: FeedbackReason, comment: string) => void;
+  onCancel: () => void;
+}
+
+const MAX_COMMENT_LENGTH = 500;
+
+// What went wrong with an answer: a reason to pick and an optional comment
+export default function FeedbackForm({ onSubmit, onCancel }: FeedbackFormProps) {
+  const [reason, setReason] = useState<FeedbackReason | null>(null);
+  const [comment, setComment] = useState('');
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>What went wrong?</Text>
+      <View style={styles.reasons}>
+        {FEEDBACK_REASONS.map(option => (
+          <TouchableOpacity
+            key={option.id}
+            style={[styles.reason, reason === option.id && styles.reasonSelected]}
+            onPress={() => setReason(option.id)}
+            accessibilityState={{ selected: reason === option.id }}
+          >
+            <Text style={[styles.reasonText, reason === option.id && styles.reasonTextSelected]}>{option.label}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+      <TextInput
+        style={styles.comment}
+        value={comment}
+        onChangeText={setComment}
+        placeholder="Tell us more (optional)"
+        placeholderTextColor="#999"
+        maxLength={MAX_COMMENT_LENGTH}
+        multiline
+      />
+      <View style={styles.actions}>
+        <TouchableOpacity style={styles.cancel} onPress={onCancel}>
+          <Text style={styles.cancelText}>Cancel</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.submit, !reason && styles.submitDisabled]}
+          onPress={() => reason && onSubmit(reason, comment.trim())}
+          disabled={!reason}
+        >
+          <Text style={styles.submitText}>Send</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 8,
+    marginLeft: 8,
+    padding: 12,
+    borderRadius: 16,
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: 'rgba(79, 172, 254, 0.3)',
+  },
+  title: {
+    fontSize: 13,
+    fontWeight: 'bold',
+    color: '#2C3E50',
+    marginBottom: 8,
+  },
+  reasons: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  reason: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 12,
+    backgroundColor: 'rgba(79, 172, 254, 0.12)',
+    marginRight: 6,
+    marginBottom: 6,
+  },
+  reasonSelected: {
+    backgroundColor: '#4facfe',
+  },
+  reasonText: {
+    fontSize: 12,
+    color: '#2C3E50',
+  },
+  reasonTextSelected: {
+    color: '#fff',
+    fontWeight: 'bold',
+  },
+  comment: {
+    minHeight: 60,
+    marginTop: 4,
+    padding: 8,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#E8E8E8',
+    fontSize: 13,
+    color: '#333',
+    textAlignVertical: 'top',
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 8,
+  },
+  cancel: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  cancelText: {
+    fontSize: 13,
+    color: '#7F8C8D',
+  },
+  submit: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 12,
+    backgroundColor: '#ff0080',
+  },
+  submitDisabled: {
+    opacity: 0.4,
+  },
+  submitText: {
+    fontSize: 13,
+    fontWeight: 'bold',
+    color: '#fff',
+  },
+});
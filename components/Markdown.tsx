@@ -0,0 +1,122 @@
+import React from 'react';
+import { Platform, StyleProp, StyleSheet, Text, TextStyle, View } from 'react-native';
+import { ExternalLink } from './ExternalLink';
+import { MarkdownBlock, MarkdownInline, parseMarkdown } from '../services/MarkdownParser';
+
+interface MarkdownProps {
+  text: string;
+  style?: StyleProp<TextStyle>; // base text style; headings, bold and links build on it
+}
+
+const HEADING_SIZES = [20, 18, 16, 15, 15, 15];
+
+function Inline({ nodes }: { nodes: MarkdownInline[] }) {
+  return (
+    <>
+      {nodes.map((node, index) => {
+        switch (node.type) {
+          case 'text':
+            return node.text;
+          case 'bold':
+            return <Text key={index} style={styles.bold}><Inline nodes={node.children} /></Text>;
+          case 'italic':
+            return <Text key={index} style={styles.italic}><Inline nodes={node.children} /></Text>;
+          case 'code':
+            return <Text key={index} style={styles.code}>{node.text}</Text>;
+          case 'link':
+            return (
+              <ExternalLink key={index} href={node.href} style={styles.link}>
+                <Inline nodes={node.children} />
+              </ExternalLink>
+            );
+        }
+      })}
+    </>
+  );
+}
+
+function Block({ block, style }: { block: MarkdownBlock; style?: StyleProp<TextStyle> }) {
+  switch (block.type) {
+    case 'heading':
+      return (
+        <Text style={[style, styles.heading, { fontSize: HEADING_SIZES[block.level - 1] }]} accessibilityRole="header">
+          <Inline nodes={block.children} />
+        </Text>
+      );
+    case 'paragraph':
+      return <Text style={style}><Inline nodes={block.children} /></Text>;
+    case 'rule':
+      return <View style={styles.rule} />;
+    case 'list': {
+      // Nested items don't advance the numbering of the list they sit in
+      let number = block.start - 1;
+      return (
+        <View>
+          {block.items.map((item, index) => {
+            if (item.depth === 0) number++;
+            const marker = item.depth > 0 ? '◦' : block.ordered ? `${number}.` : '•';
+            return (
+              <View key={index} style={[styles.listItem, { paddingLeft: item.depth * 16 }]}>
+                <Text style={[style, styles.listMarker]}>{marker}</Text>
+                <Text style={[style, styles.listText]}><Inline nodes={item.children} /></Text>
+              </View>
+            );
+          })}
+        </View>
+      );
+    }
+  }
+}
+
+export default function Markdown({ text, style }: MarkdownProps) {
+  const blocks = parseMarkdown(text);
+  return (
+    <View>
+      {blocks.map((block, index) => (
+        <View key={index} style={index > 0 ? styles.blockSpacing : undefined}>
+          <Block block={block} style={style} />
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  bold: {
+    fontWeight: 'bold',
+    color: '#2C3E50',
+  },
+  italic: {
+    fontStyle: 'italic',
+  },
+  code: {
+    fontFamily: Platform.select({ ios: 'Menlo', android: 'monospace', default: 'monospace' }),
+    backgroundColor: 'rgba(79, 172, 254, 0.12)',
+    color: '#2C3E50',
+  },
+  link: {
+    color: '#4facfe',
+    textDecorationLine: 'underline',
+  },
+  heading: {
+    fontWeight: 'bold',
+    color: '#2C3E50',
+  },
+  blockSpacing: {
+    marginTop: 10,
+  },
+  rule: {
+    height: 1,
+    backgroundColor: 'rgba(79, 172, 254, 0.3)',
+  },
+  listItem: {
+    flexDirection: 'row',
+    marginTop: 2,
+  },
+  listMarker: {
+    minWidth: 22,
+  },
+  listText: {
+    flex: 1,
+  },
+});
@@ -0,0 +1,236 @@
+import React from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { PARK_NAMES, getWaitTimeBadgeColor } from '../services/ChatFormatting';
+import {
+  CardSection,
+  CharacterMeetRow,
+  MessagePayload,
+  ParkHoursRow,
+  RideWaitRow,
+  ShowRow,
+  characterQuestion,
+  rideAlertQuestion,
+  rideTrendQuestion
+} from '../services/MessagePayloads';
+
+interface MessageCardProps {
+  payload: MessagePayload;
+  onAsk: (question: string) => void; // tapping a row asks the follow-up question for it
+  disabled?: boolean;
+}
+
+const CLOSED_COLOR = '#95A5A6';
+
+function WaitBadge({ ride }: { ride: RideWaitRow }) {
+  const color = ride.isOpen ? getWaitTimeBadgeColor(ride.waitTime) : CLOSED_COLOR;
+  return (
+    <View style={[styles.waitBadge, { backgroundColor: color }]}>
+      <Text style={styles.waitBadgeText}>{ride.isOpen ? `${ride.waitTime} min` : 'Closed'}</Text>
+    </View>
+  );
+}
+
+function RideRow({ ride, onAsk, disabled }: { ride: RideWaitRow } & Omit<MessageCardProps, 'payload'>) {
+  return (
+    <TouchableOpacity
+      style={styles.row}
+      onPress={() => onAsk(rideTrendQuestion(ride))}
+      disabled={disabled}
+      accessibilityLabel={`${ride.name}, ${ride.isOpen ? `${ride.waitTime} minute wait` : 'closed'}`}
+      accessibilityHint="Shows whether the line is going down"
+    >
+      <View style={styles.rowMain}>
+        <Text style={styles.rowTitle}>{ride.name}</Text>
+        <Text style={styles.rowDetail}>
+          {ride.land ? `📍 ${ride.land} • ` : '📍 '}{PARK_NAMES[ride.park]}{ride.hasLightningLane ? '  ⚡ Lightning Lane' : ''}
+        </Text>
+      </View>
+      <WaitBadge ride={ride} />
+      <TouchableOpacity
+        style={styles.alertButton}
+        onPress={() => onAsk(rideAlertQuestion(ride))}
+        disabled={disabled}
+        accessibilityLabel={ride.isOpen ? `Alert me when ${ride.name} drops` : `Alert me when ${ride.name} reopens`}
+      >
+        <Text style={styles.alertButtonText}>🔔</Text>
+      </TouchableOpacity>
+    </TouchableOpacity>
+  );
+}
+
+function ShowScheduleRow({ show }: { show: ShowRow }) {
+  const times = show.times.length > 0 ? show.times.join(', ') : 'Check the Times Guide';
+  return (
+    <View style={styles.row}>
+      <View style={styles.rowMain}>
+        <Text style={styles.rowTitle}>{show.name}</Text>
+        <Text style={styles.rowDetail}>🕐 {times}</Text>
+        {show.nextTime !== undefined && (
+          <Text style={styles.rowHighlight}>
+            {show.nextTime ? `⏭️ Next: ${show.nextTime} (${show.countdown})` : '🌙 Done for today'}
+          </Text>
+        )}
+        <Text style={styles.rowDetail}>📍 {show.location}</Text>
+      </View>
+    </View>
+  );
+}
+
+function CharacterRow({ meet, onAsk, disabled }: { meet: CharacterMeetRow } & Omit<MessageCardProps, 'payload'>) {
+  return (
+    <TouchableOpacity
+      style={styles.row}
+      onPress={() => onAsk(characterQuestion(meet))}
+      disabled={disabled}
+      accessibilityLabel={`Meet ${meet.characters.join(' and ')} at ${meet.location}`}
+    >
+      <View style={styles.rowMain}>
+        <Text style={styles.rowTitle}>{meet.characters.join(' & ')}</Text>
+        <Text style={styles.rowDetail}>📍 {meet.location} ({PARK_NAMES[meet.park]})</Text>
+        <Text style={styles.rowDetail}>🕐 {meet.times.length > 0 ? meet.times.join(', ') : 'Check the Times Guide'}</Text>
+      </View>
+    </TouchableOpacity>
+  );
+}
+
+function HoursRow({ day }: { day: ParkHoursRow }) {
+  return (
+    <View style={styles.row}>
+      <Text style={[styles.rowTitle, styles.rowMain]}>📅 {day.label}</Text>
+      <Text style={[styles.hoursText, day.hours === 'Closed' && styles.closedText]}>{day.hours}</Text>
+    </View>
+  );
+}
+
+function Section({ section, onAsk, disabled }: { section: CardSection } & Omit<MessageCardProps, 'payload'>) {
+  if (section.kind === 'note') {
+    return <Text style={styles.note}>{section.text}</Text>;
+  }
+
+  return (
+    <View style={styles.section}>
+      {section.heading && <Text style={styles.sectionHeading}>{section.heading}</Text>}
+      {section.kind === 'ride_waits' && section.rides.map(ride => (
+        <RideRow key={`${ride.park}-${ride.name}`} ride={ride} onAsk={onAsk} disabled={disabled} />
+      ))}
+      {section.kind === 'show_schedule' && section.shows.map((show, index) => (
+        <ShowScheduleRow key={`${show.name}-${index}`} show={show} />
+      ))}
+      {section.kind === 'character_meets' && section.meets.map((meet, index) => (
+        <CharacterRow key={`${meet.location}-${index}`} meet={meet} onAsk={onAsk} disabled={disabled} />
+      ))}
+      {section.kind === 'park_hours' && section.days.map(day => (
+        <HoursRow key={day.label} day={day} />
+      ))}
+    </View>
+  );
+}
+
+export default function MessageCard({ payload, onAsk, disabled }: MessageCardProps) {
+  return (
+    <View>
+      <Text style={styles.title}>{payload.title}</Text>
+      {payload.notice && <Text style={styles.notice}>{payload.notice}</Text>}
+      {payload.sections.map((section, index) => (
+        <Section key={index} section={section} onAsk={onAsk} disabled={disabled} />
+      ))}
+      {payload.actionCue && <Text style={styles.actionCue}>{payload.actionCue} ✨</Text>}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  title: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#2C3E50',
+    marginBottom: 8,
+  },
+  notice: {
+    fontSize: 12,
+    color: '#E67E22',
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  section: {
+    marginBottom: 6,
+  },
+  sectionHeading: {
+    fontSize: 13,
+    fontWeight: 'bold',
+    color: '#4facfe',
+    marginTop: 4,
+    marginBottom: 4,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(79, 172, 254, 0.15)',
+  },
+  rowMain: {
+    flex: 1,
+    marginRight: 8,
+  },
+  rowTitle: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  rowDetail: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  rowHighlight: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#4facfe',
+    marginTop: 2,
+  },
+  waitBadge: {
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    minWidth: 58,
+    alignItems: 'center',
+  },
+  waitBadgeText: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: 'bold',
+  },
+  alertButton: {
+    marginLeft: 6,
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: 'rgba(79, 172, 254, 0.15)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  alertButtonText: {
+    fontSize: 14,
+  },
+  hoursText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#27AE60',
+  },
+  closedText: {
+    color: CLOSED_COLOR,
+  },
+  note: {
+    fontSize: 14,
+    color: '#333',
+    lineHeight: 20,
+    marginBottom: 6,
+  },
+  actionCue: {
+    fontSize: 13,
+    color: '#555',
+    fontStyle: 'italic',
+    marginTop: 6,
+  },
+});
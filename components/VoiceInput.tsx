@@ -8,6 +8,9 @@ import {
 } from 'react-native';
 import { Audio } from 'expo-av';
 import { LinearGradient } from 'expo-linear-gradient';
+import { logger } from '../services/Logger';
+
+const log = logger.withTag('voice');
 
 interface VoiceInputProps {
   onVoiceResult: (audioUri: string) => void;
@@ -27,7 +30,7 @@ export default function VoiceInput({ onVoiceResult, isLoading, disabled }: Voice
       const { status } = await Audio.requestPermissionsAsync();
       return status === 'granted';
     } catch (error) {
-      console.error('Failed to request audio permissions:', error);
+      log.error('Failed to request audio permissions', { error });
       return false;
     }
   };
@@ -75,7 +78,7 @@ export default function VoiceInput({ onVoiceResult, isLoading, disabled }: Voice
     try {
       const hasPermission = await requestPermissions();
       if (!hasPermission) {
-        console.error('Audio permission not granted');
+        log.warn('Audio permission not granted');
         return;
       }
 
@@ -94,9 +97,9 @@ export default function VoiceInput({ onVoiceResult, isLoading, disabled }: Voice
       setIsRecording(true);
       startRecordingAnimation();
       
-      console.log('🎤 Recording started...');
+      log.debug('Recording started');
     } catch (error) {
-      console.error('Failed to start recording:', error);
+      log.error('Failed to start recording', { error });
     }
   };
 
@@ -112,13 +115,13 @@ export default function VoiceInput({ onVoiceResult, isLoading, disabled }: Voice
       const uri = recording.getURI();
       
       if (uri) {
-        console.log('🎤 Recording finished:', uri);
+        log.debug('Recording finished', { uri });
         onVoiceResult(uri);
       }
       
       setRecording(null);
     } catch (error) {
-      console.error('Failed to stop recording:', error);
+      log.error('Failed to stop recording', { error });
     }
   };
 
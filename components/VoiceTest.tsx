@@ -1,8 +1,11 @@
 import React, { useState } from 'react';
 import { View, Text, StyleSheet, Alert } from 'react-native';
 import VoiceInput from './VoiceInput';
+import { logger } from '../services/Logger';
 import { VoiceService } from '../services/VoiceService';
 
+const log = logger.withTag('voice');
+
 export default function VoiceTest() {
   const [isLoading, setIsLoading] = useState(false);
   const [lastTranscription, setLastTranscription] = useState('');
@@ -11,7 +14,7 @@ export default function VoiceTest() {
   const handleVoiceResult = async (audioUri: string) => {
     try {
       setIsLoading(true);
-      console.log('🎤 Processing voice input...');
+      log.debug('Processing voice test input');
 
       // Test transcription
       const transcription = await voiceService.transcribeAudio(audioUri);
@@ -23,7 +26,7 @@ export default function VoiceTest() {
       
       Alert.alert('Voice Test Success!', `Transcription: "${transcription}"`);
     } catch (error) {
-      console.error('Voice test error:', error);
+      log.error('Voice test error', { error });
       Alert.alert('Voice Test Failed', (error as Error).message || 'Unknown error');
     } finally {
       setIsLoading(false);
@@ -0,0 +1,19 @@
+import * as React from 'react';
+import renderer, { act } from 'react-test-renderer';
+import { Text } from 'react-native';
+
+import Markdown from '../Markdown';
+import { ExternalLink } from '../ExternalLink';
+
+it('renders lists, emphasis and links from a model reply', async () => {
+  let tree;
+  await act(async () => {
+    tree = renderer.create(
+      <Markdown text={'## Tonight\n\n1. **Happily Ever After** at 9:00 PM\n2. *Festival of Fantasy*\n\nMore at [Disney World](https://disneyworld.disney.go.com/)'} />
+    );
+  });
+
+  const texts = tree.root.findAllByType(Text).map(node => node.props.children);
+  expect(texts).toEqual(expect.arrayContaining(['1.', '2.']));
+  expect(tree.root.findByType(ExternalLink).props.href).toBe('https://disneyworld.disney.go.com/');
+});
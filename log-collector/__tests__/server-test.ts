@@ -0,0 +1,70 @@
+/**
+ * @jest-environment node
+ */
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+const { createLogCollector } = require('../server');
+
+type Collector = ReturnType<typeof createLogCollector>;
+
+let collector: Collector;
+let baseUrl: string;
+let dir: string;
+
+const post = (body: string) =>
+  fetch(`${baseUrl}/logs`, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body });
+
+const entry = (id: number, level: string) => ({
+  id,
+  at: '2025-07-20T18:30:00.000Z',
+  level,
+  tag: 'proxy',
+  message: `Entry ${id}`,
+  fields: { latencyMs: id * 100 }
+});
+
+beforeEach(async () => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'log-collector-'));
+  collector = createLogCollector({ file: path.join(dir, 'logs.jsonl'), print: false });
+  baseUrl = `http://localhost:${await collector.listen(0)}`;
+});
+
+afterEach(async () => {
+  await collector.close();
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+it('appends posted entries to the log file, one per line', async () => {
+  const response = await post(JSON.stringify({ entries: [entry(1, 'info'), entry(2, 'error')] }));
+
+  expect(response.status).toBe(200);
+  await expect(response.json()).resolves.toEqual({ received: 2 });
+  const lines = fs.readFileSync(collector.file, 'utf8').trim().split('\n');
+  expect(lines.map(line => JSON.parse(line))).toEqual([entry(1, 'info'), entry(2, 'error')]);
+});
+
+it('lists recent entries at or above a level', async () => {
+  await post(JSON.stringify({ entries: [entry(1, 'debug'), entry(2, 'warn'), entry(3, 'error'), entry(4, 'info')] }));
+
+  const response = await fetch(`${baseUrl}/logs?level=warn`);
+  const { entries } = await response.json();
+  expect(entries.map((received: { id: number }) => received.id)).toEqual([2, 3]);
+
+  const latest = await (await fetch(`${baseUrl}/logs?limit=1`)).json();
+  expect(latest.entries.map((received: { id: number }) => received.id)).toEqual([4]);
+});
+
+it('rejects bodies that are not a list of log entries, writing none of them', async () => {
+  expect((await post('not json')).status).toBe(400);
+  expect((await post(JSON.stringify({ entries: 'nope' }))).status).toBe(400);
+  expect((await post(JSON.stringify({ entries: [entry(1, 'info'), null] }))).status).toBe(400);
+  expect((await post(JSON.stringify({ entries: [{ ...entry(2, 'info'), tag: 7 }] }))).status).toBe(400);
+  expect((await post(JSON.stringify({ entries: [entry(3, 'loud')] }))).status).toBe(400);
+  expect(collector.getEntries()).toEqual([]);
+  expect(fs.existsSync(collector.file)).toBe(false);
+
+  // Still up and taking entries
+  expect((await post(JSON.stringify({ entries: [entry(4, 'info')] }))).status).toBe(200);
+});
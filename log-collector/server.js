@@ -0,0 +1,122 @@
+// Pixie Pal Log Collector - receives the app's log entries over HTTP and appends them to a file
+// Point the app at it with EXPO_PUBLIC_LOG_COLLECTOR_URL=http://<this machine>:4030/logs
+//   POST /logs   { entries: [...] } -> appended to the log file, one JSON entry per line
+//   GET  /logs   the newest entries received since start (?limit=, ?level= for the lowest level)
+const fs = require('fs');
+const http = require('http');
+const path = require('path');
+
+const DEFAULT_PORT = 4030;
+const DEFAULT_FILE = path.join(__dirname, '..', 'logs', 'pixie-pal.jsonl');
+const MAX_BODY_BYTES = 1024 * 1024;
+const LEVELS = ['debug', 'info', 'warn', 'error'];
+
+// The shape services/Logger.ts sends; anything else is refused before a line is written
+const isLogEntry = entry =>
+  Boolean(entry) && typeof entry === 'object' && !Array.isArray(entry) &&
+  LEVELS.includes(entry.level) && typeof entry.tag === 'string' && typeof entry.message === 'string';
+
+function createLogCollector({
+  file = DEFAULT_FILE,
+  keep = 1000,
+  print = true,
+  log = console.log
+} = {}) {
+  const recent = [];
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+
+  const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type'
+  };
+
+  const send = (res, status, body) => {
+    res.writeHead(status, { ...corsHeaders, 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  };
+
+  const receive = entries => {
+    fs.appendFileSync(file, entries.map(entry => `${JSON.stringify(entry)}\n`).join(''));
+    recent.push(...entries);
+    recent.splice(0, Math.max(0, recent.length - keep));
+    if (print) {
+      entries.forEach(({ level, tag, message, fields }) =>
+        log(`${String(level).toUpperCase()} [${tag}] ${message}${fields ? ` ${JSON.stringify(fields)}` : ''}`)
+      );
+    }
+  };
+
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url, 'http://localhost');
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, corsHeaders);
+      return res.end();
+    }
+    if (url.pathname !== '/logs') {
+      return send(res, 404, { error: 'Not found' });
+    }
+
+    if (req.method === 'GET') {
+      const limit = Number(url.searchParams.get('limit')) || 100;
+      const minLevel = LEVELS.indexOf(url.searchParams.get('level') || 'debug');
+      const entries = recent.filter(entry => LEVELS.indexOf(entry.level) >= minLevel);
+      return send(res, 200, { entries: entries.slice(-limit) });
+    }
+
+    if (req.method !== 'POST') {
+      return send(res, 405, { error: 'Method not allowed' });
+    }
+
+    const chunks = [];
+    let size = 0;
+    req.on('data', chunk => {
+      size += chunk.length;
+      if (size <= MAX_BODY_BYTES) chunks.push(chunk);
+    });
+    req.on('end', () => {
+      if (size > MAX_BODY_BYTES) {
+        return send(res, 413, { error: 'Request is too large' });
+      }
+      let body;
+      try {
+        body = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+      } catch (error) {
+        return send(res, 400, { error: 'Body must be JSON' });
+      }
+      if (!body || !Array.isArray(body.entries)) {
+        return send(res, 400, { error: 'entries must be an array' });
+      }
+      if (!body.entries.every(isLogEntry)) {
+        return send(res, 400, { error: 'Each entry needs a level, tag and message' });
+      }
+      receive(body.entries);
+      send(res, 200, { received: body.entries.length });
+    });
+  });
+
+  return {
+    server,
+    file,
+    getEntries: () => [...recent],
+    listen(port = DEFAULT_PORT) {
+      return new Promise(resolve => {
+        server.listen(port, () => resolve(server.address().port));
+      });
+    },
+    close() {
+      return new Promise(resolve => server.close(() => resolve()));
+    }
+  };
+}
+
+module.exports = { createLogCollector };
+
+if (require.main === module) {
+  const port = Number(process.env.PORT) || DEFAULT_PORT;
+  const collector = createLogCollector({ file: process.env.LOG_COLLECTOR_FILE || DEFAULT_FILE });
+  collector.listen(port).then(actualPort => {
+    console.log(`🪵 Pixie Pal log collector on http://localhost:${actualPort}/logs, writing to ${collector.file}`);
+  });
+}
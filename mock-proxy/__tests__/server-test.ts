@@ -0,0 +1,106 @@
+/**
+ * @jest-environment node
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { ParkDataCache } from '../../services/ParkDataCache';
+import { HttpProxyDataSource } from '../../services/ParkDataSources';
+import { UnifiedPixiePalService } from '../../services/PixiePalDataService';
+
+const { createMockProxyServer } = require('../server');
+
+let mock: ReturnType<typeof createMockProxyServer>;
+let service: UnifiedPixiePalService;
+let baseUrl: string;
+
+beforeAll(async () => {
+  mock = createMockProxyServer({ log: () => {} });
+  const port = await mock.listen(0);
+  baseUrl = `http://localhost:${port}`;
+});
+
+afterAll(async () => {
+  await mock.close();
+});
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  mock.setScenario('normal');
+  service = new UnifiedPixiePalService(new HttpProxyDataSource(baseUrl), new ParkDataCache());
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+it('implements every route the app calls', async () => {
+  const source = new HttpProxyDataSource(baseUrl);
+  const endpoints = ['wait-times', 'park-hours', 'entertainment', 'parade-times', 'character-meets'] as const;
+
+  for (const endpoint of endpoints) {
+    await expect(source.fetch(endpoint, 'hollywoodStudios')).resolves.toHaveProperty('parkId', 'hollywood-studios');
+  }
+});
+
+it('marks the chosen ride as down', async () => {
+  mock.setScenario('ride-down', { ride: 'tron' });
+
+  const data = await service.getWaitTimes('magicKingdom');
+  const tron = data.attractions.find(a => a.name.startsWith('TRON'));
+
+  expect(data.origin).toBe('live');
+  expect(tron).toMatchObject({ isOpen: false, waitTime: 0 });
+});
+
+it('reports a closed park', async () => {
+  mock.setScenario('park-closed');
+
+  const hours = await service.getParkHours('epcot');
+
+  expect(hours.schedule[0].type).toBe('Closed');
+  expect(service.formatParkHours(hours.schedule)).toMatch(/closed today/);
+});
+
+it('switches scenarios at runtime over HTTP', async () => {
+  const response = await fetch(`${baseUrl}/__scenario/server-error`, { method: 'PUT' });
+
+  expect((await response.json()).scenario).toBe('server-error');
+  await expect(service.getWaitTimes('animalKingdom')).resolves.toMatchObject({ origin: 'fallback' });
+});
+
+it('treats built-in object keys as unknown scenarios and parks', async () => {
+  expect((await fetch(`${baseUrl}/__scenario/toString`, { method: 'PUT' })).status).toBe(404);
+  expect(() => mock.setScenario('constructor')).toThrow('Unknown scenario "constructor"');
+
+  const response = await fetch(`${baseUrl}/api/disney/wait-times/magic-kingdom?scenario=constructor`);
+  expect(response.status).toBe(200);
+  expect((await fetch(`${baseUrl}/api/disney/wait-times/constructor`)).status).toBe(404);
+  expect(mock.scenario).toBe('normal');
+});
+
+it('falls back on malformed JSON', async () => {
+  mock.setScenario('malformed-json');
+
+  const entertainment = await service.getEntertainment('magicKingdom');
+
+  expect(entertainment.origin).toBe('fallback');
+  expect(entertainment.events[0].name).toBe('Festival of Fantasy Parade');
+});
+
+it('delays responses in the slow scenario', async () => {
+  mock.setScenario('slow', { delay: '150' });
+
+  const started = Date.now();
+  const parades = await service.getParadeTimes('magicKingdom');
+
+  expect(parades.origin).toBe('live');
+  expect(Date.now() - started).toBeGreaterThanOrEqual(140);
+});
+
+it('falls back when the proxy is slower than the request timeout', async () => {
+  mock.setScenario('slow', { delay: '500' });
+  const impatient = new UnifiedPixiePalService(new HttpProxyDataSource(baseUrl, 100), new ParkDataCache());
+
+  await expect(impatient.getWaitTimes('epcot')).resolves.toMatchObject({ origin: 'fallback' });
+});
@@ -0,0 +1,171 @@
+// Mock Disney Data Proxy - local stand-in for disney-data-proxy.onrender.com
+// Serves fixtures/disney-proxy.json through scripted scenarios that can be switched at runtime:
+//   GET  /__scenario               -> current scenario + list of scenarios
+//   PUT  /__scenario/:name?ride=.. -> switch scenario (options come from the query string)
+//   any proxy route also accepts ?scenario=<name> to override a single request
+const http = require('http');
+const path = require('path');
+
+const DEFAULT_PORT = 4010;
+const ENDPOINTS = ['wait-times', 'park-hours', 'entertainment', 'parade-times', 'character-meets'];
+
+const clone = value => JSON.parse(JSON.stringify(value));
+
+// Each scenario decides how to answer a proxy request for (endpoint, park)
+const SCENARIOS = {
+  'normal': {
+    description: 'A normal park day: every route returns the recorded data',
+    respond: ({ payload }) => ({ status: 200, body: payload })
+  },
+  'ride-down': {
+    description: 'One ride is down (option: ride=<id>, default space-mountain)',
+    respond: ({ endpoint, payload, options }) => {
+      if (endpoint === 'wait-times') {
+        const rideId = options.ride || 'space-mountain';
+        payload.attractions = payload.attractions.map(attraction =>
+          attraction.id === rideId ? { ...attraction, isOpen: false, waitTime: 0 } : attraction
+        );
+      }
+      return { status: 200, body: payload };
+    }
+  },
+  'park-closed': {
+    description: 'The park is closed: no waits, no shows, hours marked Closed',
+    respond: ({ endpoint, payload }) => {
+      switch (endpoint) {
+        case 'wait-times':
+          payload.attractions = payload.attractions.map(attraction => ({ ...attraction, isOpen: false, waitTime: 0 }));
+          break;
+        case 'park-hours':
+          payload.schedule = payload.schedule.map((day, index) =>
+            index === 0 ? { ...day, openingTime: null, closingTime: null, type: 'Closed' } : day
+          );
+          break;
+        case 'entertainment':
+          payload.entertainment = [];
+          break;
+        case 'parade-times':
+          payload.parades = [];
+          break;
+        case 'character-meets':
+          payload.characterMeets = [];
+          break;
+      }
+      return { status: 200, body: payload };
+    }
+  },
+  'slow': {
+    description: 'Cold Render host: recorded data after a delay (option: delay=<ms>, default 8000)',
+    respond: ({ payload, options }) => ({ status: 200, body: payload, delay: Number(options.delay) || 8000 })
+  },
+  'server-error': {
+    description: 'Every route fails with HTTP 500',
+    respond: () => ({ status: 500, body: { error: 'Internal Server Error' } })
+  },
+  'malformed-json': {
+    description: 'Every route returns HTTP 200 with a truncated JSON body',
+    respond: () => ({ status: 200, raw: '{"attractions": [{"id": "space-mountain", "name": "Spa' })
+  }
+};
+
+// Own keys only - "constructor" or "toString" would otherwise pass for a scenario
+const isScenario = name => typeof name === 'string' && Object.hasOwn(SCENARIOS, name);
+
+function createMockProxyServer({
+  scenario = 'normal',
+  options = {},
+  fixtures = require(path.join(__dirname, '..', 'fixtures', 'disney-proxy.json')),
+  log = console.log
+} = {}) {
+  const state = { scenario, options };
+
+  const send = (res, status, body, raw) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(raw !== undefined ? raw : JSON.stringify(body));
+  };
+
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url, 'http://localhost');
+    const query = Object.fromEntries(url.searchParams);
+    const parts = url.pathname.split('/').filter(Boolean);
+
+    // Scenario control routes
+    if (parts[0] === '__scenario') {
+      if (req.method === 'PUT' || req.method === 'POST') {
+        const name = parts[1];
+        if (!isScenario(name)) {
+          return send(res, 404, { error: `Unknown scenario "${name}"`, scenarios: Object.keys(SCENARIOS) });
+        }
+        state.scenario = name;
+        state.options = query;
+        log(`🎬 Mock proxy scenario -> ${name}`);
+      }
+      return send(res, 200, {
+        scenario: state.scenario,
+        options: state.options,
+        scenarios: Object.fromEntries(Object.entries(SCENARIOS).map(([name, s]) => [name, s.description]))
+      });
+    }
+
+    // Proxy routes: /api/disney/:endpoint/:park
+    const [api, disney, endpoint, park] = parts;
+    if (api !== 'api' || disney !== 'disney' || !ENDPOINTS.includes(endpoint) || !park) {
+      return send(res, 404, { error: 'Not found' });
+    }
+
+    const recorded = Object.hasOwn(fixtures[endpoint] || {}, park) && fixtures[endpoint][park];
+    if (!recorded) {
+      return send(res, 404, { error: `Unknown park "${park}"` });
+    }
+
+    const scenarioName = isScenario(query.scenario) ? query.scenario : state.scenario;
+    const result = SCENARIOS[scenarioName].respond({
+      endpoint,
+      park,
+      payload: clone(recorded),
+      options: scenarioName === state.scenario ? { ...state.options, ...query } : query
+    });
+
+    log(`📡 ${req.method} ${url.pathname} [${scenarioName}] -> ${result.status}`);
+
+    if (result.delay) {
+      const timer = setTimeout(() => send(res, result.status, result.body, result.raw), result.delay);
+      res.on('close', () => clearTimeout(timer));
+      return;
+    }
+    send(res, result.status, result.body, result.raw);
+  });
+
+  return {
+    server,
+    get scenario() {
+      return state.scenario;
+    },
+    setScenario(name, scenarioOptions = {}) {
+      if (!isScenario(name)) {
+        throw new Error(`Unknown scenario "${name}"`);
+      }
+      state.scenario = name;
+      state.options = scenarioOptions;
+    },
+    listen(port = DEFAULT_PORT) {
+      return new Promise(resolve => {
+        server.listen(port, () => resolve(server.address().port));
+      });
+    },
+    close() {
+      return new Promise(resolve => server.close(() => resolve()));
+    }
+  };
+}
+
+module.exports = { createMockProxyServer, SCENARIOS };
+
+if (require.main === module) {
+  const port = Number(process.env.PORT) || DEFAULT_PORT;
+  const mock = createMockProxyServer({ scenario: process.env.MOCK_PROXY_SCENARIO || 'normal' });
+  mock.listen(port).then(actualPort => {
+    console.log(`🏰 Mock Disney proxy on http://localhost:${actualPort} (scenario: ${mock.scenario})`);
+    console.log(`   Switch scenarios: curl -X PUT http://localhost:${actualPort}/__scenario/ride-down`);
+  });
+}
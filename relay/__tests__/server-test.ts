@@ -0,0 +1,221 @@
+/**
+ * @jest-environment node
+ */
+import { OpenAIChatModel } from '../../services/ChatModels';
+
+const { createRelayServer, createRateLimiter } = require('../server');
+const { createStubUpstream } = require('../stub-upstream');
+
+type Relay = ReturnType<typeof createRelayServer>;
+type Stub = ReturnType<typeof createStubUpstream>;
+
+let stub: Stub;
+let relay: Relay | null = null;
+let upstreamUrl: string;
+
+const startRelay = async (options: object = {}) => {
+  relay = createRelayServer({ upstreamUrl, apiKey: 'sk-server-only', log: () => {}, ...options });
+  return `http://localhost:${await relay!.listen(0)}`;
+};
+
+const chat = (baseUrl: string, deviceId: string | null, body: object = {}) =>
+  fetch(`${baseUrl}/v1/chat/completions`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(deviceId ? { 'X-Device-Id': deviceId } : {}) },
+    body: JSON.stringify({ model: 'gpt-4o-mini', messages: [{ role: 'user', content: 'hi' }], ...body })
+  });
+
+beforeAll(async () => {
+  stub = createStubUpstream({ log: () => {} });
+  upstreamUrl = `http://localhost:${await stub.listen(0)}`;
+});
+
+afterAll(async () => {
+  await stub.close();
+});
+
+beforeEach(() => {
+  stub.requests.length = 0;
+  stub.set({ status: 200 });
+});
+
+afterEach(async () => {
+  await relay?.close();
+  relay = null;
+});
+
+it('answers the app with the key added server-side and the token cap applied', async () => {
+  const baseUrl = await startRelay({ maxTokens: 300 });
+  const model = new OpenAIChatModel({ baseUrl: `${baseUrl}/v1`, maxTokens: 2000, headers: () => ({ 'X-Device-Id': 'device-a' }) });
+
+  await expect(model.complete({ messages: [{ role: 'user', content: 'hello' }] }))
+    .resolves.toEqual({ content: 'Hi from the stub model! ✨', toolCalls: [], usage: { promptTokens: 120, completionTokens: 30 } });
+
+  const [upstream] = stub.requests;
+  expect(upstream.path).toBe('/chat/completions');
+  expect(upstream.headers.authorization).toBe('Bearer sk-server-only');
+  expect(upstream.body.max_tokens).toBe(300);
+
+  // 120 prompt and 30 completion tokens at gpt-4o-mini prices
+  expect(relay!.getSpend().spentUsd).toBeCloseTo(0.000036, 6);
+});
+
+it('passes streams through and charges them from the usage event', async () => {
+  const baseUrl = await startRelay();
+
+  const response = await chat(baseUrl, 'device-a', { stream: true });
+  const events = await response.text();
+
+  expect(response.headers.get('content-type')).toBe('text/event-stream');
+  expect(events).toContain('"content":"Hi "');
+  expect(events.trim().endsWith('data: [DONE]')).toBe(true);
+  expect(stub.requests[0].body.stream_options).toEqual({ include_usage: true });
+  expect(relay!.getSpend().spentUsd).toBeCloseTo(0.000036, 6);
+});
+
+const transcribe = (baseUrl: string, models: string[]) => {
+  const form = new FormData();
+  form.append('file', new Blob([new Uint8Array([1, 2, 3])], { type: 'audio/m4a' }), 'model');
+  models.forEach(model => form.append('model', model));
+  return fetch(`${baseUrl}/v1/audio/transcriptions`, { method: 'POST', headers: { 'X-Device-Id': 'device-a' }, body: form });
+};
+
+it('relays transcriptions as multipart uploads', async () => {
+  const baseUrl = await startRelay();
+
+  const response = await transcribe(baseUrl, ['whisper-1']);
+
+  expect(await response.json()).toEqual({ text: 'how long is space mountain' });
+  expect(stub.requests[0].headers['content-type']).toMatch(/^multipart\/form-data; boundary=/);
+  expect(stub.requests[0].headers.authorization).toBe('Bearer sk-server-only');
+  expect(relay!.getSpend().spentUsd).toBeCloseTo(0.006, 6);
+});
+
+it('turns away requests without a device id', async () => {
+  const baseUrl = await startRelay();
+
+  const response = await chat(baseUrl, null);
+
+  expect(response.status).toBe(400);
+  expect(await response.json()).toEqual({ error: 'Missing X-Device-Id header' });
+  expect(stub.requests).toHaveLength(0);
+});
+
+it('rate limits each device on its own', async () => {
+  let time = Date.parse('2025-07-20T15:00:00Z');
+  const baseUrl = await startRelay({ rateLimit: { requests: 2, windowMs: 60 * 1000 }, now: () => time });
+
+  expect((await chat(baseUrl, 'device-a')).status).toBe(200);
+  expect((await chat(baseUrl, 'device-a')).status).toBe(200);
+
+  time += 15 * 1000;
+  const limited = await chat(baseUrl, 'device-a');
+  expect(limited.status).toBe(429);
+  expect(limited.headers.get('retry-after')).toBe('45');
+  expect((await chat(baseUrl, 'device-b')).status).toBe(200);
+
+  time += 45 * 1000;
+  expect((await chat(baseUrl, 'device-a')).status).toBe(200);
+});
+
+it('stops at the daily budget and starts over the next day', async () => {
+  let time = Date.parse('2025-07-20T23:30:00Z');
+  const baseUrl = await startRelay({ dailyBudgetUsd: 0.00005, now: () => time });
+
+  expect((await chat(baseUrl, 'device-a')).status).toBe(200);
+  expect((await chat(baseUrl, 'device-b')).status).toBe(200);
+
+  const refused = await chat(baseUrl, 'device-c');
+  expect(refused.status).toBe(429);
+  expect(await refused.json()).toEqual({ error: 'Daily budget reached - try again tomorrow' });
+  expect(stub.requests).toHaveLength(2);
+
+  time = Date.parse('2025-07-21T00:05:00Z');
+  expect((await chat(baseUrl, 'device-c')).status).toBe(200);
+  expect(relay!.getSpend()).toMatchObject({ day: '2025-07-21', budgetUsd: 0.00005 });
+});
+
+it('reports upstream failures without charging for them', async () => {
+  const baseUrl = await startRelay();
+  stub.set({ status: 503 });
+
+  const response = await chat(baseUrl, 'device-a');
+
+  expect(response.status).toBe(503);
+  expect(await response.json()).toEqual({ error: 'Upstream failed: 503' });
+  expect(relay!.getSpend().spentUsd).toBe(0);
+});
+
+it('sends only the fields the app uses, for allowed models only', async () => {
+  const baseUrl = await startRelay();
+
+  const refused = await chat(baseUrl, 'device-a', { model: 'gpt-4o' });
+  expect(refused.status).toBe(400);
+  expect(await refused.json()).toEqual({ error: 'Model not allowed: gpt-4o' });
+
+  expect((await chat(baseUrl, 'device-a', { model: undefined, n: 8, logit_bias: { 50256: 100 }, temperature: 0.2 })).status).toBe(200);
+  expect(stub.requests).toHaveLength(1);
+  expect(stub.requests[0].body).toEqual({
+    model: 'gpt-4o-mini',
+    messages: [{ role: 'user', content: 'hi' }],
+    temperature: 0.2,
+    max_tokens: 800
+  });
+});
+
+it('relays transcriptions for allowed models only, charging that model\'s price', async () => {
+  const baseUrl = await startRelay({ pricing: { models: { 'gpt-4o-mini': { inputPerMillionTokens: 0, outputPerMillionTokens: 0 } }, transcriptionModels: { 'whisper-1': 0.01 } } });
+
+  const refused = await transcribe(baseUrl, ['gpt-4o-transcribe']);
+  expect(refused.status).toBe(400);
+  expect(await refused.json()).toEqual({ error: 'Model not allowed: gpt-4o-transcribe' });
+  expect((await transcribe(baseUrl, [])).status).toBe(400);
+  expect((await transcribe(baseUrl, ['whisper-1', 'gpt-4o-transcribe'])).status).toBe(400);
+  expect(stub.requests).toHaveLength(0);
+
+  expect((await transcribe(baseUrl, ['whisper-1'])).status).toBe(200);
+  expect(relay!.getSpend().spentUsd).toBeCloseTo(0.01, 6);
+});
+
+it('rejects listen when the port is taken', async () => {
+  const baseUrl = await startRelay();
+  const second = createRelayServer({ upstreamUrl, log: () => {} });
+
+  await expect(second.listen(Number(new URL(baseUrl).port))).rejects.toMatchObject({ code: 'EADDRINUSE' });
+});
+
+it('rate limits each address, so fresh device ids do not get around the limit', async () => {
+  const baseUrl = await startRelay({ addressRateLimit: { requests: 2, windowMs: 60 * 1000 } });
+
+  expect((await chat(baseUrl, 'device-1')).status).toBe(200);
+  expect((await chat(baseUrl, 'device-2')).status).toBe(200);
+
+  const limited = await chat(baseUrl, 'device-3');
+  expect(limited.status).toBe(429);
+  expect(await limited.json()).toEqual({ error: 'Too many requests from this address' });
+});
+
+it('answers an oversized body with a 413 rather than a reset', async () => {
+  const baseUrl = await startRelay();
+
+  const response = await chat(baseUrl, 'device-a', { messages: [{ role: 'user', content: 'x'.repeat(1100 * 1024) }] });
+
+  expect(response.status).toBe(413);
+  expect(await response.json()).toEqual({ error: 'Request is too large' });
+  expect(stub.requests).toHaveLength(0);
+});
+
+it('forgets idle keys and holds at most maxKeys', () => {
+  let time = 0;
+  const limiter = createRateLimiter({ requests: 1, windowMs: 1000, maxKeys: 2 }, () => time);
+
+  limiter.take('a');
+  limiter.take('b');
+  limiter.take('c');
+  expect(limiter.size).toBe(2);
+  expect(limiter.take('b').allowed).toBe(false);
+
+  time += 1000;
+  limiter.take('d');
+  expect(limiter.size).toBe(1);
+});
@@ -0,0 +1,403 @@
+// Pixie Pal Relay - keeps the OpenAI key on a server instead of in the app bundle
+// Forwards the two calls the app makes and adds the key on the way out:
+//   POST /v1/chat/completions      -> <upstream>/chat/completions (streaming passes straight through)
+//   POST /v1/audio/transcriptions  -> <upstream>/audio/transcriptions
+//   GET  /health                   -> today's spend against the budget
+// Every call needs an X-Device-Id header; each device and each remote address gets a request rate limit,
+// and all devices share a daily budget. Chat requests are rebuilt from the fields the app sends, and both calls
+// are for allowlisted models only
+const http = require('http');
+
+const DEFAULT_PORT = 4020;
+const DEFAULT_UPSTREAM_URL = 'https://api.openai.com/v1';
+const MAX_JSON_BYTES = 1024 * 1024;
+const MAX_AUDIO_BYTES = 25 * 1024 * 1024; // Whisper's own upload limit
+
+// USD; token prices per allowed chat model (the first is used when a request names none),
+// and per-minute prices per allowed transcription model, counting every clip as a full minute
+const DEFAULT_PRICING = {
+  models: {
+    'gpt-4o-mini': { inputPerMillionTokens: 0.15, outputPerMillionTokens: 0.6 }
+  },
+  transcriptionModels: {
+    'whisper-1': 0.006
+  }
+};
+
+// The chat fields the app sends (see services/ChatModels.ts); anything else is dropped, and stream_options is the relay's own
+const CHAT_FIELDS = ['messages', 'tools', 'tool_choice', 'max_tokens', 'temperature', 'stream'];
+
+const toDayKey = time => new Date(time).toISOString().slice(0, 10);
+
+class RelayError extends Error {
+  constructor(status, message, headers = {}) {
+    super(message);
+    this.status = status;
+    this.headers = headers;
+  }
+}
+
+// Requests per key (a device id or a remote address) within a sliding window.
+// Keys with nothing left in the window are dropped, and past maxKeys the least recently seen go first
+function createRateLimiter({ requests, windowMs, maxKeys = 10000 }, now) {
+  const history = new Map();
+  let prunedAt = now();
+
+  const prune = time => {
+    prunedAt = time;
+    history.forEach((times, key) => {
+      if (times.length === 0 || time - times[times.length - 1] >= windowMs) history.delete(key);
+    });
+  };
+
+  return {
+    take(key) {
+      const time = now();
+      const recent = (history.get(key) || []).filter(at => time - at < windowMs);
+      // Re-inserting keeps the map in least recently seen order
+      history.delete(key);
+      if (recent.length >= requests) {
+        history.set(key, recent);
+        return { allowed: false, retryAfterMs: windowMs - (time - recent[0]) };
+      }
+      recent.push(time);
+      if (history.size >= maxKeys || time - prunedAt >= windowMs) {
+        prune(time);
+      }
+      while (history.size >= maxKeys) {
+        history.delete(history.keys().next().value);
+      }
+      history.set(key, recent);
+      return { allowed: true, retryAfterMs: 0 };
+    },
+    get size() {
+      return history.size;
+    }
+  };
+}
+
+// What the relay has spent upstream today; the day rolls over at midnight UTC
+function createBudget(dailyUsd, now) {
+  let day = toDayKey(now());
+  let spentUsd = 0;
+
+  const rollOver = () => {
+    const today = toDayKey(now());
+    if (today !== day) {
+      day = today;
+      spentUsd = 0;
+    }
+  };
+
+  return {
+    isExhausted() {
+      rollOver();
+      return spentUsd >= dailyUsd;
+    },
+    charge(usd) {
+      rollOver();
+      spentUsd += usd;
+    },
+    status() {
+      rollOver();
+      return { day, spentUsd: Number(spentUsd.toFixed(6)), budgetUsd: dailyUsd };
+    }
+  };
+}
+
+const chatCost = (usage, modelPricing) =>
+  ((usage.prompt_tokens || 0) * modelPricing.inputPerMillionTokens + (usage.completion_tokens || 0) * modelPricing.outputPerMillionTokens) / 1e6;
+
+// Past the limit the rest of the body is read and thrown away, so the 413 reaches the client instead of a reset
+const readBody = (req, limit) => new Promise((resolve, reject) => {
+  const chunks = [];
+  let size = 0;
+  req.on('data', chunk => {
+    size += chunk.length;
+    if (size <= limit) chunks.push(chunk);
+  });
+  req.on('end', () => {
+    if (size > limit) {
+      reject(new RelayError(413, 'Request is too large'));
+    } else {
+      resolve(Buffer.concat(chunks));
+    }
+  });
+  req.on('error', reject);
+});
+
+// Every value of one plain field in a multipart body (file parts are skipped); latin1 keeps the bytes as they are
+const readFormFields = (body, contentType, name) => {
+  const boundary = /boundary=(?:"([^"]+)"|([^;\s]+))/i.exec(contentType);
+  if (!boundary) return [];
+
+  return body.toString('latin1').split(`--${boundary[1] || boundary[2]}`).flatMap(part => {
+    const headerEnd = part.indexOf('\r\n\r\n');
+    const headers = headerEnd === -1 ? '' : part.slice(0, headerEnd);
+    const disposition = /content-disposition:[^\r\n]*/i.exec(headers);
+    if (!disposition || !new RegExp(`\\bname="${name}"`).test(disposition[0]) || /\bfilename=/i.test(disposition[0])) {
+      return [];
+    }
+    return [part.slice(headerEnd + 4).replace(/\r\n$/, '')];
+  });
+};
+
+// Pulls `usage` out of a streamed reply without holding the whole stream
+function createUsageScanner() {
+  let buffer = '';
+  let usage = null;
+
+  return {
+    push(text) {
+      buffer += text;
+      const lines = buffer.split('\n');
+      buffer = lines.pop();
+      lines
+        .filter(line => line.startsWith('data:') && line.includes('"usage"'))
+        .forEach(line => {
+          try {
+            usage = JSON.parse(line.slice(5).trim()).usage || usage;
+          } catch (error) {
+            // Not a complete JSON event - nothing to count
+          }
+        });
+    },
+    get usage() {
+      return usage;
+    }
+  };
+}
+
+function createRelayServer({
+  upstreamUrl = DEFAULT_UPSTREAM_URL,
+  apiKey = '',
+  rateLimit = { requests: 30, windowMs: 60 * 1000 },
+  // Generous, since guests on park wifi share an address; it stops one client cycling device ids
+  addressRateLimit = { requests: 120, windowMs: 60 * 1000 },
+  dailyBudgetUsd = 5,
+  pricing = DEFAULT_PRICING,
+  maxTokens = 800,
+  allowedOrigin = '*',
+  now = () => Date.now(),
+  log = console.log
+} = {}) {
+  const upstream = upstreamUrl.replace(/\/+$/, '');
+  const deviceLimiter = createRateLimiter(rateLimit, now);
+  const addressLimiter = createRateLimiter(addressRateLimit, now);
+  const allowedModels = Object.keys(pricing.models);
+  const allowedTranscriptionModels = Object.keys(pricing.transcriptionModels);
+  const budget = createBudget(dailyBudgetUsd, now);
+
+  const corsHeaders = {
+    'Access-Control-Allow-Origin': allowedOrigin,
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, X-Device-Id'
+  };
+
+  const send = (res, status, body, headers = {}) => {
+    res.writeHead(status, { ...corsHeaders, 'Content-Type': 'application/json', ...headers });
+    res.end(JSON.stringify(body));
+  };
+
+  const callUpstream = (path, headers, body) =>
+    fetch(`${upstream}${path}`, {
+      method: 'POST',
+      headers: { ...headers, ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}) },
+      body
+    }).catch(error => {
+      throw new RelayError(502, `Upstream unreachable: ${error.message}`);
+    });
+
+  const retryAfter = retryAfterMs => ({ 'Retry-After': String(Math.ceil(retryAfterMs / 1000)) });
+
+  // Device id, rate limits and budget, in that order; throws a RelayError to refuse
+  const admit = req => {
+    const deviceId = String(req.headers['x-device-id'] || '').trim();
+    if (!deviceId || deviceId.length > 128) {
+      throw new RelayError(400, 'Missing X-Device-Id header');
+    }
+
+    const byAddress = addressLimiter.take(req.socket.remoteAddress || 'unknown');
+    if (!byAddress.allowed) {
+      throw new RelayError(429, 'Too many requests from this address', retryAfter(byAddress.retryAfterMs));
+    }
+    const byDevice = deviceLimiter.take(deviceId);
+    if (!byDevice.allowed) {
+      throw new RelayError(429, 'Too many requests from this device', retryAfter(byDevice.retryAfterMs));
+    }
+    if (budget.isExhausted()) {
+      throw new RelayError(429, 'Daily budget reached - try again tomorrow');
+    }
+    return deviceId;
+  };
+
+  const relayChat = async (req, res, deviceId) => {
+    let body;
+    try {
+      body = JSON.parse((await readBody(req, MAX_JSON_BYTES)).toString('utf8'));
+    } catch (error) {
+      throw error instanceof RelayError ? error : new RelayError(400, 'Body must be JSON');
+    }
+    if (!body || !Array.isArray(body.messages)) {
+      throw new RelayError(400, 'messages must be an array');
+    }
+    const model = body.model === undefined ? allowedModels[0] : body.model;
+    if (!allowedModels.includes(model)) {
+      throw new RelayError(400, `Model not allowed: ${String(model)}`);
+    }
+
+    const request = { model };
+    CHAT_FIELDS.filter(field => body[field] !== undefined).forEach(field => {
+      request[field] = body[field];
+    });
+    // Cap spend per call, and ask for usage on streams so they can be charged too
+    request.max_tokens = Math.min(Number(request.max_tokens) || maxTokens, maxTokens);
+    if (request.stream) {
+      request.stream_options = { include_usage: true };
+    }
+
+    const response = await callUpstream('/chat/completions', { 'Content-Type': 'application/json' }, JSON.stringify(request));
+    if (!response.ok) {
+      log(`❌ Relay chat upstream failed: ${response.status}`);
+      throw new RelayError(response.status, `Upstream failed: ${response.status}`);
+    }
+
+    if (!request.stream) {
+      const data = await response.json();
+      const cost = chatCost(data.usage || { completion_tokens: request.max_tokens }, pricing.models[model]);
+      budget.charge(cost);
+      log(`💬 Relay chat for ${deviceId}: $${cost.toFixed(5)}`);
+      return send(res, 200, data);
+    }
+
+    res.writeHead(200, { ...corsHeaders, 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' });
+    const scanner = createUsageScanner();
+    const decoder = new TextDecoder();
+    const reader = response.body.getReader();
+    try {
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        scanner.push(decoder.decode(value, { stream: true }));
+        res.write(value);
+      }
+    } finally {
+      // A stream without usage (cut off, or an upstream that ignores stream_options) is charged at the cap
+      const cost = chatCost(scanner.usage || { completion_tokens: request.max_tokens }, pricing.models[model]);
+      budget.charge(cost);
+      log(`💬 Relay streamed chat for ${deviceId}: $${cost.toFixed(5)}`);
+      res.end();
+    }
+  };
+
+  const relayTranscription = async (req, res, deviceId) => {
+    const contentType = req.headers['content-type'] || '';
+    if (!contentType.startsWith('multipart/form-data')) {
+      throw new RelayError(400, 'Transcriptions must be multipart/form-data');
+    }
+
+    const audio = await readBody(req, MAX_AUDIO_BYTES);
+    // The upload goes upstream as is, so it must name exactly one model, and an allowed one
+    const models = readFormFields(audio, contentType, 'model');
+    if (models.length !== 1) {
+      throw new RelayError(400, 'Transcriptions need one model field');
+    }
+    const [model] = models;
+    if (!allowedTranscriptionModels.includes(model)) {
+      throw new RelayError(400, `Model not allowed: ${model}`);
+    }
+
+    const response = await callUpstream('/audio/transcriptions', { 'Content-Type': contentType }, audio);
+    if (!response.ok) {
+      log(`❌ Relay transcription upstream failed: ${response.status}`);
+      throw new RelayError(response.status, `Upstream failed: ${response.status}`);
+    }
+
+    const cost = pricing.transcriptionModels[model];
+    budget.charge(cost);
+    log(`🎤 Relay transcription for ${deviceId}: $${cost.toFixed(5)}`);
+    send(res, 200, await response.json());
+  };
+
+  const server = http.createServer(async (req, res) => {
+    const { pathname } = new URL(req.url, 'http://localhost');
+
+    try {
+      if (req.method === 'OPTIONS') {
+        res.writeHead(204, corsHeaders);
+        return res.end();
+      }
+      if (req.method === 'GET' && pathname === '/health') {
+        return send(res, 200, { ok: true, ...budget.status() });
+      }
+      if (req.method === 'POST' && pathname === '/v1/chat/completions') {
+        return await relayChat(req, res, admit(req));
+      }
+      if (req.method === 'POST' && pathname === '/v1/audio/transcriptions') {
+        return await relayTranscription(req, res, admit(req));
+      }
+      send(res, 404, { error: 'Not found' });
+    } catch (error) {
+      const status = error instanceof RelayError ? error.status : 500;
+      if (status === 500) log('❌ Relay error:', error);
+      if (res.headersSent) {
+        res.end();
+        return;
+      }
+      // Drain an upload refused before it was read, so the client gets the answer instead of a reset
+      req.resume();
+      send(res, status, { error: status === 500 ? 'Relay error' : error.message }, error.headers);
+    }
+  });
+
+  return {
+    server,
+    getSpend: () => budget.status(),
+    listen(port = DEFAULT_PORT) {
+      return new Promise((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(port, () => {
+          server.off('error', reject);
+          resolve(server.address().port);
+        });
+      });
+    },
+    close() {
+      return new Promise(resolve => server.close(() => resolve()));
+    }
+  };
+}
+
+module.exports = { createRelayServer, createRateLimiter, DEFAULT_PRICING };
+
+// OPENAI_API_KEY unset (or RELAY_UPSTREAM=stub) runs against the stub upstream, for local development
+if (require.main === module) {
+  const { createStubUpstream } = require('./stub-upstream');
+  const port = Number(process.env.PORT) || DEFAULT_PORT;
+  const useStub = process.env.RELAY_UPSTREAM === 'stub' || !process.env.OPENAI_API_KEY;
+
+  const start = async () => {
+    let upstreamUrl = process.env.RELAY_UPSTREAM_URL || DEFAULT_UPSTREAM_URL;
+    if (useStub) {
+      const stub = createStubUpstream();
+      upstreamUrl = `http://localhost:${await stub.listen(0)}`;
+      console.log(`🧪 No OPENAI_API_KEY - relaying to the stub upstream at ${upstreamUrl}`);
+    }
+
+    const relay = createRelayServer({
+      upstreamUrl,
+      apiKey: useStub ? '' : process.env.OPENAI_API_KEY,
+      dailyBudgetUsd: Number(process.env.RELAY_DAILY_BUDGET_USD) || 5,
+      rateLimit: { requests: Number(process.env.RELAY_REQUESTS_PER_MINUTE) || 30, windowMs: 60 * 1000 },
+      addressRateLimit: { requests: Number(process.env.RELAY_ADDRESS_REQUESTS_PER_MINUTE) || 120, windowMs: 60 * 1000 },
+      allowedOrigin: process.env.RELAY_ALLOWED_ORIGIN || '*'
+    });
+    const actualPort = await relay.listen(port);
+    console.log(`🛡️ Pixie Pal relay on http://localhost:${actualPort} (budget $${relay.getSpend().budgetUsd}/day)`);
+  };
+
+  start().catch(error => {
+    console.error('❌ Relay failed to start:', error);
+    process.exit(1);
+  });
+}
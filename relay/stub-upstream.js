@@ -0,0 +1,82 @@
+// Stub OpenAI upstream - answers the two routes the relay forwards, so the relay runs without a real key
+//   POST /chat/completions        -> a canned reply (streamed as server-sent events when stream: true)
+//   POST /audio/transcriptions    -> a canned transcription
+// Every request is recorded in `requests` so tests can check what the relay sent upstream
+const http = require('http');
+
+function createStubUpstream({
+  reply = 'Hi from the stub model! ✨',
+  transcription = 'how long is space mountain',
+  usage = { prompt_tokens: 120, completion_tokens: 30 },
+  status = 200,
+  log = console.log
+} = {}) {
+  const state = { reply, transcription, usage, status };
+  const requests = [];
+
+  const server = http.createServer((req, res) => {
+    const chunks = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      const raw = Buffer.concat(chunks);
+      const isJson = (req.headers['content-type'] || '').includes('application/json');
+      const body = isJson ? JSON.parse(raw.toString('utf8') || '{}') : raw;
+      requests.push({ method: req.method, path: req.url, headers: req.headers, body });
+      log(`🧪 Stub upstream ${req.method} ${req.url}`);
+
+      if (state.status >= 400) {
+        res.writeHead(state.status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: { message: 'Stub upstream failure' } }));
+        return;
+      }
+
+      if (req.url.endsWith('/audio/transcriptions')) {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ text: state.transcription }));
+        return;
+      }
+
+      if (!req.url.endsWith('/chat/completions')) {
+        res.writeHead(404, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: { message: 'Not found' } }));
+        return;
+      }
+
+      if (!body.stream) {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({
+          choices: [{ index: 0, message: { role: 'assistant', content: state.reply }, finish_reason: 'stop' }],
+          usage: state.usage
+        }));
+        return;
+      }
+
+      // One event per word, then a usage-only event when the client asked for it, like OpenAI does
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      const words = state.reply.match(/\S+\s*/g) || [];
+      words.forEach(word => res.write(`data: ${JSON.stringify({ choices: [{ index: 0, delta: { content: word } }] })}\n\n`));
+      if (body.stream_options && body.stream_options.include_usage) {
+        res.write(`data: ${JSON.stringify({ choices: [], usage: state.usage })}\n\n`);
+      }
+      res.end('data: [DONE]\n\n');
+    });
+  });
+
+  return {
+    server,
+    requests,
+    set(options) {
+      Object.assign(state, options);
+    },
+    listen(port = 0) {
+      return new Promise(resolve => {
+        server.listen(port, () => resolve(server.address().port));
+      });
+    },
+    close() {
+      return new Promise(resolve => server.close(() => resolve()));
+    }
+  };
+}
+
+module.exports = { createStubUpstream };
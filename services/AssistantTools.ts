@@ -0,0 +1,280 @@
+// Assistant Tools - the functions the model can call instead of reading a prompt full of park data
+// Every result comes from UnifiedPixiePalService and says when it was fetched, so answers cite real data
+import { normalizeAttractionName, resolveAttraction } from './AttractionResolver';
+import { PARK_NAMES, toDateKey, toMinutesOfDay } from './ChatFormatting';
+import type { ToolCall, ToolDefinition } from './ChatModels';
+import { logger } from './Logger';
+import { ALL_PARK_IDS, Attraction, DataFreshness, EntertainmentEvent, ParkId, UnifiedPixiePalService, pixiePalData } from './PixiePalDataService';
+import { eventTimes, isFireworks } from './ResponseHandlers';
+
+const log = logger.withTag('tools');
+
+export interface ToolResult {
+  toolCallId: string;
+  name: string;
+  content: string; // JSON handed back to the model
+}
+
+const PARK_PARAMETER = {
+  type: 'string',
+  enum: ALL_PARK_IDS,
+  description: 'Park id: magicKingdom, epcot, hollywoodStudios or animalKingdom'
+};
+
+export const ASSISTANT_TOOLS: ToolDefinition[] = [
+  {
+    type: 'function',
+    function: {
+      name: 'get_wait_time',
+      description: 'Live wait time, open/closed status and Lightning Lane for one attraction at any park. Accepts nicknames like "Rise" or "7DMT".',
+      parameters: {
+        type: 'object',
+        properties: { attraction: { type: 'string', description: 'Attraction name as the guest said it' } },
+        required: ['attraction']
+      }
+    }
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'list_shortest_waits',
+      description: 'Open rides with the shortest live waits, at one park or across every park when park is omitted.',
+      parameters: {
+        type: 'object',
+        properties: {
+          park: PARK_PARAMETER,
+          n: { type: 'integer', minimum: 1, maximum: 10, description: 'How many rides to return (default 5)' }
+        }
+      }
+    }
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'get_park_hours',
+      description: 'Opening and closing time for a park on a date.',
+      parameters: {
+        type: 'object',
+        properties: {
+          park: PARK_PARAMETER,
+          date: { type: 'string', description: 'YYYY-MM-DD, defaults to today' }
+        },
+        required: ['park']
+      }
+    }
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'next_showtime',
+      description: 'Next performance of a show, parade or fireworks today, with every showtime and location. Searches every park unless park is given.',
+      parameters: {
+        type: 'object',
+        properties: {
+          show: { type: 'string', description: 'Show name, or "parade" / "fireworks"' },
+          park: PARK_PARAMETER
+        },
+        required: ['show']
+      }
+    }
+  }
+];
+
+const MAX_SHORTEST_WAITS = 10;
+
+// Models sometimes send "Magic Kingdom" instead of the id
+const toParkId = (value: unknown): ParkId | null => {
+  if (typeof value !== 'string') return null;
+  const lower = value.toLowerCase();
+  return ALL_PARK_IDS.find(park => park.toLowerCase() === lower || PARK_NAMES[park].toLowerCase() === lower) || null;
+};
+
+// A name to look up; blank would match everything
+const requiredName = (value: unknown): string | null =>
+  typeof value === 'string' && normalizeAttractionName(value) !== '' ? value.trim() : null;
+
+export class AssistantToolbox {
+  private data: UnifiedPixiePalService;
+  private now: () => Date;
+
+  constructor(data: UnifiedPixiePalService = pixiePalData, now: () => Date = () => new Date()) {
+    this.data = data;
+    this.now = now;
+  }
+
+  getDefinitions(): ToolDefinition[] {
+    return ASSISTANT_TOOLS;
+  }
+
+  // Never throws - a failed tool becomes an { error } result the model can explain
+  async run(call: ToolCall): Promise<ToolResult> {
+    let output: unknown;
+    try {
+      const args = call.arguments ? JSON.parse(call.arguments) : {};
+      output = await this.execute(call.name, args);
+    } catch (error) {
+      log.warn('Tool failed', { tool: call.name, error });
+      output = { error: `Couldn't run ${call.name} - ${error instanceof Error ? error.message : 'unknown error'}` };
+    }
+    log.debug('Tool called', { tool: call.name, arguments: call.arguments });
+    return { toolCallId: call.id, name: call.name, content: JSON.stringify(output) };
+  }
+
+  private async execute(name: string, args: Record<string, unknown>): Promise<unknown> {
+    switch (name) {
+      case 'get_wait_time': {
+        const attraction = requiredName(args.attraction);
+        return attraction ? this.getWaitTime(attraction) : { error: 'get_wait_time needs an attraction name' };
+      }
+      case 'list_shortest_waits':
+        return this.listShortestWaits(toParkId(args.park), typeof args.n === 'number' ? args.n : 5);
+      case 'get_park_hours':
+        return this.getParkHours(toParkId(args.park), typeof args.date === 'string' ? args.date : null);
+      case 'next_showtime': {
+        const show = requiredName(args.show);
+        return show ? this.nextShowtime(show, toParkId(args.park)) : { error: 'next_showtime needs a show name' };
+      }
+      default:
+        return { error: `Unknown tool ${name}` };
+    }
+  }
+
+  // Where a result came from, in words the model can repeat
+  private source(freshness: DataFreshness) {
+    return { fetchedAt: freshness.fetchedAt, dataAge: this.data.formatDataAge(freshness.fetchedAt), origin: freshness.origin };
+  }
+
+  // Fallback numbers are made up, so the model never gets to quote them
+  private async loadLiveWaits(parks: ParkId[]) {
+    const results = await Promise.all(parks.map(park => this.data.getWaitTimes(park)));
+    return results.filter(result => result.origin !== 'fallback');
+  }
+
+  private describeAttraction(attraction: Attraction) {
+    return {
+      name: attraction.name,
+      park: PARK_NAMES[attraction.park as ParkId] || attraction.park,
+      land: attraction.land,
+      isOpen: attraction.isOpen,
+      waitTime: attraction.isOpen ? attraction.waitTime : null,
+      hasLightningLane: Boolean(attraction.hasLightningLane)
+    };
+  }
+
+  private async getWaitTime(name: string) {
+    const parks = await this.loadLiveWaits(ALL_PARK_IDS);
+    if (parks.length === 0) {
+      return { error: 'Live wait times are unavailable right now' };
+    }
+
+    const attractions = parks.flatMap(park => park.attractions);
+    const resolution = resolveAttraction(name, attractions);
+    if (resolution.isAmbiguous) {
+      return { error: `"${name}" could mean more than one ride`, candidates: resolution.candidates.map(c => c.attraction.name) };
+    }
+    if (!resolution.match) {
+      return { error: `No attraction matches "${name}"` };
+    }
+
+    const park = parks.find(p => p.parkId === resolution.match?.park) || parks[0];
+    return { ...this.describeAttraction(resolution.match), ...this.source(park) };
+  }
+
+  private async listShortestWaits(park: ParkId | null, n: number) {
+    const parks = await this.loadLiveWaits(park ? [park] : ALL_PARK_IDS);
+    if (parks.length === 0) {
+      return { error: 'Live wait times are unavailable right now' };
+    }
+
+    const count = Math.max(1, Math.min(MAX_SHORTEST_WAITS, Math.round(n)));
+    const rides = parks
+      .flatMap(p => p.attractions)
+      .filter(attraction => attraction.isOpen)
+      .sort((a, b) => a.waitTime - b.waitTime)
+      .slice(0, count)
+      .map(attraction => this.describeAttraction(attraction));
+
+    // The oldest park in the set is the one worth warning about
+    const oldest = parks.reduce((a, b) => (a.fetchedAt < b.fetchedAt ? a : b));
+    return { park: park ? PARK_NAMES[park] : 'All parks', rides, ...this.source(oldest) };
+  }
+
+  private async getParkHours(park: ParkId | null, date: string | null) {
+    if (!park) {
+      return { error: 'Which park? Use magicKingdom, epcot, hollywoodStudios or animalKingdom' };
+    }
+
+    const hours = await this.data.getParkHours(park);
+    if (hours.origin === 'fallback') {
+      return { error: `Live hours for ${PARK_NAMES[park]} are unavailable right now` };
+    }
+
+    const day = date || toDateKey(this.now());
+    const entry = hours.schedule.find(d => d.date === day);
+    if (!entry) {
+      return { error: `No hours published for ${day}`, availableDates: hours.schedule.map(d => d.date) };
+    }
+
+    return {
+      park: PARK_NAMES[park],
+      date: entry.date,
+      isOpen: entry.type !== 'Closed',
+      openingTime: entry.openingTime,
+      closingTime: entry.closingTime,
+      ...this.source(hours)
+    };
+  }
+
+  private async nextShowtime(show: string, park: ParkId | null) {
+    const parks = park ? [park] : ALL_PARK_IDS;
+    const loaded = await Promise.all(parks.map(async parkId => {
+      const [entertainment, parades] = await Promise.all([this.data.getEntertainment(parkId), this.data.getParadeTimes(parkId)]);
+      return { parkId, lists: [entertainment, parades].filter(list => list.origin !== 'fallback') };
+    }));
+
+    const wanted = normalizeAttractionName(show);
+    const matchesShow = (event: EntertainmentEvent): boolean => {
+      if (wanted === 'fireworks') return isFireworks(event);
+      if (wanted === 'parade' || wanted === 'parades') return event.type === 'parade';
+      const name = normalizeAttractionName(event.name);
+      return name !== '' && (name.includes(wanted) || wanted.includes(name));
+    };
+
+    const now = this.now();
+    const nowMinutes = now.getHours() * 60 + now.getMinutes();
+    const seen = new Set<string>();
+    const matches = loaded.flatMap(({ parkId, lists }) => lists.flatMap(list =>
+      list.events.filter(matchesShow).map(event => ({ parkId, event, list }))
+    )).filter(({ parkId, event }) => {
+      // Parades show up in both the entertainment and parade lists
+      const key = `${parkId}:${event.name}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+
+    if (matches.length === 0) {
+      return { error: `No show matching "${show}" on today's live schedule` };
+    }
+
+    return {
+      shows: matches.map(({ parkId, event, list }) => {
+        const times = eventTimes(event);
+        const next = times
+          .map(time => ({ time, minutes: toMinutesOfDay(time) }))
+          .find(({ minutes }) => minutes !== null && minutes >= nowMinutes);
+        return {
+          name: event.name,
+          park: PARK_NAMES[parkId],
+          location: event.location,
+          times,
+          nextShowtime: next?.time || null,
+          minutesUntilNext: next && next.minutes !== null ? next.minutes - nowMinutes : null,
+          ...this.source(list)
+        };
+      })
+    };
+  }
+}
+
+export const assistantTools = new AssistantToolbox();
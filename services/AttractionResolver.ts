@@ -0,0 +1,246 @@
+// Attraction Resolver - matches how guests actually say ride names ("Rise", "RnRC", "7DMT", "space mountian")
+// against the live attraction list plus an alias table, and flags ties so chat can ask "did you mean...?"
+import type { ParkId } from './PixiePalDataService';
+
+export interface ResolvableAttraction {
+  name: string;
+  park: string;
+}
+
+export interface AttractionAlias {
+  name: string;
+  park: ParkId;
+  aliases: string[];
+  everydayWords?: string[]; // nicknames that are also plain words ("rise", "splash") - only count when asked about as a ride
+}
+
+export interface AttractionCandidate<T extends ResolvableAttraction> {
+  attraction: T;
+  score: number;
+}
+
+export interface AttractionResolution<T extends ResolvableAttraction> {
+  match: T | null;
+  confidence: number;
+  candidates: AttractionCandidate<T>[];
+  isAmbiguous: boolean;
+}
+
+interface IndexEntry<T extends ResolvableAttraction> {
+  attraction: T;
+  phrases: string[];
+  everydayWords: string[];
+  tokens: string[];
+}
+
+// Canonical short names and what guests call them; `name` is matched against live names,
+// so "Rise of the Resistance" covers "Star Wars: Rise of the Resistance"
+export const ATTRACTION_ALIASES: AttractionAlias[] = [
+  { name: 'Space Mountain', park: 'magicKingdom', aliases: [] },
+  { name: 'TRON Lightcycle / Run', park: 'magicKingdom', aliases: ['tron', 'tron lightcycle'] },
+  { name: 'Seven Dwarfs Mine Train', park: 'magicKingdom', aliases: ['7dmt', 'mine train', 'seven dwarfs', '7 dwarfs'] },
+  { name: 'Peter Pan\'s Flight', park: 'magicKingdom', aliases: ['peter pan'] },
+  { name: 'it\'s a small world', park: 'magicKingdom', aliases: ['small world'] },
+  { name: 'Haunted Mansion', park: 'magicKingdom', aliases: [], everydayWords: ['mansion'] },
+  { name: 'Pirates of the Caribbean', park: 'magicKingdom', aliases: ['potc'], everydayWords: ['pirates'] },
+  { name: 'Jungle Cruise', park: 'magicKingdom', aliases: [] },
+  { name: 'Big Thunder Mountain Railroad', park: 'magicKingdom', aliases: ['big thunder', 'btmrr', 'thunder mountain'] },
+  { name: 'Tiana\'s Bayou Adventure', park: 'magicKingdom', aliases: ['tianas', 'bayou', 'splash mountain'], everydayWords: ['tiana', 'splash'] },
+  { name: 'Buzz Lightyear\'s Space Ranger Spin', park: 'magicKingdom', aliases: ['buzz lightyear', 'space ranger spin'], everydayWords: ['buzz'] },
+  { name: 'Guardians of the Galaxy: Cosmic Rewind', park: 'epcot', aliases: ['guardians', 'cosmic rewind', 'gotg'] },
+  { name: 'Test Track', park: 'epcot', aliases: [] },
+  { name: 'Mission: SPACE', park: 'epcot', aliases: [] },
+  { name: 'Frozen Ever After', park: 'epcot', aliases: ['frozen ride'] },
+  { name: 'Remy\'s Ratatouille Adventure', park: 'epcot', aliases: ['remy', 'ratatouille'] },
+  { name: 'Soarin\'', park: 'epcot', aliases: ['soaring', 'soarin around the world'] },
+  { name: 'Spaceship Earth', park: 'epcot', aliases: ['the golf ball', 'epcot ball'] },
+  { name: 'Rise of the Resistance', park: 'hollywoodStudios', aliases: ['rotr'], everydayWords: ['rise'] },
+  { name: 'Millennium Falcon: Smugglers Run', park: 'hollywoodStudios', aliases: ['smugglers run', 'millennium falcon', 'mfsr'] },
+  { name: 'Slinky Dog Dash', park: 'hollywoodStudios', aliases: ['slinky', 'slinky dog', 'sdd'] },
+  { name: 'Toy Story Mania!', park: 'hollywoodStudios', aliases: ['toy story mania', 'tsm'] },
+  { name: 'Tower of Terror', park: 'hollywoodStudios', aliases: ['tot', 'twilight zone'] },
+  { name: 'Rock \'n\' Roller Coaster', park: 'hollywoodStudios', aliases: ['rnrc', 'rock n roller', 'rockin roller coaster', 'aerosmith'] },
+  { name: 'Mickey & Minnie\'s Runaway Railway', park: 'hollywoodStudios', aliases: ['runaway railway', 'mmrr'] },
+  { name: 'Avatar Flight of Passage', park: 'animalKingdom', aliases: ['flight of passage', 'fop'], everydayWords: ['avatar'] },
+  { name: 'Na\'vi River Journey', park: 'animalKingdom', aliases: ['navi', 'navi river'] },
+  { name: 'Expedition Everest', park: 'animalKingdom', aliases: ['everest'] },
+  { name: 'Kilimanjaro Safaris', park: 'animalKingdom', aliases: ['safaris', 'kilimanjaro'], everydayWords: ['safari'] },
+  { name: 'Kali River Rapids', park: 'animalKingdom', aliases: ['kali'] },
+  { name: 'DINOSAUR', park: 'animalKingdom', aliases: [] }
+];
+
+// Question words and ride filler that never identify an attraction on their own
+const STOPWORDS = new Set([
+  'a', 'an', 'the', 'of', 'and', 'for', 'is', 'are', 'at', 'in', 'on', 'to', 'with', 'it', 'its', 'this', 'that',
+  'how', 'long', 'what', 'whats', 'when', 'where', 'which', 'wait', 'waits', 'time', 'times', 'line', 'lines',
+  'ride', 'rides', 'right', 'now', 'me', 'tell', 'under', 'minutes', 'min', 'going', 'down', 'up', 'open', 'closed',
+  'today', 'park', 'show', 'adventure', 'journey', 'attraction', 'disney', 'disneys', 'walt', 'world', 'starring',
+  'can', 'you', 'i', 'we', 'my', 'our', 'there', 'like', 'about', 'be', 'was', 'has', 'been', 'do', 'does'
+]);
+
+// An everyday word names a ride only next to one of these ("wait for rise", "is pirates open"), or on its own
+const RIDE_CUES_BEFORE = ['for', 'at', 'on', 'is', 'about', 'does', 'ride', 'riding'];
+const RIDE_CUES_AFTER = ['wait', 'waits', 'line', 'lines', 'queue', 'open', 'closed', 'down', 'ride'];
+
+const MIN_SCORE = 0.6;
+const TIE_MARGIN = 0.05;
+
+export const normalizeAttractionName = (text: string): string =>
+  text.toLowerCase()
+    .replace(/[’‘`']/g, '')
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+const contentTokens = (text: string): string[] =>
+  normalizeAttractionName(text).split(' ').filter(token => token.length > 0 && !STOPWORDS.has(token));
+
+const containsPhrase = (haystack: string, needle: string): boolean =>
+  needle.length > 0 && ` ${haystack} `.includes(` ${needle} `);
+
+const mentionsAsRide = (normalized: string, word: string): boolean =>
+  normalized === word ||
+  RIDE_CUES_BEFORE.some(cue => containsPhrase(normalized, `${cue} ${word}`)) ||
+  RIDE_CUES_AFTER.some(cue => containsPhrase(normalized, `${word} ${cue}`));
+
+// Optimal string alignment distance (Levenshtein plus adjacent transpositions, so "mountian" is one edit away)
+export const editDistance = (a: string, b: string): number => {
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  const d: number[][] = Array.from({ length: rows }, (_, i) => Array.from({ length: cols }, (_, j) => (i === 0 ? j : j === 0 ? i : 0)));
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[a.length][b.length];
+};
+
+// 1 for the same word, partial credit for a typo in a longer word, 0 otherwise
+const tokenSimilarity = (a: string, b: string): number => {
+  if (a === b) return 1;
+  const length = Math.min(a.length, b.length);
+  if (length < 5) return 0;
+
+  const distance = editDistance(a, b);
+  if (distance === 1) return 0.9;
+  if (distance === 2 && length >= 7) return 0.8;
+  return 0;
+};
+
+export class AttractionResolver<T extends ResolvableAttraction = ResolvableAttraction> {
+  private entries: IndexEntry<T>[];
+  private tokenOwners = new Map<string, number>();
+  private everydayWords: Set<string>;
+
+  constructor(attractions: T[], aliases: AttractionAlias[] = ATTRACTION_ALIASES) {
+    this.entries = attractions.map(attraction => {
+      const name = normalizeAttractionName(attraction.name);
+      const aliasEntry = aliases.find(alias => containsPhrase(name, normalizeAttractionName(alias.name)));
+      const phrases = [name, ...(aliasEntry ? [aliasEntry.name, ...aliasEntry.aliases].map(normalizeAttractionName) : [])];
+      return {
+        attraction,
+        phrases: [...new Set(phrases)],
+        everydayWords: (aliasEntry?.everydayWords || []).map(normalizeAttractionName),
+        tokens: [...new Set(contentTokens(attraction.name))]
+      };
+    });
+
+    this.everydayWords = new Set(this.entries.flatMap(entry => entry.everydayWords));
+    this.entries.forEach(entry => entry.tokens.forEach(token => {
+      this.tokenOwners.set(token, (this.tokenOwners.get(token) || 0) + 1);
+    }));
+  }
+
+  resolve(input: string): AttractionResolution<T> {
+    const normalized = normalizeAttractionName(input);
+    const inputTokens = contentTokens(input);
+
+    const candidates = this.entries
+      .map(entry => ({ attraction: entry.attraction, score: this.score(entry, normalized, inputTokens) }))
+      .filter(candidate => candidate.score >= MIN_SCORE)
+      .sort((a, b) => b.score - a.score);
+
+    if (candidates.length === 0) {
+      return { match: null, confidence: 0, candidates: [], isAmbiguous: false };
+    }
+
+    const tied = candidates.filter(candidate => candidates[0].score - candidate.score <= TIE_MARGIN);
+    if (tied.length > 1) {
+      return { match: null, confidence: 0, candidates: tied, isAmbiguous: true };
+    }
+
+    const confidence = Math.round(candidates[0].score * 100) / 100;
+    return { match: candidates[0].attraction, confidence, candidates, isAmbiguous: false };
+  }
+
+  private score(entry: IndexEntry<T>, normalized: string, inputTokens: string[]): number {
+    // The full name or a known alias as a phrase; longer phrases win ties ("avatar" vs "avatar flight of passage")
+    const phraseMatch = [...entry.phrases, ...entry.everydayWords.filter(word => mentionsAsRide(normalized, word))]
+      .filter(phrase => containsPhrase(normalized, phrase))
+      .reduce((longest, phrase) => Math.max(longest, phrase.length), 0);
+    if (phraseMatch > 0) {
+      return Math.min(1, 0.95 + phraseMatch / 1000);
+    }
+    if (entry.tokens.length === 0 || inputTokens.length === 0) {
+      return 0;
+    }
+
+    // How much of the ride's name the guest said, allowing typos; everyday words need a ride cue here too,
+    // or "mansion" would pass for a typo of "mission"
+    const rideTokens = inputTokens.filter(token => !this.everydayWords.has(token) || mentionsAsRide(normalized, token));
+    const similarities = entry.tokens.map(token =>
+      rideTokens.reduce((best, inputToken) => Math.max(best, tokenSimilarity(token, inputToken)), 0)
+    );
+    const coverage = similarities.reduce((sum, similarity) => sum + similarity, 0) / entry.tokens.length;
+
+    // A single word that only a few rides share ("everest", "mountain") still points at them
+    const distinctive = entry.tokens.reduce((best, token, index) => {
+      const owners = this.tokenOwners.get(token) || 0;
+      if (similarities[index] < 0.8 || token.length < 4 || owners > 3) return best;
+      return Math.max(best, (owners === 1 ? 0.75 : 0.65) * similarities[index]);
+    }, 0);
+
+    return Math.max(coverage, distinctive);
+  }
+}
+
+// Resolvers are cached per attraction list, so the live list is only indexed once per refresh
+const resolverCache = new WeakMap<ResolvableAttraction[], AttractionResolver>();
+let aliasResolver: AttractionResolver<AttractionAlias> | null = null;
+
+// Matches only come from the live list - with none loaded there's no wait time or status to quote, so nothing matches
+export function resolveAttraction<T extends ResolvableAttraction>(input: string, attractions?: T[]): AttractionResolution<T> {
+  if (!attractions || attractions.length === 0) {
+    return { match: null, confidence: 0, candidates: [], isAmbiguous: false };
+  }
+
+  // Each resolver was built from the list it's cached under, so it only ever returns that list's T
+  let resolver = resolverCache.get(attractions) as AttractionResolver<T> | undefined;
+  if (!resolver) {
+    resolver = new AttractionResolver(attractions);
+    resolverCache.set(attractions, resolver);
+  }
+  return resolver.resolve(input);
+}
+
+// Just the name and park, so without live data the alias table can stand in (e.g. to tell which park a question is about)
+export function resolveAttractionName(input: string, attractions?: ResolvableAttraction[]): AttractionResolution<ResolvableAttraction> {
+  if (!attractions || attractions.length === 0) {
+    // Without live data the alias table itself is the index
+    aliasResolver = aliasResolver || new AttractionResolver(ATTRACTION_ALIASES);
+    return aliasResolver.resolve(input);
+  }
+  return resolveAttraction(input, attractions);
+}
+
+export function formatDidYouMean(names: string[]): string {
+  const bold = names.slice(0, 3).map(name => `**${name}**`);
+  const list = bold.length > 1 ? `${bold.slice(0, -1).join(', ')} or ${bold[bold.length - 1]}` : bold[0];
+  return `🤔 Did you mean ${list}?`;
+}
@@ -0,0 +1,88 @@
+// Chat Formatting - shared helpers for Disney-style chat answers
+import type { QueryPark } from './QueryIntentClassifier';
+
+export const PARK_NAMES: Record<QueryPark, string> = {
+  magicKingdom: 'Magic Kingdom',
+  epcot: 'EPCOT',
+  hollywoodStudios: "Disney's Hollywood Studios",
+  animalKingdom: "Disney's Animal Kingdom",
+  disneySprings: 'Disney Springs',
+  resorts: 'Resorts'
+};
+
+// "15:00" -> "3:00 PM"; times that already carry AM/PM pass through untouched
+export const formatTime = (militaryTime: string): string => {
+  if (!militaryTime || !militaryTime.includes(':') || /[ap]m/i.test(militaryTime)) return militaryTime;
+
+  const [hours, minutes] = militaryTime.split(':');
+  const hour24 = parseInt(hours);
+
+  if (hour24 === 0) return `12:${minutes} AM`;
+  if (hour24 < 12) return `${hour24}:${minutes} AM`;
+  if (hour24 === 12) return `12:${minutes} PM`;
+  return `${hour24 - 12}:${minutes} PM`;
+};
+
+// "2025-07-20" -> "07-20-2025"
+export const formatDate = (dateString: string): string => {
+  if (!dateString || !dateString.includes('-')) return dateString;
+
+  const parts = dateString.split('-');
+  if (parts.length === 3) {
+    const [year, month, day] = parts;
+    return `${month}-${day}-${year}`;
+  }
+  return dateString;
+};
+
+// "3:00 PM" -> minutes after midnight (null when unreadable)
+export const toMinutesOfDay = (time: string): number | null => {
+  const match = time.trim().match(/^(\d{1,2}):(\d{2})\s*([AaPp][Mm])$/);
+  if (!match) return null;
+
+  const hours = parseInt(match[1], 10) % 12 + (match[3].toUpperCase() === 'PM' ? 12 : 0);
+  return hours * 60 + parseInt(match[2], 10);
+};
+
+// Minutes after midnight -> "3:20 PM"
+export const fromMinutesOfDay = (minutes: number): string => {
+  const hour24 = Math.floor(minutes / 60) % 24;
+  const hour12 = hour24 % 12 === 0 ? 12 : hour24 % 12;
+  return `${hour12}:${String(minutes % 60).padStart(2, '0')} ${hour24 < 12 ? 'AM' : 'PM'}`;
+};
+
+// Local "YYYY-MM-DD", matching the dates in park schedules
+export const toDateKey = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+// ENHANCED DISNEY-STYLE WAIT TIME FORMATTING
+export const getWaitTimeBadgeColor = (waitTime: number): string => {
+  if (waitTime <= 15) return '#27AE60'; // Green - Great
+  if (waitTime <= 30) return '#F39C12'; // Orange - Good
+  if (waitTime <= 60) return '#E67E22'; // Dark Orange - Okay
+  return '#E74C3C'; // Red - Long
+};
+
+export const formatWaitTimeBadge = (waitTime: number, hasLightningLane: boolean = false): string => {
+  const badge = `⏰ ${waitTime} min`;
+  const llBadge = hasLightningLane ? ' ⚡' : '';
+  return `${badge}${llBadge}`;
+};
+
+// ENHANCED DISNEY RESPONSE FORMATTING
+export const formatDisneyResponse = (
+  title: string,
+  content: string,
+  actionCue?: string
+): string => {
+  let response = `**${title}**\n\n${content}`;
+
+  if (actionCue) {
+    response += `\n\n${actionCue} ✨`;
+  }
+
+  return response;
+};
@@ -0,0 +1,208 @@
+// Chat History - the conversation saved to AsyncStorage so closing the app mid-queue doesn't lose it
+// One session per park day, stored under a schema version; old sessions are pruned whenever history is saved or loaded
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ConversationState, EMPTY_CONVERSATION } from './ConversationState';
+import type { AnswerContext } from './FeedbackService';
+import { logger } from './Logger';
+import type { MessagePayload } from './MessagePayloads';
+
+const log = logger.withTag('chat-history');
+
+export interface HistoryMessage {
+  id: string;
+  text: string;
+  isUser: boolean;
+  timestamp: Date;
+  showFeedback?: boolean;
+  payload?: MessagePayload;
+  context?: AnswerContext;
+  feedback?: {
+    type: 'positive' | 'negative';
+    comment?: string;
+    timestamp: Date;
+  };
+}
+
+export interface ChatSession {
+  id: string;
+  day: string; // park day, YYYY-MM-DD
+  startedAt: string;
+  park: string | null; // the park on screen when it was last saved
+  messages: HistoryMessage[];
+  conversation: ConversationState;
+}
+
+// Dates as ISO strings, the way they sit in storage
+interface StoredMessage extends Omit<HistoryMessage, 'timestamp' | 'feedback'> {
+  timestamp: string;
+  feedback?: { type: 'positive' | 'negative'; comment?: string; timestamp: string };
+}
+
+interface StoredSession extends Omit<ChatSession, 'messages'> {
+  messages: StoredMessage[];
+}
+
+interface StoredHistory {
+  version: number;
+  sessions: StoredSession[];
+}
+
+const STORAGE_KEY = 'pixie_pal_chat_history';
+
+// Bump when the stored shape changes, and teach migrateHistory to read the old one
+export const CHAT_HISTORY_VERSION = 1;
+
+// Parks can close at 1 AM, so a park day runs until 4 AM the next morning
+const PARK_DAY_START_HOUR = 4;
+const MAX_SESSIONS = 10;
+const MAX_SESSION_AGE_DAYS = 14;
+const MAX_MESSAGES_PER_SESSION = 200;
+
+export const getParkDay = (date: Date): string => {
+  const shifted = new Date(date.getTime() - PARK_DAY_START_HOUR * 60 * 60 * 1000);
+  const month = String(shifted.getMonth() + 1).padStart(2, '0');
+  const day = String(shifted.getDate()).padStart(2, '0');
+  return `${shifted.getFullYear()}-${month}-${day}`;
+};
+
+export const createChatSession = (park: string | null = null, now: Date = new Date()): ChatSession => ({
+  id: `session_${now.getTime()}_${Math.random().toString(36).slice(2, 8)}`,
+  day: getParkDay(now),
+  startedAt: now.toISOString(),
+  park,
+  messages: [],
+  conversation: EMPTY_CONVERSATION
+});
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isDateString = (value: unknown): value is string =>
+  typeof value === 'string' && !Number.isNaN(new Date(value).getTime());
+
+const isStoredMessage = (value: unknown): value is StoredMessage =>
+  isRecord(value) &&
+  typeof value.id === 'string' &&
+  typeof value.text === 'string' &&
+  typeof value.isUser === 'boolean' &&
+  isDateString(value.timestamp) &&
+  (value.feedback === undefined || (isRecord(value.feedback) && isDateString(value.feedback.timestamp)));
+
+// A session is kept if its own fields are sound; messages that aren't are dropped from it
+const readStoredSession = (value: unknown): StoredSession | null => {
+  if (!isRecord(value) || typeof value.id !== 'string' || typeof value.day !== 'string' || !isDateString(value.startedAt) ||
+    !Array.isArray(value.messages)) {
+    return null;
+  }
+  const conversation = isRecord(value.conversation) && Array.isArray(value.conversation.turns)
+    ? value.conversation as unknown as ConversationState
+    : EMPTY_CONVERSATION;
+  return {
+    id: value.id,
+    day: value.day,
+    startedAt: value.startedAt,
+    park: typeof value.park === 'string' ? value.park : null,
+    messages: value.messages.filter(isStoredMessage),
+    conversation
+  };
+};
+
+// Whatever is in storage, as the current schema; null when it can't be read. Sessions that don't hold up are dropped
+export const migrateHistory = (raw: unknown): StoredHistory | null => {
+  if (!isRecord(raw) || !Array.isArray(raw.sessions)) {
+    return null;
+  }
+  if (raw.version === CHAT_HISTORY_VERSION) {
+    const sessions = raw.sessions.map(readStoredSession).filter((session): session is StoredSession => session !== null);
+    if (sessions.length < raw.sessions.length) {
+      log.warn('Dropped unreadable chat sessions', { dropped: raw.sessions.length - sessions.length });
+    }
+    return { version: CHAT_HISTORY_VERSION, sessions };
+  }
+  // Written by a newer build (or not versioned at all) - starting over beats misreading it
+  log.warn('Dropping chat history with an unknown schema version', { version: raw.version ?? null });
+  return null;
+};
+
+const toStoredSession = (session: ChatSession): StoredSession => ({
+  ...session,
+  messages: session.messages.slice(-MAX_MESSAGES_PER_SESSION).map(({ id, text, isUser, timestamp, showFeedback, payload, context, feedback }) => ({
+    id,
+    text,
+    isUser,
+    timestamp: timestamp.toISOString(),
+    ...(showFeedback ? { showFeedback } : {}),
+    ...(payload ? { payload } : {}),
+    ...(context ? { context } : {}),
+    ...(feedback ? { feedback: { ...feedback, timestamp: feedback.timestamp.toISOString() } } : {})
+  }))
+});
+
+const fromStoredSession = (session: StoredSession): ChatSession => ({
+  ...session,
+  conversation: { ...EMPTY_CONVERSATION, ...session.conversation },
+  messages: session.messages.map(({ timestamp, feedback, ...message }) => ({
+    ...message,
+    timestamp: new Date(timestamp),
+    ...(feedback ? { feedback: { ...feedback, timestamp: new Date(feedback.timestamp) } } : {})
+  }))
+});
+
+export class ChatHistoryStore {
+  private now: () => Date;
+  private sessions: StoredSession[] | null = null;
+
+  constructor(now: () => Date = () => new Date()) {
+    this.now = now;
+  }
+
+  // Today's session, to pick up where the guest left off; null on a new park day
+  async getCurrentSession(): Promise<ChatSession | null> {
+    const sessions = await this.load();
+    const today = getParkDay(this.now());
+    const current = sessions.find(session => session.day === today);
+    return current ? fromStoredSession(current) : null;
+  }
+
+  async save(session: ChatSession): Promise<void> {
+    const sessions = await this.load();
+    this.sessions = this.prune([toStoredSession(session), ...sessions.filter(stored => stored.id !== session.id)]);
+
+    try {
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify({ version: CHAT_HISTORY_VERSION, sessions: this.sessions } as StoredHistory));
+    } catch (error) {
+      log.error('Error saving chat history', { error });
+    }
+  }
+
+  async clear(): Promise<void> {
+    this.sessions = [];
+    await AsyncStorage.removeItem(STORAGE_KEY);
+  }
+
+  private async load(): Promise<StoredSession[]> {
+    if (!this.sessions) {
+      try {
+        const stored = await AsyncStorage.getItem(STORAGE_KEY);
+        const history = stored ? migrateHistory(JSON.parse(stored)) : null;
+        this.sessions = this.prune(history?.sessions || []);
+        log.debug('Loaded chat sessions', { sessions: this.sessions.length });
+      } catch (error) {
+        log.error('Error loading chat history', { error });
+        this.sessions = [];
+      }
+    }
+    return this.sessions;
+  }
+
+  // Newest first; drops sessions past the age limit and beyond the newest few
+  private prune(sessions: StoredSession[]): StoredSession[] {
+    const oldestDay = getParkDay(new Date(this.now().getTime() - MAX_SESSION_AGE_DAYS * 24 * 60 * 60 * 1000));
+    return sessions
+      .filter(session => session.day >= oldestDay)
+      .sort((a, b) => b.startedAt.localeCompare(a.startedAt))
+      .slice(0, MAX_SESSIONS);
+  }
+}
+
+export const chatHistory = new ChatHistoryStore();
@@ -0,0 +1,406 @@
+// Chat Models - where PixiePalAssistant gets its completions from
+// OpenAI (or any OpenAI-compatible server, e.g. a local one) in the app, a scripted stand-in for tests and offline runs
+import { logger } from './Logger';
+import { getRelayUrl, relayHeaders } from './RelayClient';
+
+const log = logger.withTag('model');
+
+export interface ToolDefinition {
+  type: 'function';
+  function: {
+    name: string;
+    description: string;
+    parameters: Record<string, unknown>;
+  };
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: string; // JSON, exactly as the model sent it
+}
+
+export type ChatMessage =
+  | { role: 'system' | 'user'; content: string }
+  | { role: 'assistant'; content: string | null; toolCalls?: ToolCall[] }
+  | { role: 'tool'; toolCallId: string; content: string };
+
+export interface ChatRequest {
+  messages: ChatMessage[];
+  tools?: ToolDefinition[];
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface ChatCompletion {
+  content: string | null;
+  toolCalls: ToolCall[];
+  usage?: TokenUsage; // only when the server reports it
+}
+
+export interface CompletionOptions {
+  onText?: (delta: string) => void; // streams the reply text as it's generated
+  onToolCalls?: () => void; // the reply turned to tool calls, so the text streamed so far isn't the answer
+  signal?: AbortSignal;
+}
+
+export interface ChatModel {
+  readonly name: string;
+  complete(request: ChatRequest, options?: CompletionOptions): Promise<ChatCompletion>;
+}
+
+// Just the parts of OpenAI's responses we read; everything is optional since servers vary
+interface WireUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
+interface WireToolCall {
+  index?: number; // streamed pieces only
+  id?: string;
+  function?: { name?: string; arguments?: string };
+}
+
+interface WireMessage {
+  content?: string | null;
+  tool_calls?: WireToolCall[];
+}
+
+interface WireCompletion {
+  choices?: Array<{ message?: WireMessage }>;
+  usage?: WireUsage | null;
+}
+
+interface WireChunk {
+  choices?: Array<{ delta?: WireMessage }>;
+  usage?: WireUsage | null;
+}
+
+const createAbortError = (): Error => Object.assign(new Error('Chat completion was cancelled'), { name: 'AbortError' });
+
+export const isAbortError = (error: unknown): boolean => error instanceof Error && error.name === 'AbortError';
+
+export const DEFAULT_OPENAI_BASE_URL = 'https://api.openai.com/v1';
+export const DEFAULT_CHAT_MODEL = 'gpt-4o-mini';
+
+export interface OpenAIChatModelOptions {
+  baseUrl?: string;
+  apiKey?: string;
+  model?: string;
+  maxTokens?: number;
+  temperature?: number;
+  timeoutMs?: number;
+  headers?: () => Record<string, string>; // sent with every request, e.g. the relay's device id
+}
+
+// OpenAI's wire format uses snake_case and nests the function name
+const toWireMessage = (message: ChatMessage) => {
+  if (message.role === 'tool') {
+    return { role: 'tool', tool_call_id: message.toolCallId, content: message.content };
+  }
+  if (message.role === 'assistant' && message.toolCalls && message.toolCalls.length > 0) {
+    return {
+      role: 'assistant',
+      content: message.content,
+      tool_calls: message.toolCalls.map(call => ({
+        id: call.id,
+        type: 'function',
+        function: { name: call.name, arguments: call.arguments }
+      }))
+    };
+  }
+  return { role: message.role, content: message.content };
+};
+
+const toTokenUsage = (usage: WireUsage): TokenUsage => ({
+  promptTokens: usage.prompt_tokens || 0,
+  completionTokens: usage.completion_tokens || 0
+});
+
+// Complete `data:` lines from a server-sent event stream; `rest` is a partial line still arriving
+const readServerSentEvents = (buffer: string): { events: string[]; rest: string } => {
+  const lines = buffer.split('\n');
+  const rest = lines.pop() || '';
+  const events = lines
+    .map(line => line.trim())
+    .filter(line => line.startsWith('data:'))
+    .map(line => line.slice(5).trim());
+  return { events, rest };
+};
+
+// Builds the final completion out of streamed deltas; tool calls arrive in pieces keyed by index
+class StreamedCompletion {
+  private content = '';
+  private toolCalls: ToolCall[] = [];
+  private usage?: TokenUsage;
+
+  get callsTools(): boolean {
+    return this.toolCalls.length > 0;
+  }
+
+  // Returns the new reply text in this chunk, if any
+  add(chunk: WireChunk): string {
+    if (chunk.usage) {
+      this.usage = toTokenUsage(chunk.usage);
+    }
+    const delta: WireMessage = chunk.choices?.[0]?.delta || {};
+    (delta.tool_calls || []).forEach(part => {
+      const index = part.index ?? 0;
+      const call = this.toolCalls[index] || (this.toolCalls[index] = { id: '', name: '', arguments: '' });
+      call.id = part.id || call.id;
+      call.name += part.function?.name || '';
+      call.arguments += part.function?.arguments || '';
+    });
+
+    const text = typeof delta.content === 'string' ? delta.content : '';
+    this.content += text;
+    return text;
+  }
+
+  result(): ChatCompletion {
+    return {
+      content: this.content || null,
+      toolCalls: this.toolCalls.filter(Boolean).map(call => ({ ...call, arguments: call.arguments || '{}' })),
+      ...(this.usage ? { usage: this.usage } : {})
+    };
+  }
+}
+
+// Talks to /chat/completions on OpenAI or anything that speaks the same API
+export class OpenAIChatModel implements ChatModel {
+  readonly name: string;
+  private baseUrl: string;
+  private apiKey: string;
+  private model: string;
+  private maxTokens: number;
+  private temperature: number;
+  private timeoutMs: number;
+  private extraHeaders: () => Record<string, string>;
+
+  constructor({
+    baseUrl = DEFAULT_OPENAI_BASE_URL,
+    apiKey = '',
+    model = DEFAULT_CHAT_MODEL,
+    maxTokens = 400,
+    temperature = 0.2,
+    timeoutMs = 30000,
+    headers = () => ({})
+  }: OpenAIChatModelOptions = {}) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.apiKey = apiKey;
+    this.model = model;
+    this.maxTokens = maxTokens;
+    this.temperature = temperature;
+    this.timeoutMs = timeoutMs;
+    this.extraHeaders = headers;
+    this.name = `openai:${model}`;
+  }
+
+  getUrl(): string {
+    return `${this.baseUrl}/chat/completions`;
+  }
+
+  private getHeaders(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      ...this.extraHeaders(),
+      ...(this.apiKey ? { 'Authorization': `Bearer ${this.apiKey}` } : {})
+    };
+  }
+
+  private getBody({ messages, tools }: ChatRequest, stream: boolean): string {
+    return JSON.stringify({
+      model: this.model,
+      messages: messages.map(toWireMessage),
+      ...(tools && tools.length > 0 ? { tools, tool_choice: 'auto' } : {}),
+      max_tokens: this.maxTokens,
+      temperature: this.temperature,
+      // The final event of a stream carries token usage only when asked for
+      ...(stream ? { stream: true, stream_options: { include_usage: true } } : {})
+    });
+  }
+
+  async complete(request: ChatRequest, { onText, onToolCalls, signal }: CompletionOptions = {}): Promise<ChatCompletion> {
+    if (signal?.aborted) {
+      throw createAbortError();
+    }
+    if (onText) {
+      return this.stream(request, onText, onToolCalls, signal);
+    }
+
+    // A hung model shouldn't keep the typing indicator up forever
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.timeoutMs);
+    const cancel = () => controller.abort();
+    signal?.addEventListener('abort', cancel);
+
+    try {
+      const response = await fetch(this.getUrl(), {
+        method: 'POST',
+        headers: this.getHeaders(),
+        body: this.getBody(request, false),
+        signal: controller.signal
+      });
+
+      if (!response.ok) {
+        throw new Error(`OpenAI API failed: ${response.status}`);
+      }
+
+      const data: WireCompletion = await response.json();
+      const message = data.choices?.[0]?.message;
+      if (!message) {
+        throw new Error('OpenAI API returned no message');
+      }
+
+      return {
+        content: message.content ?? null,
+        toolCalls: (message.tool_calls || []).map(call => ({
+          id: call.id || '',
+          name: call.function?.name || '',
+          arguments: call.function?.arguments || '{}'
+        })),
+        ...(data.usage ? { usage: toTokenUsage(data.usage) } : {})
+      };
+    } catch (error) {
+      throw signal?.aborted ? createAbortError() : error;
+    } finally {
+      clearTimeout(timeout);
+      signal?.removeEventListener('abort', cancel);
+    }
+  }
+
+  // React Native's fetch can't read a response body as it arrives, but XMLHttpRequest reports progress
+  private stream(request: ChatRequest, onText: (delta: string) => void, onToolCalls?: () => void, signal?: AbortSignal): Promise<ChatCompletion> {
+    return new Promise((resolve, reject) => {
+      const xhr = new XMLHttpRequest();
+      const completion = new StreamedCompletion();
+      let read = 0;
+      let buffer = '';
+
+      // `flush` once the response is complete, in case the last line had no newline
+      const readProgress = (flush = false) => {
+        buffer += xhr.responseText.slice(read);
+        read = xhr.responseText.length;
+        const { events, rest } = readServerSentEvents(flush ? `${buffer}\n` : buffer);
+        buffer = rest;
+        events.filter(event => event !== '[DONE]').forEach(event => {
+          const callsTools = completion.callsTools;
+          const text = completion.add(JSON.parse(event) as WireChunk);
+          if (text) onText(text);
+          if (!callsTools && completion.callsTools) onToolCalls?.();
+        });
+      };
+      const cancel = () => {
+        xhr.abort();
+        reject(createAbortError());
+      };
+      const settle = () => signal?.removeEventListener('abort', cancel);
+
+      xhr.open('POST', this.getUrl());
+      Object.entries(this.getHeaders()).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+      xhr.timeout = this.timeoutMs;
+      // A malformed event (or a throwing onText) must fail the completion, not escape the XHR callback
+      xhr.onprogress = () => {
+        if (xhr.status >= 400) return;
+        try {
+          readProgress();
+        } catch (error) {
+          settle();
+          xhr.abort();
+          reject(error);
+        }
+      };
+      xhr.onload = () => {
+        settle();
+        if (xhr.status >= 400) {
+          reject(new Error(`OpenAI API failed: ${xhr.status}`));
+          return;
+        }
+        try {
+          readProgress(true);
+          resolve(completion.result());
+        } catch (error) {
+          reject(error);
+        }
+      };
+      xhr.onerror = () => {
+        settle();
+        reject(new Error('OpenAI stream failed'));
+      };
+      xhr.ontimeout = () => {
+        settle();
+        reject(new Error('OpenAI stream timed out'));
+      };
+      signal?.addEventListener('abort', cancel);
+      xhr.send(this.getBody(request, true));
+    });
+  }
+}
+
+export type ScriptedReply = Partial<ChatCompletion> | ((request: ChatRequest) => Partial<ChatCompletion>);
+
+// Plays back replies in order and records every request; runs out by throwing, like a model that's down
+export class ScriptedChatModel implements ChatModel {
+  readonly name = 'scripted';
+  readonly requests: ChatRequest[] = [];
+  private replies: ScriptedReply[];
+
+  constructor(replies: ScriptedReply[] = []) {
+    this.replies = [...replies];
+  }
+
+  reply(...replies: ScriptedReply[]): this {
+    this.replies.push(...replies);
+    return this;
+  }
+
+  async complete(request: ChatRequest, { onText, onToolCalls, signal }: CompletionOptions = {}): Promise<ChatCompletion> {
+    // Copy, since the assistant keeps appending to the same message list
+    this.requests.push({ ...request, messages: [...request.messages] });
+
+    const next = this.replies.shift();
+    if (!next) {
+      throw new Error('Scripted chat model has no reply left');
+    }
+
+    const reply = typeof next === 'function' ? next(request) : next;
+    const content = reply.content ?? null;
+
+    // Streams word by word, yielding between words so callers can cancel mid-reply
+    if (onText && content) {
+      for (const word of content.match(/\S+\s*|\s+/g) || []) {
+        await Promise.resolve();
+        if (signal?.aborted) throw createAbortError();
+        onText(word);
+      }
+    }
+    if (signal?.aborted) {
+      throw createAbortError();
+    }
+    // Like a real model, the tool calls come after any text
+    if (onText && reply.toolCalls?.length) {
+      onToolCalls?.();
+    }
+
+    return { content, toolCalls: reply.toolCalls || [], ...(reply.usage ? { usage: reply.usage } : {}) };
+  }
+}
+
+// The app talks to the relay (relay/server.js), which holds the OpenAI key - nothing secret ships in the bundle.
+// EXPO_PUBLIC_CHAT_MODEL_PROVIDER=offline skips the model entirely (every question gets the built-in fallback);
+// EXPO_PUBLIC_CHAT_MODEL_BASE_URL points at another OpenAI-compatible server that needs no key, e.g. a local one
+export function createDefaultChatModel(): ChatModel {
+  if (process.env.EXPO_PUBLIC_CHAT_MODEL_PROVIDER === 'offline') {
+    log.info('Using the offline chat model');
+    return new ScriptedChatModel();
+  }
+
+  return new OpenAIChatModel({
+    baseUrl: process.env.EXPO_PUBLIC_CHAT_MODEL_BASE_URL || `${getRelayUrl()}/v1`,
+    model: process.env.EXPO_PUBLIC_CHAT_MODEL || DEFAULT_CHAT_MODEL,
+    headers: relayHeaders
+  });
+}
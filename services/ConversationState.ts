@@ -0,0 +1,192 @@
+// Conversation State - remembers the park, ride, character and time window the guest last talked about,
+// so follow-ups like "what about at EPCOT?" or "is it shorter now?" keep their subject
+import { fromMinutesOfDay, toMinutesOfDay } from './ChatFormatting';
+import type { EntertainmentEvent } from './PixiePalDataService';
+import { ClassifyOptions, QueryClassification, QueryIntent, QueryPark, classifyQuery } from './QueryIntentClassifier';
+import { ParkEntertainment, eventTimes, isFireworks } from './ResponseHandlers';
+
+export interface ConversationTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface ConversationState {
+  park: QueryPark | null;
+  attraction: string | null;
+  attractionPark: QueryPark | null;
+  character: string | null;
+  time: string | null;
+  intent: QueryIntent | null;
+  turns: ConversationTurn[];
+}
+
+export interface FollowUpOptions extends ClassifyOptions {
+  park: QueryPark; // the park on screen
+  entertainment?: ParkEntertainment[];
+  now?: Date;
+}
+
+export interface ResolvedQuestion {
+  question: string; // the input with its references filled in ("is Space Mountain shorter now?")
+  analysis: QueryClassification;
+  isFollowUp: boolean;
+}
+
+export const EMPTY_CONVERSATION: ConversationState = {
+  park: null,
+  attraction: null,
+  attractionPark: null,
+  character: null,
+  time: null,
+  intent: null,
+  turns: []
+};
+
+// Enough history for a follow-up without sending the whole day to the model
+const MAX_TURNS = 8;
+const MAX_TURN_LENGTH = 600;
+
+const RIDE_INTENTS: QueryIntent[] = ['ride_wait', 'wait_trend', 'wait_alert'];
+
+const FOLLOW_UP_LEAD = /^\s*(?:and|what about|how about|what if|also|then|so|ok(?:ay)?)\b/i;
+const RIDE_PRONOUN = /\b(?:that ride|this ride|that one|it)\b/i;
+const CHARACTER_PRONOUN = /\b(?:him|her|he|she)\b/i;
+// "it" that never means the last ride
+const NOT_A_REFERENCE = /\bwhat time is it\b|\bis it (?:busy|crowded|raining|hot|cold)\b/i;
+const TIME_REFERENCE = /\b(?:after|once)\s+the\s+(parade|fireworks|show)\b/i;
+
+type EventKind = 'parade' | 'fireworks' | 'show';
+
+const eventsOfKind = (park: ParkEntertainment | undefined, kind: EventKind): EntertainmentEvent[] => {
+  if (!park) return [];
+  const all = [...(park.entertainment || []), ...(park.parades || [])];
+  if (kind === 'fireworks') return all.filter(isFireworks);
+  if (kind === 'parade') return park.parades || all.filter(event => event.type === 'parade');
+  return (park.entertainment || []).filter(event => event.type !== 'parade' && !isFireworks(event));
+};
+
+const durationMinutes = (event: EntertainmentEvent): number => {
+  const minutes = typeof event.duration === 'number' ? event.duration : parseInt(event.duration || '', 10);
+  return Number.isFinite(minutes) ? minutes : 0;
+};
+
+// "after the parade" -> when the next parade finishes ("3:20 PM"), or null if there isn't one left today
+export function resolveTimeReference(
+  input: string,
+  entertainment: ParkEntertainment | undefined,
+  now: Date = new Date()
+): string | null {
+  const reference = input.match(TIME_REFERENCE);
+  if (!reference) return null;
+
+  const nowMinutes = now.getHours() * 60 + now.getMinutes();
+  const next = eventsOfKind(entertainment, reference[1].toLowerCase() as EventKind)
+    .flatMap(event => eventTimes(event).map(time => ({ start: toMinutesOfDay(time), duration: durationMinutes(event) })))
+    .filter((showtime): showtime is { start: number; duration: number } => showtime.start !== null && showtime.start >= nowMinutes)
+    .sort((a, b) => a.start - b.start)[0];
+
+  return next ? fromMinutesOfDay(next.start + next.duration) : null;
+}
+
+export function resolveFollowUp(input: string, state: ConversationState, options: FollowUpOptions): ResolvedQuestion {
+  let question = input;
+  let isFollowUp = false;
+
+  // "is it shorter now?" - "it" is the ride we were just talking about
+  const firstPass = classifyQuery(question, options);
+  if (
+    state.attraction && state.intent && RIDE_INTENTS.includes(state.intent) &&
+    !firstPass.slots.attraction && firstPass.attractionCandidates.length === 0 &&
+    RIDE_PRONOUN.test(question) && !NOT_A_REFERENCE.test(question)
+  ) {
+    question = question.replace(RIDE_PRONOUN, state.attraction);
+    isFollowUp = true;
+  }
+
+  // "when can I see her?" - the character we were just talking about
+  if (state.character && !firstPass.slots.character && CHARACTER_PRONOUN.test(question)) {
+    question = question.replace(CHARACTER_PRONOUN, state.character);
+    isFollowUp = true;
+  }
+
+  // "and after the parade?" - pin the time window, and keep "parade" from reading as a parade question
+  const referencePark = firstPass.slots.park || options.park;
+  const referencedTime = resolveTimeReference(
+    question,
+    options.entertainment?.find(e => e.park === referencePark),
+    options.now
+  );
+  const classified = classifyQuery(referencedTime ? question.replace(TIME_REFERENCE, ' ') : question, options);
+  let analysis: QueryClassification = referencedTime
+    ? { ...classified, slots: { ...classified.slots, time: referencedTime } }
+    : classified;
+
+  // "what about at EPCOT?" - nothing to classify on its own, so it continues the last question
+  const elliptical = FOLLOW_UP_LEAD.test(input) || referencedTime !== null || analysis.slots.park !== null;
+  if (analysis.intent === 'general' && state.intent && elliptical) {
+    let intent = state.intent;
+    let attraction = analysis.slots.attraction;
+    if (RIDE_INTENTS.includes(intent) && !attraction && state.attraction) {
+      const otherPark = analysis.slots.park && analysis.slots.park !== state.attractionPark;
+      if (otherPark) {
+        // The ride doesn't follow the guest to another park - show that park's waits instead
+        intent = 'wait_times';
+      } else {
+        attraction = state.attraction;
+        question = `${state.attraction} ${question}`;
+      }
+    }
+
+    analysis = {
+      ...analysis,
+      intent,
+      confidence: Math.max(analysis.confidence, 0.5),
+      slots: {
+        ...analysis.slots,
+        attraction,
+        character: analysis.slots.character || (intent === 'character_meet' ? state.character : null),
+        time: analysis.slots.time || state.time
+      }
+    };
+    isFollowUp = true;
+  }
+
+  return { question, analysis, isFollowUp };
+}
+
+// Remembers what this question was about; `park` is the park it was answered for
+export function updateConversationState(
+  state: ConversationState,
+  analysis: QueryClassification,
+  park: QueryPark
+): ConversationState {
+  const sameIntent = analysis.intent === 'general' || analysis.intent === state.intent;
+  return {
+    ...state,
+    park,
+    attraction: analysis.slots.attraction || state.attraction,
+    attractionPark: analysis.slots.attraction ? analysis.slots.park || park : state.attractionPark,
+    character: analysis.slots.character || state.character,
+    time: analysis.slots.time || (sameIntent ? state.time : null),
+    intent: analysis.intent === 'general' ? state.intent : analysis.intent
+  };
+}
+
+export function recordTurn(state: ConversationState, question: string, answer: string): ConversationState {
+  const turns: ConversationTurn[] = [
+    ...state.turns,
+    { role: 'user', content: question.slice(0, MAX_TURN_LENGTH) },
+    { role: 'assistant', content: answer.slice(0, MAX_TURN_LENGTH) }
+  ];
+  return { ...state, turns: turns.slice(-MAX_TURNS) };
+}
+
+// One line for the model's prompt, e.g. "Ride: Space Mountain • Time window: 3:20 PM"
+export function describeConversationState(state: ConversationState): string | null {
+  const parts = [
+    state.attraction ? `Ride: ${state.attraction}` : null,
+    state.character ? `Character: ${state.character}` : null,
+    state.time ? `Time window: ${state.time}` : null
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(' • ') : null;
+}
@@ -0,0 +1,143 @@
+// Feedback Service - thumbs up/down on answers, saved with the question and how it was answered
+// so bad answers can be traced to the handler, model or fallback that wrote them (see app/feedback.tsx)
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { logger } from './Logger';
+import type { DataFreshness } from './PixiePalDataService';
+
+const log = logger.withTag('feedback');
+
+// pattern: a deterministic handler or canned answer; ai: the model; fallback: park data after the model failed
+export type AnswerRoute = 'pattern' | 'ai' | 'fallback';
+
+export type FeedbackType = 'positive' | 'negative';
+
+export type FeedbackReason = 'wrong_info' | 'outdated' | 'not_what_i_asked' | 'hard_to_read' | 'other';
+
+// What an answer was made from, kept on the message until the guest rates it
+export interface AnswerContext {
+  question: string;
+  route: AnswerRoute;
+  park: string;
+  dataAgeMinutes: number | null; // age of the park data behind the answer; null when there was none
+}
+
+export interface FeedbackEntry {
+  id: string;
+  messageId: string;
+  feedbackType: FeedbackType;
+  reason: FeedbackReason | null;
+  comment: string | null;
+  timestamp: string;
+  park: string;
+  messageText: string;
+  question: string | null;
+  route: AnswerRoute | null;
+  dataAgeMinutes: number | null;
+}
+
+export interface FeedbackFilter {
+  feedbackType?: FeedbackType;
+  reason?: FeedbackReason;
+  route?: AnswerRoute;
+}
+
+const STORAGE_KEY = 'pixie_pal_feedback';
+const MAX_ENTRIES = 500;
+const MAX_MESSAGE_TEXT = 300;
+
+export const FEEDBACK_REASONS: Array<{ id: FeedbackReason; label: string }> = [
+  { id: 'wrong_info', label: 'Wrong info' },
+  { id: 'outdated', label: 'Out of date' },
+  { id: 'not_what_i_asked', label: 'Not what I asked' },
+  { id: 'hard_to_read', label: 'Hard to read' },
+  { id: 'other', label: 'Something else' }
+];
+
+const CSV_COLUMNS: Array<keyof FeedbackEntry> = [
+  'timestamp', 'feedbackType', 'reason', 'comment', 'question', 'messageText', 'route', 'park', 'dataAgeMinutes', 'messageId', 'id'
+];
+
+export const getDataAgeMinutes = (freshness: DataFreshness | undefined, now: Date = new Date()): number | null =>
+  freshness ? Math.max(0, Math.floor((now.getTime() - new Date(freshness.fetchedAt).getTime()) / 60000)) : null;
+
+const ROUTES: AnswerRoute[] = ['pattern', 'ai', 'fallback'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const stringOrNull = (value: unknown): string | null => (typeof value === 'string' ? value : null);
+
+// Entries saved before reasons and context existed only have messageId, feedbackType, comment, timestamp, park and messageText;
+// anything without messageId, feedbackType and timestamp can't be reviewed and is dropped
+const normalizeEntry = (entry: unknown, index: number): FeedbackEntry | null => {
+  if (!isRecord(entry) || typeof entry.messageId !== 'string' || typeof entry.timestamp !== 'string' ||
+    (entry.feedbackType !== 'positive' && entry.feedbackType !== 'negative')) {
+    return null;
+  }
+  return {
+    id: typeof entry.id === 'string' && entry.id ? entry.id : `feedback_${entry.timestamp}_${index}`,
+    messageId: entry.messageId,
+    feedbackType: entry.feedbackType,
+    reason: FEEDBACK_REASONS.find(option => option.id === entry.reason)?.id ?? null,
+    comment: stringOrNull(entry.comment),
+    timestamp: entry.timestamp,
+    park: typeof entry.park === 'string' ? entry.park : '',
+    messageText: typeof entry.messageText === 'string' ? entry.messageText : '',
+    question: stringOrNull(entry.question),
+    route: ROUTES.find(route => route === entry.route) ?? null,
+    dataAgeMinutes: typeof entry.dataAgeMinutes === 'number' ? entry.dataAgeMinutes : null
+  };
+};
+
+export const filterFeedback = (entries: FeedbackEntry[], filter: FeedbackFilter): FeedbackEntry[] =>
+  entries.filter(entry =>
+    (!filter.feedbackType || entry.feedbackType === filter.feedbackType) &&
+    (!filter.reason || entry.reason === filter.reason) &&
+    (!filter.route || entry.route === filter.route)
+  );
+
+export const feedbackToJson = (entries: FeedbackEntry[]): string => JSON.stringify(entries, null, 2);
+
+const toCsvField = (value: unknown): string => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const feedbackToCsv = (entries: FeedbackEntry[]): string =>
+  [CSV_COLUMNS.join(','), ...entries.map(entry => CSV_COLUMNS.map(column => toCsvField(entry[column])).join(','))].join('\n');
+
+export class FeedbackStore {
+  // Newest first
+  async getAll(): Promise<FeedbackEntry[]> {
+    try {
+      const stored = await AsyncStorage.getItem(STORAGE_KEY);
+      const parsed: unknown = stored ? JSON.parse(stored) : [];
+      const entries = Array.isArray(parsed) ? parsed : [];
+      return entries
+        .map(normalizeEntry)
+        .filter((entry): entry is FeedbackEntry => entry !== null)
+        .reverse();
+    } catch (error) {
+      log.error('Error loading feedback', { error });
+      return [];
+    }
+  }
+
+  async add(entry: Omit<FeedbackEntry, 'id'>): Promise<FeedbackEntry> {
+    const saved: FeedbackEntry = {
+      ...entry,
+      id: `feedback_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      messageText: entry.messageText.substring(0, MAX_MESSAGE_TEXT)
+    };
+    const entries = (await this.getAll()).reverse();
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify([...entries, saved].slice(-MAX_ENTRIES)));
+    log.info('Feedback saved', { feedbackType: saved.feedbackType, reason: saved.reason, route: saved.route, park: saved.park });
+    return saved;
+  }
+
+  async clear(): Promise<void> {
+    await AsyncStorage.removeItem(STORAGE_KEY);
+  }
+}
+
+export const feedbackStore = new FeedbackStore();
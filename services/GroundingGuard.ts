@@ -0,0 +1,303 @@
+// Grounding Guard - checks the wait times and showtimes in an AI answer against the loaded park data
+// Wrong waits are corrected, closed rides are marked closed, invented showtimes are flagged, and every fix is logged
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ATTRACTION_ALIASES } from './AttractionResolver';
+import { toMinutesOfDay } from './ChatFormatting';
+import { logger } from './Logger';
+import type { EntertainmentEvent } from './PixiePalDataService';
+import { eventTimes } from './ResponseHandlers';
+
+const log = logger.withTag('grounding');
+
+export interface GroundingAttraction {
+  name: string;
+  waitTime: number;
+  isOpen: boolean;
+}
+
+export interface GroundingData {
+  attractions: GroundingAttraction[];
+  events: EntertainmentEvent[];
+}
+
+export type GroundingCorrectionKind = 'wait_time' | 'closed_ride' | 'showtime';
+
+export interface GroundingCorrection {
+  kind: GroundingCorrectionKind;
+  subject: string; // ride or show name as it is in the data
+  claimed: string;
+  actual: string | null;
+  action: 'corrected' | 'flagged';
+}
+
+export interface GroundingReport {
+  text: string;
+  corrections: GroundingCorrection[];
+}
+
+export interface LoggedCorrection extends GroundingCorrection {
+  at: string;
+}
+
+export interface GroundingStats {
+  answersChecked: number;
+  answersCorrected: number;
+  corrections: LoggedCorrection[]; // newest last
+}
+
+interface Mention<T> {
+  start: number;
+  end: number;
+  subject: T;
+}
+
+interface Replacement {
+  start: number;
+  end: number;
+  text: string;
+}
+
+const STORAGE_KEY = 'pixie_pal_grounding_log';
+const MAX_LOGGED_CORRECTIONS = 100;
+const CORRECTION_KINDS: GroundingCorrectionKind[] = ['wait_time', 'closed_ride', 'showtime'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readCount = (value: unknown): number => (typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : 0);
+
+const readLoggedCorrection = (value: unknown): LoggedCorrection | null => {
+  if (!isRecord(value) || typeof value.subject !== 'string' || typeof value.claimed !== 'string' || typeof value.at !== 'string' ||
+    (value.actual !== null && typeof value.actual !== 'string') || (value.action !== 'corrected' && value.action !== 'flagged')) {
+    return null;
+  }
+  const kind = CORRECTION_KINDS.find(option => option === value.kind);
+  return kind
+    ? { kind, subject: value.subject, claimed: value.claimed, actual: value.actual, action: value.action, at: value.at }
+    : null;
+};
+
+// Counts that aren't numbers start from zero; corrections that can't be shown are dropped
+const readStoredStats = (stored: unknown): GroundingStats | null =>
+  isRecord(stored)
+    ? {
+      answersChecked: readCount(stored.answersChecked),
+      answersCorrected: readCount(stored.answersCorrected),
+      corrections: (Array.isArray(stored.corrections) ? stored.corrections : [])
+        .map(readLoggedCorrection)
+        .filter((correction): correction is LoggedCorrection => correction !== null)
+    }
+    : null;
+
+// "25 min", "25-minute", "25 minutes" - but not "10 min walk" or "in 20 minutes"
+const WAIT_PATTERN = /(?<!\bin\s)\b(\d{1,3})(\s*-?\s*min(?:ute)?s?\b)(?!\s+(?:walk|ago|earlier|early|before|after|shorter|longer|from))/i;
+const SHOWTIME_PATTERN = /\b\d{1,2}:\d{2}\s*[AP]M\b/gi;
+const NOT_ON_SCHEDULE = ' (not on today\'s schedule)';
+
+// Curly apostrophes are the same length, so indexes still line up with the original text
+const normalize = (text: string): string => text.toLowerCase().replace(/[’‘`]/g, "'");
+
+const isWordBoundary = (text: string, index: number): boolean =>
+  index < 0 || index >= text.length || !/[a-z0-9]/i.test(text[index]);
+
+// The ways a model is likely to write a name: in full, without "Disney's", or the short canonical name
+const surfaceForms = (name: string): string[] => {
+  const full = normalize(name);
+  const forms = [full, full.replace(/^(?:walt )?disney'?s? /, '')];
+  ATTRACTION_ALIASES
+    .map(alias => normalize(alias.name))
+    .filter(alias => full.includes(alias))
+    .forEach(alias => forms.push(alias));
+  return [...new Set(forms)].filter(form => form.length >= 4);
+};
+
+// Non-overlapping mentions in order; where two overlap the longer name wins
+const findMentions = <T extends { name: string }>(text: string, subjects: T[]): Mention<T>[] => {
+  const lower = normalize(text);
+  const found: Mention<T>[] = [];
+
+  subjects.forEach(subject => surfaceForms(subject.name).forEach(form => {
+    for (let index = lower.indexOf(form); index !== -1; index = lower.indexOf(form, index + 1)) {
+      if (isWordBoundary(lower, index - 1) && isWordBoundary(lower, index + form.length)) {
+        found.push({ start: index, end: index + form.length, subject });
+      }
+    }
+  }));
+
+  return found
+    .sort((a, b) => a.start - b.start || (b.end - b.start) - (a.end - a.start))
+    .filter((mention, index, sorted) => !sorted.slice(0, index).some(other => mention.start < other.end));
+};
+
+// Text that belongs to each mention: up to the next mention of anything we check
+const withScopes = <T>(mentions: Mention<T>[], boundaries: number[], length: number) =>
+  mentions.map(mention => ({
+    mention,
+    scopeEnd: Math.min(length, ...boundaries.filter(start => start > mention.start))
+  }));
+
+export function groundAnswer(text: string, data: GroundingData): GroundingReport {
+  const corrections: GroundingCorrection[] = [];
+  const replacements: Replacement[] = [];
+
+  const rideMentions = findMentions(text, data.attractions);
+  const showMentions = findMentions(text, data.events);
+  const boundaries = [...rideMentions, ...showMentions].map(mention => mention.start);
+
+  withScopes(rideMentions, boundaries, text.length).forEach(({ mention, scopeEnd }) => {
+    const ride = mention.subject;
+    const scope = text.slice(mention.end, scopeEnd);
+    const wait = scope.match(WAIT_PATTERN);
+    if (!wait || wait.index === undefined) return;
+
+    const start = mention.end + wait.index;
+    const claimed = parseInt(wait[1], 10);
+
+    if (!ride.isOpen) {
+      replacements.push({ start, end: start + wait[0].length, text: 'Closed' });
+      corrections.push({ kind: 'closed_ride', subject: ride.name, claimed: wait[0].trim(), actual: 'Closed', action: 'corrected' });
+    } else if (claimed !== ride.waitTime) {
+      replacements.push({ start, end: start + wait[1].length, text: String(ride.waitTime) });
+      corrections.push({ kind: 'wait_time', subject: ride.name, claimed: wait[0].trim(), actual: `${ride.waitTime} min`, action: 'corrected' });
+    }
+  });
+
+  withScopes(showMentions, boundaries, text.length).forEach(({ mention, scopeEnd }) => {
+    const show = mention.subject;
+    const scheduled = eventTimes(show).map(toMinutesOfDay);
+    const scope = text.slice(mention.end, scopeEnd);
+
+    for (const time of scope.matchAll(SHOWTIME_PATTERN)) {
+      const minutes = toMinutesOfDay(time[0]);
+      if (minutes === null || scheduled.includes(minutes) || time.index === undefined) continue;
+
+      const end = mention.end + time.index + time[0].length;
+      replacements.push({ start: end, end, text: NOT_ON_SCHEDULE });
+      corrections.push({
+        kind: 'showtime',
+        subject: show.name,
+        claimed: time[0],
+        actual: eventTimes(show).join(', ') || null,
+        action: 'flagged'
+      });
+    }
+  });
+
+  const grounded = replacements
+    .sort((a, b) => b.start - a.start)
+    .reduce((result, { start, end, text: replacement }) => result.slice(0, start) + replacement + result.slice(end), text);
+
+  return { text: grounded, corrections };
+}
+
+// End of the last finished line or sentence - a wait or showtime after it may still be arriving
+const lastBoundary = (text: string): number => {
+  const ends = [...text.matchAll(/\n|[.!?](?=\s)/g)];
+  const last = ends[ends.length - 1];
+  return last?.index === undefined ? 0 : last.index + 1;
+};
+
+// Grounds a streamed answer on the way to the screen and the speaker: text is passed on a line or sentence
+// at a time, already corrected, so nothing unchecked is shown or spoken
+export class GroundedStream {
+  private data: GroundingData;
+  private onText: (text: string) => void;
+  private raw = '';
+  private emitted = '';
+
+  constructor(data: GroundingData, onText: (text: string) => void) {
+    this.data = data;
+    this.onText = onText;
+  }
+
+  push(chunk: string): void {
+    this.raw += chunk;
+    const boundary = lastBoundary(this.raw);
+    if (boundary > 0) {
+      this.emit(groundAnswer(this.raw.slice(0, boundary), this.data).text);
+    }
+  }
+
+  // Starts over, for when the text so far turns out not to be the answer
+  reset(): void {
+    this.raw = '';
+    this.emitted = '';
+  }
+
+  // The whole grounded answer; whatever hasn't been passed on yet goes now
+  finish(grounded: string): void {
+    this.emit(grounded);
+  }
+
+  // Only ever appends - if a later correction reaches back into text already passed on, the caller
+  // sees the streamed text differ from the answer and replaces it
+  private emit(grounded: string): void {
+    if (grounded.length > this.emitted.length && grounded.startsWith(this.emitted)) {
+      this.onText(grounded.slice(this.emitted.length));
+      this.emitted = grounded;
+    }
+  }
+}
+
+// How often the model gets caught out, persisted so it can be measured across sessions
+export class GroundingLog {
+  private stats: GroundingStats = { answersChecked: 0, answersCorrected: 0, corrections: [] };
+  private loaded: Promise<void> | null = null;
+
+  load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = (async () => {
+        try {
+          const stored = await AsyncStorage.getItem(STORAGE_KEY);
+          const stats = stored ? readStoredStats(JSON.parse(stored)) : null;
+          if (stats) {
+            this.stats = stats;
+          }
+        } catch (error) {
+          log.error('Error loading grounding log', { error });
+        }
+      })();
+    }
+    return this.loaded;
+  }
+
+  async record(corrections: GroundingCorrection[], at: Date = new Date()): Promise<void> {
+    await this.load();
+
+    this.stats.answersChecked++;
+    if (corrections.length > 0) {
+      this.stats.answersCorrected++;
+      this.stats.corrections = [
+        ...this.stats.corrections,
+        ...corrections.map(correction => ({ ...correction, at: at.toISOString() }))
+      ].slice(-MAX_LOGGED_CORRECTIONS);
+      corrections.forEach(correction =>
+        log.info('Answer corrected', {
+          action: correction.action,
+          kind: correction.kind,
+          subject: correction.subject,
+          claimed: correction.claimed,
+          actual: correction.actual ?? null
+        })
+      );
+    }
+
+    try {
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(this.stats));
+    } catch (error) {
+      log.error('Error saving grounding log', { error });
+    }
+  }
+
+  async getStats(): Promise<GroundingStats> {
+    await this.load();
+    return { ...this.stats, corrections: [...this.stats.corrections] };
+  }
+
+  async clear(): Promise<void> {
+    this.stats = { answersChecked: 0, answersCorrected: 0, corrections: [] };
+    await AsyncStorage.removeItem(STORAGE_KEY);
+  }
+}
+
+export const groundingLog = new GroundingLog();
@@ -0,0 +1,158 @@
+// Log Sinks - where logger entries go besides the in-app ring buffer
+// A log file on the device, and a collector over HTTP (npm run log-collector) for watching a test device from a laptop
+import * as FileSystem from 'expo-file-system';
+import { LOG_LEVELS, LogEntry, LogLevel, LogSink, Logger, logger } from './Logger';
+
+export interface FileStorage {
+  read(path: string): Promise<string | null>;
+  write(path: string, text: string): Promise<void>;
+}
+
+export interface FileSinkOptions {
+  path: string;
+  storage?: FileStorage;
+  maxLines?: number;
+  flushDelayMs?: number;
+  minLevel?: LogLevel;
+}
+
+export interface HttpSinkOptions {
+  url: string;
+  batchSize?: number;
+  flushIntervalMs?: number;
+  maxQueued?: number; // entries kept while the collector is unreachable
+  minLevel?: LogLevel;
+  fetchImpl?: typeof fetch;
+}
+
+// Neither sink logs its own failures: they'd come straight back to the sink that failed
+
+export const expoFileStorage: FileStorage = {
+  async read(path) {
+    const info = await FileSystem.getInfoAsync(path);
+    return info.exists ? FileSystem.readAsStringAsync(path) : null;
+  },
+  write: (path, text) => FileSystem.writeAsStringAsync(path, text)
+};
+
+// One JSON entry per line, trimmed to the newest maxLines; writes are batched since every write rewrites the file
+export function createFileSink({ path, storage = expoFileStorage, maxLines = 2000, flushDelayMs = 2000, minLevel }: FileSinkOptions): LogSink {
+  let pending: LogEntry[] = [];
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let writing: Promise<void> = Promise.resolve();
+
+  const flush = (): Promise<void> => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    const batch = pending;
+    pending = [];
+    if (batch.length > 0) {
+      writing = writing.then(async () => {
+        try {
+          const existing = (await storage.read(path)) || '';
+          const lines = [...existing.split('\n').filter(Boolean), ...batch.map(entry => JSON.stringify(entry))];
+          await storage.write(path, `${lines.slice(-maxLines).join('\n')}\n`);
+        } catch (error) {
+          // Dropped - the ring buffer still has them
+        }
+      });
+    }
+    return writing;
+  };
+
+  return {
+    name: 'file',
+    minLevel,
+    write(entry) {
+      pending.push(entry);
+      if (!timer) {
+        timer = setTimeout(flush, flushDelayMs);
+      }
+    },
+    flush
+  };
+}
+
+// Posts { entries: [...] } in batches; a failed batch is kept and goes out with the next one
+export function createHttpSink({
+  url,
+  batchSize = 20,
+  flushIntervalMs = 10000,
+  maxQueued = 500,
+  minLevel,
+  fetchImpl = (input, init) => fetch(input, init)
+}: HttpSinkOptions): LogSink {
+  let queue: LogEntry[] = [];
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let sending: Promise<void> | null = null;
+
+  const flush = (): Promise<void> => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    if (sending) {
+      return sending;
+    }
+    if (queue.length === 0) {
+      return Promise.resolve();
+    }
+
+    const batch = queue;
+    queue = [];
+    sending = (async () => {
+      try {
+        const response = await fetchImpl(url, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ entries: batch })
+        });
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}`);
+        }
+      } catch (error) {
+        queue = [...batch, ...queue].slice(-maxQueued);
+      } finally {
+        sending = null;
+      }
+    })();
+    return sending;
+  };
+
+  return {
+    name: 'http',
+    minLevel,
+    write(entry) {
+      queue.push(entry);
+      if (queue.length > maxQueued) {
+        queue.shift();
+      }
+      if (queue.length >= batchSize) {
+        flush();
+      } else if (!timer) {
+        timer = setTimeout(flush, flushIntervalMs);
+      }
+    },
+    flush
+  };
+}
+
+// No document directory on the web, so no log file there
+export const LOG_FILE_PATH = FileSystem.documentDirectory ? `${FileSystem.documentDirectory}pixie-pal.log` : null;
+
+// EXPO_PUBLIC_LOG_LEVEL sets the lowest level kept; EXPO_PUBLIC_LOG_COLLECTOR_URL turns on the HTTP sink
+export function configureLogSinks(target: Logger = logger): void {
+  const level = process.env.EXPO_PUBLIC_LOG_LEVEL as LogLevel | undefined;
+  if (level && LOG_LEVELS.includes(level)) {
+    target.setMinLevel(level);
+  }
+  if (LOG_FILE_PATH) {
+    target.addSink(createFileSink({ path: LOG_FILE_PATH, minLevel: 'info' }));
+  }
+  const collectorUrl = process.env.EXPO_PUBLIC_LOG_COLLECTOR_URL;
+  if (collectorUrl) {
+    target.addSink(createHttpSink({ url: collectorUrl }));
+  }
+}
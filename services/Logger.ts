@@ -0,0 +1,158 @@
+// Logger - leveled, tagged log entries with structured fields, in place of bare console.log traces
+// Every entry lands in an in-memory ring buffer (see app/logs.tsx) and is handed to each sink (see LogSinks.ts)
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFields = Record<string, unknown>;
+
+export interface LogEntry {
+  id: number;
+  at: string;
+  level: LogLevel;
+  tag: string; // the module that logged it
+  message: string;
+  fields?: LogFields;
+}
+
+export interface LogSink {
+  readonly name: string;
+  minLevel?: LogLevel;
+  write(entry: LogEntry): void;
+  flush?(): Promise<void>;
+}
+
+export interface TaggedLogger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+export interface LoggerOptions {
+  bufferSize?: number;
+  minLevel?: LogLevel;
+  sinks?: LogSink[];
+  now?: () => Date;
+}
+
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+export const isAtLeast = (level: LogLevel, minLevel: LogLevel): boolean =>
+  LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(minLevel);
+
+// Errors don't survive JSON.stringify, so sinks get their name and message instead
+const toFieldValue = (value: unknown): unknown =>
+  value instanceof Error ? { name: value.name, message: value.message } : value;
+
+const normalizeFields = (fields: LogFields): LogFields =>
+  Object.fromEntries(Object.entries(fields).map(([key, value]) => [key, toFieldValue(value)]));
+
+export const formatLogEntry = ({ level, tag, message, fields }: LogEntry): string =>
+  `${level.toUpperCase()} [${tag}] ${message}${fields ? ` ${JSON.stringify(fields)}` : ''}`;
+
+// Everything goes through console.log: in development console.warn/error pop LogBox over the app for failures we already handle
+export const consoleSink: LogSink = {
+  name: 'console',
+  write(entry) {
+    console.log(formatLogEntry(entry));
+  }
+};
+
+export class Logger {
+  private entries: LogEntry[] = [];
+  private sinks: LogSink[];
+  private listeners = new Set<(entry: LogEntry) => void>();
+  private bufferSize: number;
+  private minLevel: LogLevel;
+  private now: () => Date;
+  private nextId = 1;
+
+  constructor({ bufferSize = 500, minLevel = 'debug', sinks = [], now = () => new Date() }: LoggerOptions = {}) {
+    this.bufferSize = bufferSize;
+    this.minLevel = minLevel;
+    this.sinks = [...sinks];
+    this.now = now;
+  }
+
+  withTag(tag: string): TaggedLogger {
+    return {
+      debug: (message, fields) => this.log('debug', tag, message, fields),
+      info: (message, fields) => this.log('info', tag, message, fields),
+      warn: (message, fields) => this.log('warn', tag, message, fields),
+      error: (message, fields) => this.log('error', tag, message, fields)
+    };
+  }
+
+  log(level: LogLevel, tag: string, message: string, fields?: LogFields): void {
+    if (!isAtLeast(level, this.minLevel)) {
+      return;
+    }
+
+    const entry: LogEntry = {
+      id: this.nextId++,
+      at: this.now().toISOString(),
+      level,
+      tag,
+      message,
+      ...(fields && Object.keys(fields).length > 0 ? { fields: normalizeFields(fields) } : {})
+    };
+
+    this.entries.push(entry);
+    if (this.entries.length > this.bufferSize) {
+      this.entries.shift();
+    }
+
+    // A broken sink must never take the caller down with it
+    this.sinks
+      .filter(sink => !sink.minLevel || isAtLeast(level, sink.minLevel))
+      .forEach(sink => {
+        try {
+          sink.write(entry);
+        } catch (error) {
+          console.log(`Log sink ${sink.name} failed:`, error);
+        }
+      });
+    this.listeners.forEach(listener => listener(entry));
+  }
+
+  setMinLevel(level: LogLevel): void {
+    this.minLevel = level;
+  }
+
+  // Replaces a sink with the same name, so configuring twice doesn't double up
+  addSink(sink: LogSink): void {
+    this.sinks = [...this.sinks.filter(existing => existing.name !== sink.name), sink];
+  }
+
+  removeSink(name: string): void {
+    this.sinks = this.sinks.filter(sink => sink.name !== name);
+  }
+
+  getSinkNames(): string[] {
+    return this.sinks.map(sink => sink.name);
+  }
+
+  async flush(): Promise<void> {
+    await Promise.all(this.sinks.map(sink => sink.flush?.()));
+  }
+
+  // Oldest first
+  getEntries(): LogEntry[] {
+    return [...this.entries];
+  }
+
+  clear(): void {
+    this.entries = [];
+  }
+
+  subscribe(listener: (entry: LogEntry) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+// Console output in development only, and not under jest, where it would bury the test results;
+// LogSinks.configureLogSinks adds the rest at startup
+export const logger = new Logger({ sinks: __DEV__ && process.env.NODE_ENV !== 'test' ? [consoleSink] : [] });
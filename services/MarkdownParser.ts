@@ -0,0 +1,145 @@
+// Markdown Parser - the small slice of markdown chat models actually write, parsed into blocks for rendering
+// Headings, bullet and numbered lists, bold, italic, inline code and links; everything else stays literal text
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'bold'; children: MarkdownInline[] }
+  | { type: 'italic'; children: MarkdownInline[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; children: MarkdownInline[] };
+
+export interface MarkdownListItem {
+  depth: number; // 0 for top-level items, 1+ for indented ones
+  children: MarkdownInline[];
+}
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: number; children: MarkdownInline[] }
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'list'; ordered: boolean; start: number; items: MarkdownListItem[] }
+  | { type: 'rule' };
+
+const HEADING = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const BULLET = /^(\s*)[-*+•]\s+(.*)$/;
+const NUMBERED = /^(\s*)(\d{1,3})[.)]\s+(.*)$/;
+const RULE = /^\s*(?:-{3,}|\*{3,}|_{3,})\s*$/;
+
+// Earliest match wins; `*` and `_` only count when they hug a word, so "5 * 3" and snake_case stay as typed
+const INLINE = new RegExp([
+  '`([^`\\n]+)`',
+  '\\*\\*(?!\\s)(.+?)\\*\\*',
+  '__(?!\\s)(.+?)__(?!\\w)',
+  '\\[([^\\]\\n]+)\\]\\(\\s*([^)\\s]+)\\s*\\)',
+  '(?<![\\w*])\\*(?![\\s*])(.+?)(?<![\\s*])\\*(?![\\w*])',
+  '(?<![\\w_])_(?![\\s_])(.+?)(?<![\\s_])_(?![\\w_])',
+  '(https?:\\/\\/[^\\s<>()]*[^\\s<>().,!?;:\'"])'
+].join('|'));
+
+// Links that can't leave the chat safely (javascript:, relative paths) render as their label
+const isSafeHref = (href: string): boolean => /^(?:https?:\/\/|mailto:)/i.test(href);
+
+const pushText = (nodes: MarkdownInline[], text: string) => {
+  if (!text) return;
+  const last = nodes[nodes.length - 1];
+  if (last?.type === 'text') {
+    last.text += text;
+  } else {
+    nodes.push({ type: 'text', text });
+  }
+};
+
+export function parseInline(text: string): MarkdownInline[] {
+  const nodes: MarkdownInline[] = [];
+  let rest = text;
+
+  while (rest) {
+    const match = rest.match(INLINE);
+    if (!match || match.index === undefined) {
+      pushText(nodes, rest);
+      break;
+    }
+
+    pushText(nodes, rest.slice(0, match.index));
+    const [whole, code, bold, boldUnderscore, label, href, italic, italicUnderscore, url] = match;
+
+    if (code !== undefined) {
+      nodes.push({ type: 'code', text: code });
+    } else if (bold !== undefined || boldUnderscore !== undefined) {
+      nodes.push({ type: 'bold', children: parseInline(bold ?? boldUnderscore) });
+    } else if (label !== undefined) {
+      if (isSafeHref(href)) {
+        nodes.push({ type: 'link', href, children: parseInline(label) });
+      } else {
+        parseInline(label).forEach(node => (node.type === 'text' ? pushText(nodes, node.text) : nodes.push(node)));
+      }
+    } else if (italic !== undefined || italicUnderscore !== undefined) {
+      nodes.push({ type: 'italic', children: parseInline(italic ?? italicUnderscore) });
+    } else if (url !== undefined) {
+      nodes.push({ type: 'link', href: url, children: [{ type: 'text', text: url }] });
+    }
+
+    rest = rest.slice(match.index + whole.length);
+  }
+
+  return nodes;
+}
+
+const indentDepth = (indent: string): number => Math.floor(indent.replace(/\t/g, '  ').length / 2);
+
+export function parseMarkdown(markdown: string): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  let paragraph: string[] = [];
+  let openItem: { item: MarkdownListItem; text: string } | null = null; // list item that indented lines continue
+
+  const closeParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) });
+      paragraph = [];
+    }
+  };
+
+  // Consecutive items share one list, even across a blank line; nested items join whatever list they're under
+  const addListItem = (ordered: boolean, start: number, indent: string, text: string) => {
+    closeParagraph();
+    const item: MarkdownListItem = { depth: indentDepth(indent), children: parseInline(text.trim()) };
+    const last = blocks[blocks.length - 1];
+    if (last?.type === 'list' && (last.ordered === ordered || item.depth > 0)) {
+      last.items.push(item);
+    } else {
+      blocks.push({ type: 'list', ordered, start, items: [item] });
+    }
+    openItem = { item, text: text.trim() };
+  };
+
+  markdown.replace(/\r\n?/g, '\n').split('\n').forEach(line => {
+    const heading = line.match(HEADING);
+    const bullet = line.match(BULLET);
+    const numbered = line.match(NUMBERED);
+
+    if (!line.trim()) {
+      closeParagraph();
+      openItem = null;
+    } else if (RULE.test(line)) {
+      closeParagraph();
+      blocks.push({ type: 'rule' });
+      openItem = null;
+    } else if (heading) {
+      closeParagraph();
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2]) });
+      openItem = null;
+    } else if (bullet) {
+      addListItem(false, 1, bullet[1], bullet[2]);
+    } else if (numbered) {
+      addListItem(true, parseInt(numbered[2], 10), numbered[1], numbered[3]);
+    } else if (openItem && /^\s{2,}\S/.test(line)) {
+      openItem.text += `\n${line.trim()}`;
+      openItem.item.children = parseInline(openItem.text);
+    } else {
+      paragraph.push(line);
+      openItem = null;
+    }
+  });
+
+  closeParagraph();
+  return blocks;
+}
@@ -0,0 +1,71 @@
+// Message Payloads - typed answer data the chat renders as cards instead of markdown
+// Handlers attach one next to their text; the text is still what gets spoken and kept as chat history
+import type { ParkId } from './PixiePalDataService';
+
+export interface RideWaitRow {
+  name: string;
+  park: ParkId;
+  waitTime: number;
+  isOpen: boolean;
+  hasLightningLane?: boolean;
+  land?: string;
+}
+
+export interface ShowRow {
+  name: string;
+  times: string[];
+  location: string;
+  nextTime?: string | null; // null when today's performances are over
+  countdown?: string | null;
+}
+
+export interface CharacterMeetRow {
+  characters: string[];
+  park: ParkId;
+  location: string;
+  times: string[];
+}
+
+export interface ParkHoursRow {
+  label: string; // "Today (07-20-2025)", "Typical"
+  hours: string; // "9:00 AM - 11:00 PM" or "Closed"
+}
+
+export type CardSection =
+  | { kind: 'ride_waits'; heading?: string; rides: RideWaitRow[] }
+  | { kind: 'show_schedule'; heading?: string; shows: ShowRow[] }
+  | { kind: 'character_meets'; heading?: string; meets: CharacterMeetRow[] }
+  | { kind: 'park_hours'; heading?: string; days: ParkHoursRow[] }
+  | { kind: 'note'; text: string };
+
+export interface MessagePayload {
+  title: string;
+  notice?: string | null; // stale or cached data warning
+  sections: CardSection[];
+  actionCue?: string;
+}
+
+export const rideWaitsCard = (title: string, rides: RideWaitRow[], extra: Partial<MessagePayload> = {}): MessagePayload => ({
+  title,
+  sections: [{ kind: 'ride_waits', rides }],
+  ...extra
+});
+
+export const noteCard = (title: string, text: string, actionCue?: string): MessagePayload => ({
+  title,
+  sections: [{ kind: 'note', text }],
+  actionCue
+});
+
+// Alerts ask for a real drop - half the current wait, rounded down to 5 minutes
+export const alertThreshold = (waitTime: number): number => Math.max(5, Math.floor(waitTime / 10) * 5);
+
+// What tapping a row asks Pixie Pal; phrased so the classifier routes it to the right answer
+export const rideAlertQuestion = (ride: Pick<RideWaitRow, 'name' | 'waitTime' | 'isOpen'>): string =>
+  ride.isOpen
+    ? `Tell me when ${ride.name} is under ${alertThreshold(ride.waitTime)} minutes`
+    : `Tell me when ${ride.name} reopens`;
+
+export const rideTrendQuestion = (ride: Pick<RideWaitRow, 'name'>): string => `Is the line for ${ride.name} going down?`;
+
+export const characterQuestion = (meet: Pick<CharacterMeetRow, 'characters'>): string => `Where can I meet ${meet.characters[0]}?`;
@@ -0,0 +1,93 @@
+// Park Data Cache - two-level cache (memory + AsyncStorage) for Disney proxy responses
+// Entries are keyed by endpoint and park so every proxy route caches independently
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { logger } from './Logger';
+
+const log = logger.withTag('cache');
+
+export interface CacheEntry<T> {
+  value: T;
+  fetchedAt: number;
+}
+
+const STORAGE_PREFIX = 'pixie_pal_cache:';
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readEntry = (stored: unknown, isValue: (value: unknown) => boolean): CacheEntry<unknown> | null =>
+  isRecord(stored) && typeof stored.fetchedAt === 'number' && Number.isFinite(stored.fetchedAt) &&
+    stored.value !== undefined && isValue(stored.value)
+    ? { value: stored.value, fetchedAt: stored.fetchedAt }
+    : null;
+
+export class ParkDataCache {
+  private memory = new Map<string, CacheEntry<unknown>>();
+
+  private getKey(endpoint: string, parkId: string): string {
+    return `${STORAGE_PREFIX}${endpoint}:${parkId}`;
+  }
+
+  // Read an entry from memory, falling back to AsyncStorage (survives app restarts)
+  // isValue checks the stored value's shape; entries that don't pass are removed, as if never cached
+  async get<T>(endpoint: string, parkId: string, isValue: (value: unknown) => boolean = () => true): Promise<CacheEntry<T> | null> {
+    const key = this.getKey(endpoint, parkId);
+    const inMemory = this.memory.get(key);
+    if (inMemory) {
+      return inMemory as CacheEntry<T>;
+    }
+
+    try {
+      const stored = await AsyncStorage.getItem(key);
+      if (!stored) {
+        return null;
+      }
+
+      let parsed: unknown = null;
+      try {
+        parsed = JSON.parse(stored);
+      } catch (error) {
+        // Not JSON - dropped below with the other unreadable entries
+      }
+
+      const entry = readEntry(parsed, isValue);
+      if (!entry) {
+        log.warn('Dropping unreadable cache entry', { key });
+        await AsyncStorage.removeItem(key);
+        return null;
+      }
+
+      this.memory.set(key, entry);
+      return entry as CacheEntry<T>;
+    } catch (error) {
+      log.error('Failed to read cache entry', { key, error });
+      return null;
+    }
+  }
+
+  async set<T>(endpoint: string, parkId: string, value: T): Promise<void> {
+    const key = this.getKey(endpoint, parkId);
+    const entry: CacheEntry<T> = { value, fetchedAt: Date.now() };
+    this.memory.set(key, entry);
+
+    try {
+      await AsyncStorage.setItem(key, JSON.stringify(entry));
+    } catch (error) {
+      log.error('Failed to persist cache entry', { key, error });
+    }
+  }
+
+  async clear(): Promise<void> {
+    this.memory.clear();
+
+    try {
+      const keys = await AsyncStorage.getAllKeys();
+      const cacheKeys = keys.filter(key => key.startsWith(STORAGE_PREFIX));
+      if (cacheKeys.length > 0) {
+        await AsyncStorage.multiRemove(cacheKeys);
+      }
+    } catch (error) {
+      log.error('Failed to clear park data cache', { error });
+    }
+  }
+}
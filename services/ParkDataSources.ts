@@ -0,0 +1,158 @@
+// Park Data Sources - where UnifiedPixiePalService gets its raw proxy payloads from
+// HTTP proxy in the app, recorded fixtures or in-memory data for offline runs and tests
+import { LogFields, logger } from './Logger';
+import type { ParkId } from './PixiePalDataService';
+
+const log = logger.withTag('proxy');
+
+export type ProxyEndpoint = 'wait-times' | 'park-hours' | 'entertainment' | 'parade-times' | 'character-meets';
+
+// Recorded payloads keyed the same way as the proxy routes: endpoint -> proxy park id -> body
+export type ParkDataFixtures = Partial<Record<ProxyEndpoint, Record<string, unknown>>>;
+
+export interface ParkDataSource {
+  readonly name: string;
+  fetch(endpoint: ProxyEndpoint, parkId: ParkId): Promise<unknown>;
+}
+
+export const DEFAULT_PROXY_BASE_URL = 'https://disney-data-proxy.onrender.com';
+
+export const PROXY_PARK_IDS: Record<ParkId, string> = {
+  magicKingdom: 'magic-kingdom',
+  epcot: 'epcot',
+  hollywoodStudios: 'hollywood-studios',
+  animalKingdom: 'animal-kingdom'
+};
+
+// Talks to the Disney data proxy over HTTP
+export class HttpProxyDataSource implements ParkDataSource {
+  readonly name = 'http';
+  private baseUrl: string;
+  private timeoutMs: number;
+
+  constructor(baseUrl: string = DEFAULT_PROXY_BASE_URL, timeoutMs: number = 15000) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.timeoutMs = timeoutMs;
+  }
+
+  getUrl(endpoint: ProxyEndpoint, parkId: ParkId): string {
+    return `${this.baseUrl}/api/disney/${endpoint}/${PROXY_PARK_IDS[parkId]}`;
+  }
+
+  async fetch(endpoint: ProxyEndpoint, parkId: ParkId): Promise<unknown> {
+    // Give up on a cold/hung proxy so callers can fall back instead of spinning
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.timeoutMs);
+    const startedAt = Date.now();
+
+    // Latency and outcome of every proxy call: ok, http_error, invalid_json, timeout or network_error
+    const report = (outcome: string, fields: LogFields = {}) => {
+      const entry = { endpoint, park: parkId, outcome, latencyMs: Date.now() - startedAt, ...fields };
+      if (outcome === 'ok') {
+        log.info('Proxy fetch', entry);
+      } else {
+        log.warn('Proxy fetch failed', entry);
+      }
+    };
+
+    try {
+      const response = await fetch(this.getUrl(endpoint, parkId), {
+        headers: { 'Accept': 'application/json' },
+        signal: controller.signal
+      }).catch(error => {
+        report(controller.signal.aborted ? 'timeout' : 'network_error', { error });
+        throw error;
+      });
+
+      if (!response.ok) {
+        report('http_error', { status: response.status });
+        throw new Error(`HTTP ${response.status}`);
+      }
+
+      const body = await response.json().catch(error => {
+        report('invalid_json', { status: response.status, error });
+        throw error;
+      });
+      report('ok', { status: response.status });
+      return body;
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+}
+
+// Serves recorded proxy responses (see fixtures/disney-proxy.json), no network needed
+export class FixtureDataSource implements ParkDataSource {
+  readonly name = 'fixture';
+  private fixtures: ParkDataFixtures;
+
+  constructor(fixtures: ParkDataFixtures) {
+    this.fixtures = fixtures;
+  }
+
+  async fetch(endpoint: ProxyEndpoint, parkId: ParkId): Promise<unknown> {
+    const payload = this.fixtures[endpoint]?.[PROXY_PARK_IDS[parkId]];
+    if (payload === undefined) {
+      throw new Error(`No fixture for ${endpoint}/${PROXY_PARK_IDS[parkId]}`);
+    }
+
+    // Hand out copies so callers can't mutate the recording
+    return JSON.parse(JSON.stringify(payload));
+  }
+}
+
+// Mutable source for tests: set payloads or failures per endpoint and park
+export class InMemoryDataSource implements ParkDataSource {
+  readonly name = 'memory';
+  readonly requests: Array<{ endpoint: ProxyEndpoint; parkId: ParkId }> = [];
+  private payloads = new Map<string, unknown>();
+  private failures = new Map<string, Error>();
+
+  private getKey(endpoint: ProxyEndpoint, parkId: ParkId): string {
+    return `${endpoint}:${parkId}`;
+  }
+
+  set(endpoint: ProxyEndpoint, parkId: ParkId, payload: unknown): this {
+    const key = this.getKey(endpoint, parkId);
+    this.failures.delete(key);
+    this.payloads.set(key, payload);
+    return this;
+  }
+
+  fail(endpoint: ProxyEndpoint, parkId: ParkId, error: Error = new Error('HTTP 500')): this {
+    this.failures.set(this.getKey(endpoint, parkId), error);
+    return this;
+  }
+
+  clear(): void {
+    this.payloads.clear();
+    this.failures.clear();
+    this.requests.length = 0;
+  }
+
+  async fetch(endpoint: ProxyEndpoint, parkId: ParkId): Promise<unknown> {
+    this.requests.push({ endpoint, parkId });
+    const key = this.getKey(endpoint, parkId);
+
+    const failure = this.failures.get(key);
+    if (failure) {
+      throw failure;
+    }
+    if (!this.payloads.has(key)) {
+      throw new Error(`No data for ${key}`);
+    }
+
+    return JSON.parse(JSON.stringify(this.payloads.get(key)));
+  }
+}
+
+// EXPO_PUBLIC_PARK_DATA_SOURCE=fixture runs the app on recorded data;
+// EXPO_PUBLIC_DISNEY_PROXY_URL points the HTTP source at another proxy
+export function createDefaultDataSource(): ParkDataSource {
+  if (process.env.EXPO_PUBLIC_PARK_DATA_SOURCE === 'fixture') {
+    log.info('Using recorded Disney proxy fixtures');
+    return new FixtureDataSource(require('../fixtures/disney-proxy.json'));
+  }
+
+  return new HttpProxyDataSource(process.env.EXPO_PUBLIC_DISNEY_PROXY_URL || DEFAULT_PROXY_BASE_URL);
+}
@@ -0,0 +1,163 @@
+// Park Refresh Scheduler - keeps live wait times current while the app is open
+// Polls the park the guest is looking at more often than the others, pauses in the
+// background and backs off exponentially while the proxy is failing
+import { AppState, AppStateStatus, NativeEventSubscription } from 'react-native';
+import { logger } from './Logger';
+import { ALL_PARK_IDS, ParkData, ParkId, UnifiedPixiePalService } from './PixiePalDataService';
+
+const log = logger.withTag('refresh');
+
+export interface RefreshSchedulerOptions {
+  onWaitTimes: (data: ParkData) => void;
+  onRefreshed?: (refreshedAt: Date) => void;
+  parkIds?: ParkId[];
+  currentParkInterval?: number;
+  otherParksInterval?: number;
+  maxBackoff?: number;
+}
+
+export class ParkRefreshScheduler {
+  private service: UnifiedPixiePalService;
+  private options: Required<Omit<RefreshSchedulerOptions, 'onRefreshed'>> & Pick<RefreshSchedulerOptions, 'onRefreshed'>;
+  private currentPark: ParkId | null = null;
+  private timers = new Map<ParkId, ReturnType<typeof setTimeout>>();
+  private failures = new Map<ParkId, number>();
+  private lastAttempt = new Map<ParkId, number>();
+  private lastRefreshed: Date | null = null;
+  private appStateSubscription: NativeEventSubscription | null = null;
+  private running = false;
+  private paused = false;
+
+  constructor(service: UnifiedPixiePalService, options: RefreshSchedulerOptions) {
+    this.service = service;
+    this.options = {
+      parkIds: ALL_PARK_IDS,
+      currentParkInterval: 2 * 60 * 1000, // 2 minutes
+      otherParksInterval: 10 * 60 * 1000, // 10 minutes
+      maxBackoff: 30 * 60 * 1000, // 30 minutes
+      ...options
+    };
+  }
+
+  // Data was just loaded, so the first poll for each park waits a full interval
+  start(): void {
+    if (this.running) {
+      return;
+    }
+
+    log.info('Starting live wait time refresh');
+    this.running = true;
+    this.paused = AppState.currentState === 'background';
+    this.appStateSubscription = AppState.addEventListener('change', this.handleAppStateChange);
+
+    const now = Date.now();
+    this.options.parkIds.forEach(parkId => {
+      this.lastAttempt.set(parkId, now);
+      if (!this.paused) {
+        this.schedule(parkId, this.getInterval(parkId));
+      }
+    });
+  }
+
+  stop(): void {
+    log.info('Stopping live wait time refresh');
+    this.running = false;
+    this.appStateSubscription?.remove();
+    this.appStateSubscription = null;
+    this.clearTimers();
+  }
+
+  // The new current park refreshes right away if its data is older than the fast interval
+  setCurrentPark(parkId: ParkId | null): void {
+    if (parkId === this.currentPark) {
+      return;
+    }
+
+    const previousPark = this.currentPark;
+    this.currentPark = parkId;
+    if (!this.running || this.paused) {
+      return;
+    }
+
+    [previousPark, parkId].forEach(park => {
+      if (park) {
+        this.scheduleFromLastAttempt(park);
+      }
+    });
+  }
+
+  getLastRefreshed(): Date | null {
+    return this.lastRefreshed;
+  }
+
+  getInterval(parkId: ParkId): number {
+    const base = parkId === this.currentPark ? this.options.currentParkInterval : this.options.otherParksInterval;
+    const failures = this.failures.get(parkId) || 0;
+    return Math.min(base * 2 ** failures, this.options.maxBackoff);
+  }
+
+  async refreshNow(parkId: ParkId): Promise<void> {
+    this.clearTimer(parkId);
+    this.lastAttempt.set(parkId, Date.now());
+
+    const data = await this.service.getWaitTimes(parkId, { forceRefresh: true });
+    if (!this.running) {
+      return;
+    }
+
+    this.options.onWaitTimes(data);
+
+    if (data.origin === 'live') {
+      this.failures.set(parkId, 0);
+      this.lastRefreshed = new Date(data.fetchedAt);
+      this.options.onRefreshed?.(this.lastRefreshed);
+    } else {
+      this.failures.set(parkId, (this.failures.get(parkId) || 0) + 1);
+      log.warn('Refresh failed', { park: parkId, failures: this.failures.get(parkId), retryInMs: this.getInterval(parkId) });
+    }
+
+    if (!this.paused) {
+      this.schedule(parkId, this.getInterval(parkId));
+    }
+  }
+
+  private handleAppStateChange = (state: AppStateStatus): void => {
+    if (state === 'active' && this.paused) {
+      log.info('App active again, resuming refresh');
+      this.paused = false;
+      this.options.parkIds.forEach(parkId => this.scheduleFromLastAttempt(parkId));
+    } else if (state === 'background' && !this.paused) {
+      log.info('App backgrounded, pausing refresh');
+      this.paused = true;
+      this.clearTimers();
+    }
+  };
+
+  private scheduleFromLastAttempt(parkId: ParkId): void {
+    const elapsed = Date.now() - (this.lastAttempt.get(parkId) || 0);
+    this.schedule(parkId, Math.max(0, this.getInterval(parkId) - elapsed));
+  }
+
+  private schedule(parkId: ParkId, delay: number): void {
+    this.clearTimer(parkId);
+    this.timers.set(parkId, setTimeout(() => {
+      this.timers.delete(parkId);
+      this.refreshNow(parkId).catch(error => {
+        log.error('Refresh error', { park: parkId, error });
+      });
+    }, delay));
+  }
+
+  private clearTimer(parkId: ParkId): void {
+    const timer = this.timers.get(parkId);
+    if (timer) {
+      clearTimeout(timer);
+      this.timers.delete(parkId);
+    }
+  }
+
+  private clearTimers(): void {
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+  }
+}
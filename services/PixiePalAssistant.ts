@@ -0,0 +1,150 @@
+// Pixie Pal Assistant - the model call, built around tool calling
+// The model asks for the wait times, hours and showtimes it needs instead of reading every park's data up front
+import { AssistantToolbox, ToolResult, assistantTools } from './AssistantTools';
+import { ChatMessage, ChatModel, CompletionOptions, createDefaultChatModel } from './ChatModels';
+import type { ConversationTurn } from './ConversationState';
+import { logger } from './Logger';
+import { UsageMeter, usageMeter } from './UsageMeter';
+
+export interface AssistantRequest {
+  parkName: string;
+  question: string;
+  history?: ConversationTurn[];
+  followUpContext?: string | null;
+}
+
+export interface AssistantAnswer {
+  text: string;
+  toolResults: ToolResult[];
+}
+
+const log = logger.withTag('assistant');
+
+// Guests ask one thing at a time; a few rounds covers "compare Rise and Slinky, then check closing time"
+const MAX_TOOL_ROUNDS = 4;
+const FALLBACK_ANSWER = 'Something magical happened! ✨ Try asking about wait times or shows!';
+
+export const buildAssistantPrompt = ({ parkName, followUpContext }: Pick<AssistantRequest, 'parkName' | 'followUpContext'>): string =>
+  `You are Pixie Pal, the warmest Disney assistant! 🏰
+
+CURRENT PARK: ${parkName}
+EARLIER IN THIS CHAT: ${followUpContext || 'nothing yet'} (use it when the guest says "it", "there" or "what about...")
+
+📡 LIVE DATA:
+• Call the tools for wait times, park hours and showtimes - never guess them
+• Tools work for every park, so compare parks when the guest asks
+• Only quote numbers a tool returned; if a tool returns an error, say the info isn't available
+• Mention the data age when a tool's dataAge is more than a few minutes old
+
+📋 DISNEY UX RESPONSE RULES:
+
+**Structure Every Response:**
+1. **Header** (bold + icon, NO timestamp)
+2. **Well-spaced content** with clear visual breaks
+3. **Action cue** (one friendly sentence ending with ✨)
+
+**Visual Formatting:**
+• Markdown is rendered: **bold**, *italic*, "- " bullets, numbered lists and [links](https://...)
+• Add blank lines between items for spacing
+• Use ✨ **🎢 Section Name** ✨ for section headers (NO ugly lines!)
+• Format wait times as "⏰ 25 min ⚡"
+• Use 📍 for locations, 🕐 for times
+• Maximum 5 items per section
+
+**Content Rules:**
+• Welcoming & optimistic tone
+• Max 2 emojis per response
+• Keep under 120 words
+• Use "Great news!" for short waits
+• Clear visual hierarchy
+
+**Response Examples:**
+"**Space Mountain**\\n\\n⏰ 25 min ⚡\\n\\n📍 Tomorrowland, Magic Kingdom"
+
+"**Festival of Fantasy Parade**\\n\\n🕐 3:00 PM, 5:30 PM\\n\\n📍 Main Street USA"
+
+Answer with clear sections and visual breaks! ✨`;
+
+export class PixiePalAssistant {
+  private model: ChatModel;
+  private toolbox: AssistantToolbox;
+  private meter: UsageMeter;
+
+  constructor(model: ChatModel = createDefaultChatModel(), toolbox: AssistantToolbox = assistantTools, meter: UsageMeter = usageMeter) {
+    this.model = model;
+    this.toolbox = toolbox;
+    this.meter = meter;
+  }
+
+  getModel(): ChatModel {
+    return this.model;
+  }
+
+  // Swap the model without touching the screen (another provider, a local server, a scripted stand-in)
+  setModel(model: ChatModel): void {
+    log.info('Switching chat model', { model: model.name });
+    this.model = model;
+  }
+
+  // Pass onText to stream the answer as it's written, and a signal to cancel it. Text streams as soon as it
+  // arrives; if the round then turns to tool calls, onToolCalls says to drop what was streamed so far
+  // Throws a UsageCapError instead of calling the model once a token cap is reached
+  async answer(request: AssistantRequest, options: CompletionOptions = {}): Promise<AssistantAnswer> {
+    const messages: ChatMessage[] = [
+      { role: 'system', content: buildAssistantPrompt(request) },
+      ...(request.history || []),
+      { role: 'user', content: request.question }
+    ];
+    const toolResults: ToolResult[] = [];
+    const { onText, onToolCalls } = options;
+
+    for (let round = 0; round <= MAX_TOOL_ROUNDS; round++) {
+      // The last round goes out without tools so the model has to answer with what it has
+      const chatRequest = { messages, tools: round < MAX_TOOL_ROUNDS ? this.toolbox.getDefinitions() : undefined };
+      let callsTools = false;
+      const toolCallsStarted = () => {
+        if (!callsTools) {
+          callsTools = true;
+          onToolCalls?.();
+        }
+      };
+      const roundOptions: CompletionOptions = {
+        ...options,
+        onText: onText && ((chunk: string) => { if (!callsTools) onText(chunk); }),
+        onToolCalls: toolCallsStarted
+      };
+      const estimate = await this.meter.check(chatRequest);
+      const startedAt = Date.now();
+      const reply = await this.model.complete(chatRequest, roundOptions).catch(error => {
+        log.warn('Model call failed', { model: this.model.name, round, latencyMs: Date.now() - startedAt, error });
+        throw error;
+      });
+      log.info('Model call', {
+        model: this.model.name,
+        round,
+        latencyMs: Date.now() - startedAt,
+        streamed: Boolean(options.onText),
+        toolCalls: reply.toolCalls.length,
+        ...(reply.usage || { estimatedPromptTokens: estimate })
+      });
+      await this.meter.record(estimate, reply);
+
+      if (reply.toolCalls.length === 0) {
+        return { text: reply.content || FALLBACK_ANSWER, toolResults };
+      }
+
+      // For models that don't announce tool calls while streaming
+      toolCallsStarted();
+      messages.push({ role: 'assistant', content: reply.content, toolCalls: reply.toolCalls });
+      const results = await Promise.all(reply.toolCalls.map(call => this.toolbox.run(call)));
+      results.forEach(result => {
+        toolResults.push(result);
+        messages.push({ role: 'tool', toolCallId: result.toolCallId, content: result.content });
+      });
+    }
+
+    return { text: FALLBACK_ANSWER, toolResults };
+  }
+}
+
+export const pixiePalAssistant = new PixiePalAssistant();
@@ -1,8 +1,21 @@
 // Unified PixiePal Data Service - Disney Proxy Only (Recommended)
 // Simplifies your architecture by using ONLY your Disney proxy for everything
-import AsyncStorage from '@react-native-async-storage/async-storage';
-
-interface Attraction {
+import { logger } from './Logger';
+import { ParkDataCache } from './ParkDataCache';
+import { ParkDataSource, ProxyEndpoint, createDefaultDataSource } from './ParkDataSources';
+import {
+  ValidationResult,
+  ValidationWarning,
+  validateCharacterMeets,
+  validateEntertainment,
+  validateParkHours,
+  validateWaitTimes
+} from './ProxySchemas';
+import { WaitTimeHistory, WaitTimeSample, WaitTimeTrend } from './WaitTimeHistory';
+
+const log = logger.withTag('data');
+
+export interface Attraction {
   id: string;
   name: string;
   land?: string;
@@ -13,7 +26,16 @@ interface Attraction {
   park: string;
 }
 
-interface ParkData {
+// Where a response came from and how old it is
+export type DataOrigin = 'live' | 'cache' | 'fallback';
+
+export interface DataFreshness {
+  fetchedAt: string;
+  isStale: boolean;
+  origin: DataOrigin;
+}
+
+export interface ParkData extends DataFreshness {
   parkName: string;
   parkId: string;
   attractions: Attraction[];
@@ -21,14 +43,19 @@ interface ParkData {
   source: string;
 }
 
-interface ParkHours {
+export interface ParkHours {
   date: string;
   openingTime: string | null;
   closingTime: string | null;
   type: 'Operating' | 'Closed';
 }
 
-interface EntertainmentEvent {
+export interface ParkHoursData extends DataFreshness {
+  parkId: string;
+  schedule: ParkHours[];
+}
+
+export interface EntertainmentEvent {
   name: string;
   time?: string;
   times?: string[];  // ADD this line
@@ -37,206 +64,341 @@ interface EntertainmentEvent {
   type?: 'parade' | 'fireworks' | 'show' | 'character-meet';
 }
 
-type ParkId = 'magicKingdom' | 'epcot' | 'hollywoodStudios' | 'animalKingdom';
+export interface EntertainmentData extends DataFreshness {
+  parkId: string;
+  events: EntertainmentEvent[];
+}
+
+// One meet & greet spot; the proxy's character/characters and time/times are merged into lists
+export interface CharacterMeet {
+  id: string;
+  characters: string[];
+  location: string;
+  times: string[];
+  park: ParkId;
+  lastUpdated: string;
+}
+
+export interface CharacterMeetData extends DataFreshness {
+  parkId: string;
+  meets: CharacterMeet[];
+}
+
+export type ParkId = 'magicKingdom' | 'epcot' | 'hollywoodStudios' | 'animalKingdom';
+
+export const ALL_PARK_IDS: ParkId[] = ['magicKingdom', 'epcot', 'hollywoodStudios', 'animalKingdom'];
+
+export interface CompleteParkData {
+  parkId: ParkId;
+  waitTimes: ParkData;
+  parkHours: ParkHoursData;
+  entertainment: EntertainmentData;
+  parades: EntertainmentData;
+  characterMeets: CharacterMeetData;
+}
+
+export interface LoadAllParksOptions {
+  parkIds?: ParkId[];
+  signal?: AbortSignal;
+  onPark?: (data: CompleteParkData) => void;
+}
 
 export class UnifiedPixiePalService {
-  private disneyProxyBaseUrl: string;
+  private dataSource: ParkDataSource;
   private cacheTimeout: number;
-
-  constructor() {
-    console.log('🏰 Unified Pixie Pal Service - Disney Proxy Only');
-    this.disneyProxyBaseUrl = 'https://disney-data-proxy.onrender.com';
+  private staleWindow: number;
+  private cache: ParkDataCache;
+  private revalidations = new Map<string, Promise<void>>();
+  private validationWarnings: ValidationWarning[] = [];
+  private history: WaitTimeHistory;
+
+  constructor(
+    dataSource: ParkDataSource = createDefaultDataSource(),
+    cache: ParkDataCache = new ParkDataCache(),
+    history: WaitTimeHistory = new WaitTimeHistory()
+  ) {
+    log.info('Unified Pixie Pal Service ready', { dataSource: dataSource.name });
+    this.dataSource = dataSource;
     this.cacheTimeout = 5 * 60 * 1000; // 5 minutes
+    this.staleWindow = 60 * 60 * 1000; // serve stale data instantly for up to 1 hour
+    this.cache = cache;
+    this.history = history;
   }
 
-  // SIMPLIFIED: Get wait times from your Disney proxy
-  async getWaitTimes(parkId: ParkId): Promise<ParkData> {
-    try {
-      console.log(`🎢 Getting wait times for ${parkId} from Disney proxy...`);
-      
-      const parkMap = {
-        magicKingdom: 'magic-kingdom',
-        epcot: 'epcot',
-        hollywoodStudios: 'hollywood-studios',
-        animalKingdom: 'animal-kingdom'
-      };
-      
-      const proxyParkId = parkMap[parkId];
-      
-      // Try your proxy's wait times endpoint first
-      const waitTimesUrl = `${this.disneyProxyBaseUrl}/api/disney/wait-times/${proxyParkId}`;
-      
-      const response = await fetch(waitTimesUrl, {
-        headers: { 'Accept': 'application/json' }
-      });
+  getDataSource(): ParkDataSource {
+    return this.dataSource;
+  }
 
-      if (response.ok) {
-        const data = await response.json();
-        console.log(`✅ Got ${data.attractions?.length || 0} attractions from Disney proxy`);
-        
-        return {
-          parkName: this.getParkName(parkId),
-          parkId,
-          attractions: this.normalizeAttractions(data.attractions || [], parkId),
-          lastUpdated: new Date().toISOString(),
-          source: 'disney_proxy'
-        };
-      }
-      
-      throw new Error(`HTTP ${response.status}`);
-    } catch (error) {
-      console.log(`❌ Disney proxy failed for ${parkId}, using fallback:`, error);
-      return this.getFallbackWaitTimes(parkId);
-    }
+  // Most recent fields the proxy sent that failed validation (newest last)
+  getValidationWarnings(): ValidationWarning[] {
+    return [...this.validationWarnings];
   }
 
-  // Get park hours from your Disney proxy
-  async getParkHours(parkId: ParkId): Promise<ParkHours[]> {
-    try {
-      console.log(`🕐 Getting park hours for ${parkId} from Disney proxy...`);
-      
-      const parkMap = {
-        magicKingdom: 'magic-kingdom',
-        epcot: 'epcot',
-        hollywoodStudios: 'hollywood-studios',
-        animalKingdom: 'animal-kingdom'
-      };
-      
-      const proxyParkId = parkMap[parkId];
-      const url = `${this.disneyProxyBaseUrl}/api/disney/park-hours/${proxyParkId}`;
-      
-      const response = await fetch(url, {
-        headers: { 'Accept': 'application/json' }
-      });
+  // Swap where raw payloads come from (fixtures, in-memory data, another proxy)
+  setDataSource(dataSource: ParkDataSource): void {
+    log.info('Switching data source', { dataSource: dataSource.name });
+    this.dataSource = dataSource;
+  }
 
-      if (response.ok) {
-        const data = await response.json();
-        console.log(`✅ Got park hours for ${parkId}`);
-        return data.schedule || [];
-      }
-      
-      throw new Error(`HTTP ${response.status}`);
-    } catch (error) {
-      console.log(`❌ Failed to get park hours for ${parkId}:`, error);
-      return this.getFallbackParkHours(parkId);
-    }
+  // Drop every cached proxy response (memory and AsyncStorage)
+  async clearCache(): Promise<void> {
+    await this.cache.clear();
   }
 
-  // Get entertainment from your Disney proxy
-  async getEntertainment(parkId: ParkId): Promise<EntertainmentEvent[]> {
-    try {
-      console.log(`🎭 Getting entertainment for ${parkId} from Disney proxy...`);
-      
-      const parkMap = {
-        magicKingdom: 'magic-kingdom',
-        epcot: 'epcot',
-        hollywoodStudios: 'hollywood-studios',
-        animalKingdom: 'animal-kingdom'
-      };
-      
-      const proxyParkId = parkMap[parkId];
-      const url = `${this.disneyProxyBaseUrl}/api/disney/entertainment/${proxyParkId}`;
-      
-      const response = await fetch(url, {
-        headers: { 'Accept': 'application/json' }
-      });
+  // SIMPLIFIED: Get wait times from your Disney proxy (forceRefresh skips the cache, e.g. for polling)
+  async getWaitTimes(parkId: ParkId, { forceRefresh = false }: { forceRefresh?: boolean } = {}): Promise<ParkData> {
+    const result = await this.loadWithCache<Attraction[]>(
+      'wait-times',
+      parkId,
+      async () => {
+        log.debug('Getting wait times', { park: parkId });
+        const data = await this.dataSource.fetch('wait-times', parkId);
+        const attractions = this.recordWarnings(validateWaitTimes(data, parkId));
+        log.debug('Got wait times', { park: parkId, attractions: attractions.length });
+        await this.history.record(attractions);
+        return attractions;
+      },
+      () => this.getFallbackWaitTimes(parkId),
+      forceRefresh
+    );
 
-      if (response.ok) {
-        const data = await response.json();
-        console.log(`✅ Got entertainment for ${parkId}`);
-        return data.entertainment || [];
-      }
-      
-      throw new Error(`HTTP ${response.status}`);
-    } catch (error) {
-      console.log(`❌ Failed to get entertainment for ${parkId}:`, error);
-      return this.getFallbackEntertainment(parkId);
-    }
+    return {
+      parkName: this.getParkName(parkId),
+      parkId,
+      attractions: result.value,
+      lastUpdated: result.fetchedAt,
+      source: result.origin === 'fallback' ? 'fallback' : 'disney_proxy',
+      fetchedAt: result.fetchedAt,
+      isStale: result.isStale,
+      origin: result.origin
+    };
+  }
+
+  // Wait time history - every live wait time fetch is recorded, so these cover today's refreshes
+  async getWaitTimeTrend(attractionId: string, windowMinutes: number = 60): Promise<WaitTimeTrend> {
+    await this.history.load();
+    return this.history.getTrend(attractionId, windowMinutes);
+  }
+
+  async getLowestWaitToday(attractionId: string): Promise<WaitTimeSample | null> {
+    await this.history.load();
+    return this.history.getLowestToday(attractionId);
+  }
+
+  // Get park hours from your Disney proxy
+  async getParkHours(parkId: ParkId): Promise<ParkHoursData> {
+    const { value, ...freshness } = await this.loadWithCache<ParkHours[]>(
+      'park-hours',
+      parkId,
+      async () => {
+        log.debug('Getting park hours', { park: parkId });
+        const data = await this.dataSource.fetch('park-hours', parkId);
+        log.debug('Got park hours', { park: parkId });
+        return this.recordWarnings(validateParkHours(data, parkId));
+      },
+      () => this.getFallbackParkHours(parkId)
+    );
+
+    return { parkId, schedule: value, ...freshness };
+  }
+
+  // Get entertainment from your Disney proxy
+  async getEntertainment(parkId: ParkId): Promise<EntertainmentData> {
+    const { value, ...freshness } = await this.loadWithCache<EntertainmentEvent[]>(
+      'entertainment',
+      parkId,
+      async () => {
+        log.debug('Getting entertainment', { park: parkId });
+        const data = await this.dataSource.fetch('entertainment', parkId);
+        log.debug('Got entertainment', { park: parkId });
+        return this.recordWarnings(validateEntertainment(data, parkId));
+      },
+      () => this.getFallbackEntertainment(parkId)
+    );
+
+    return { parkId, events: value, ...freshness };
   }
 
   // Get parade times specifically
-  async getParadeTimes(parkId: ParkId): Promise<EntertainmentEvent[]> {
-    try {
-      console.log(`🎪 Getting parade times for ${parkId} from Disney proxy...`);
-      
-      const parkMap = {
-        magicKingdom: 'magic-kingdom',
-        epcot: 'epcot',
-        hollywoodStudios: 'hollywood-studios',
-        animalKingdom: 'animal-kingdom'
-      };
-      
-      const proxyParkId = parkMap[parkId];
-      const url = `${this.disneyProxyBaseUrl}/api/disney/parade-times/${proxyParkId}`;
-      
-      const response = await fetch(url, {
-        headers: { 'Accept': 'application/json' }
-      });
+  async getParadeTimes(parkId: ParkId): Promise<EntertainmentData> {
+    const { value, ...freshness } = await this.loadWithCache<EntertainmentEvent[]>(
+      'parade-times',
+      parkId,
+      async () => {
+        log.debug('Getting parade times', { park: parkId });
+        const data = await this.dataSource.fetch('parade-times', parkId);
+        log.debug('Got parade times', { park: parkId });
+        return this.recordWarnings(validateEntertainment(data, parkId, 'parade-times'));
+      },
+      () => this.getFallbackParadeTimes(parkId)
+    );
+
+    return { parkId, events: value, ...freshness };
+  }
 
-      if (response.ok) {
-        const data = await response.json();
-        console.log(`✅ Got parade times for ${parkId}`);
-        return data.parades || [];
-      }
-      
-      throw new Error(`HTTP ${response.status}`);
-    } catch (error) {
-      console.log(`❌ Failed to get parade times for ${parkId}:`, error);
-      return this.getFallbackParadeTimes(parkId);
-    }
+  // Get character meet & greets from your Disney proxy
+  async getCharacterMeets(parkId: ParkId): Promise<CharacterMeetData> {
+    const { value, ...freshness } = await this.loadWithCache<CharacterMeet[]>(
+      'character-meets',
+      parkId,
+      async () => {
+        log.debug('Getting character meets', { park: parkId });
+        const data = await this.dataSource.fetch('character-meets', parkId);
+        log.debug('Got character meets', { park: parkId });
+        return this.recordWarnings(validateCharacterMeets(data, parkId));
+      },
+      () => this.getFallbackCharacterMeets(parkId)
+    );
+
+    return { parkId, meets: value, ...freshness };
   }
 
   // COMPLETE: Get all park data in one call
-  async getCompleteParkData(parkId: ParkId): Promise<{
-    waitTimes: ParkData;
-    parkHours: ParkHours[];
-    entertainment: EntertainmentEvent[];
-    parades: EntertainmentEvent[];
-  }> {
+  async getCompleteParkData(parkId: ParkId): Promise<CompleteParkData> {
     try {
-      console.log(`🏰 Getting complete park data for ${parkId}...`);
+      log.debug('Getting complete park data', { park: parkId });
       
       // Get all data in parallel for speed
-      const [waitTimes, parkHours, entertainment, parades] = await Promise.all([
+      const [waitTimes, parkHours, entertainment, parades, characterMeets] = await Promise.all([
         this.getWaitTimes(parkId),
         this.getParkHours(parkId),
         this.getEntertainment(parkId),
-        this.getParadeTimes(parkId)
+        this.getParadeTimes(parkId),
+        this.getCharacterMeets(parkId)
       ]);
 
-      console.log(`✅ Complete park data loaded for ${parkId}`);
+      log.debug('Complete park data loaded', { park: parkId });
       
       return {
+        parkId,
         waitTimes,
         parkHours,
         entertainment,
-        parades
+        parades,
+        characterMeets
       };
     } catch (error) {
-      console.log(`❌ Error getting complete park data:`, error);
+      log.error('Error getting complete park data', { park: parkId, error });
       
       // Return fallback data for everything
+      const fallback = this.fallbackFreshness();
       return {
-        waitTimes: this.getFallbackWaitTimes(parkId),
-        parkHours: this.getFallbackParkHours(parkId),
-        entertainment: this.getFallbackEntertainment(parkId),
-        parades: this.getFallbackParadeTimes(parkId)
+        parkId,
+        waitTimes: this.getFallbackParkData(parkId),
+        parkHours: { parkId, schedule: this.getFallbackParkHours(parkId), ...fallback },
+        entertainment: { parkId, events: this.getFallbackEntertainment(parkId), ...fallback },
+        parades: { parkId, events: this.getFallbackParadeTimes(parkId), ...fallback },
+        characterMeets: { parkId, meets: this.getFallbackCharacterMeets(parkId), ...fallback }
       };
     }
   }
 
-  // Normalize attraction data from your proxy
-  private normalizeAttractions(attractions: any[], parkId: ParkId): Attraction[] {
-    return attractions.map((attraction, index) => ({
-      id: `${parkId}-${attraction.id || index}`,
-      name: attraction.name || 'Unknown Attraction',
-      land: attraction.land || attraction.area || 'Unknown Area',
-      waitTime: typeof attraction.waitTime === 'number' ? attraction.waitTime : 0,
-      isOpen: attraction.isOpen !== false,
-      hasLightningLane: attraction.hasLightningLane || attraction.fastPassAvailable || false,
-      lastUpdated: attraction.lastUpdated || new Date().toISOString(),
-      park: parkId
-    }));
+  // BULK: Load every park concurrently, publishing each park through onPark as soon as it lands.
+  // Aborting stops further onPark calls and rejects; requests already in flight still warm the cache.
+  async loadAllParks({ parkIds = ALL_PARK_IDS, signal, onPark }: LoadAllParksOptions = {}): Promise<CompleteParkData[]> {
+    const abortError = () => new Error('Park data load cancelled');
+    if (signal?.aborted) {
+      throw abortError();
+    }
+
+    log.info('Loading parks in parallel', { parks: parkIds.length });
+    const startedAt = Date.now();
+
+    const loads = parkIds.map(async parkId => {
+      const data = await this.getCompleteParkData(parkId);
+      if (!signal?.aborted) {
+        log.info('Park ready', { park: parkId, latencyMs: Date.now() - startedAt });
+        onPark?.(data);
+      }
+      return data;
+    });
+
+    // The signal may outlive many loads (one per refresh), so the listener goes once this load settles
+    let onAbort: (() => void) | null = null;
+    const cancelled = new Promise<never>((_, reject) => {
+      onAbort = () => reject(abortError());
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+
+    try {
+      return await Promise.race([Promise.all(loads), cancelled]);
+    } finally {
+      if (onAbort) {
+        signal?.removeEventListener('abort', onAbort);
+      }
+    }
+  }
+
+  // Stale-while-revalidate: fresh cache -> stale cache (refreshed in background) -> live -> last known -> fallback
+  // forceRefresh goes straight to live, still falling back to last known data on failure
+  private async loadWithCache<T>(
+    endpoint: ProxyEndpoint,
+    parkId: ParkId,
+    fetchLive: () => Promise<T>,
+    getFallback: () => T,
+    forceRefresh = false
+  ): Promise<{ value: T } & DataFreshness> {
+    // Every endpoint caches a list
+    const entry = await this.cache.get<T>(endpoint, parkId, Array.isArray);
+    const age = entry ? Date.now() - entry.fetchedAt : Infinity;
+
+    if (entry && age <= this.cacheTimeout && !forceRefresh) {
+      log.debug('Using cached data', { endpoint, park: parkId, ageMs: age });
+      return { value: entry.value, fetchedAt: new Date(entry.fetchedAt).toISOString(), isStale: false, origin: 'cache' };
+    }
+
+    if (entry && age <= this.staleWindow && !forceRefresh) {
+      log.info('Serving stale data, refreshing in background', { endpoint, park: parkId, ageMs: age });
+      this.revalidate(endpoint, parkId, fetchLive);
+      return { value: entry.value, fetchedAt: new Date(entry.fetchedAt).toISOString(), isStale: true, origin: 'cache' };
+    }
+
+    try {
+      const value = await fetchLive();
+      await this.cache.set(endpoint, parkId, value);
+      return { value, fetchedAt: new Date().toISOString(), isStale: false, origin: 'live' };
+    } catch (error) {
+      if (entry) {
+        log.warn('Proxy failed, using last known data', { endpoint, park: parkId, error });
+        return { value: entry.value, fetchedAt: new Date(entry.fetchedAt).toISOString(), isStale: true, origin: 'cache' };
+      }
+
+      log.warn('Proxy failed, using fallback data', { endpoint, park: parkId, error });
+      return { value: getFallback(), ...this.fallbackFreshness() };
+    }
+  }
+
+  // Refresh a cache entry without blocking the caller (one request per endpoint/park at a time)
+  private revalidate<T>(endpoint: ProxyEndpoint, parkId: ParkId, fetchLive: () => Promise<T>): void {
+    const key = `${endpoint}:${parkId}`;
+    if (this.revalidations.has(key)) {
+      return;
+    }
+
+    const revalidation = fetchLive()
+      .then(value => this.cache.set(endpoint, parkId, value))
+      .catch(error => {
+        log.warn('Background refresh failed', { endpoint, park: parkId, error });
+      })
+      .finally(() => {
+        this.revalidations.delete(key);
+      });
+
+    this.revalidations.set(key, revalidation);
+  }
+
+  // Keep the coerced value, log and remember what had to be fixed
+  private recordWarnings<T>(result: ValidationResult<T>): T {
+    if (result.warnings.length > 0) {
+      const { endpoint, parkId } = result.warnings[0];
+      log.warn('Invalid fields in proxy response', { endpoint, park: parkId, count: result.warnings.length, warnings: result.warnings });
+      this.validationWarnings = [...this.validationWarnings, ...result.warnings].slice(-100);
+    }
+    return result.value;
+  }
+
+  private fallbackFreshness(): DataFreshness {
+    return { fetchedAt: new Date().toISOString(), isStale: true, origin: 'fallback' };
   }
 
   // Utility functions
@@ -251,6 +413,27 @@ export class UnifiedPixiePalService {
   }
 
   // Formatting functions for chat responses
+  formatDataAge(fetchedAt: string): string {
+    const minutes = Math.max(0, Math.round((Date.now() - new Date(fetchedAt).getTime()) / 60000));
+    if (minutes < 1) return 'just now';
+    if (minutes < 60) return `as of ${minutes} minute${minutes === 1 ? '' : 's'} ago`;
+
+    const hours = Math.round(minutes / 60);
+    return `as of ${hours} hour${hours === 1 ? '' : 's'} ago`;
+  }
+
+  // Returns a notice line for anything other than fresh data, so chat never hides stale/placeholder data
+  formatFreshnessNotice(freshness: DataFreshness): string | null {
+    if (freshness.origin === 'fallback') {
+      return '⚠️ Live data is unavailable right now - check the Disney World app for the latest';
+    }
+    const age = Date.now() - new Date(freshness.fetchedAt).getTime();
+    if (freshness.isStale || age > this.cacheTimeout) {
+      return `⚠️ Showing last known data ${this.formatDataAge(freshness.fetchedAt)}`;
+    }
+    return null;
+  }
+
   formatParkHours(schedule: ParkHours[]): string {
     if (!schedule || schedule.length === 0) {
       return "🕐 Park hours not available right now. Check the Disney World app for current hours! ✨";
@@ -281,6 +464,12 @@ export class UnifiedPixiePalService {
     return lines.join('\n');
   }
 
+  // "3:00 PM, 5:30 PM" or a gentle pointer when the proxy had no valid times
+  formatEventTimes(event: EntertainmentEvent): string {
+    if (event.times && event.times.length > 0) return event.times.join(', ');
+    return event.time || 'Check the Times Guide';
+  }
+
   formatEntertainment(events: EntertainmentEvent[]): string {
     if (!events || events.length === 0) {
       return "🎭 No entertainment schedule available right now. Check the Disney World app for showtimes! ✨";
@@ -295,7 +484,7 @@ export class UnifiedPixiePalService {
     if (parades.length > 0) {
       lines.push('🎪 **Parades:**');
       parades.forEach(event => {
-        lines.push(`• ${event.name} - ${event.time} at ${event.location}`);
+        lines.push(`• ${event.name} - ${this.formatEventTimes(event)} at ${event.location}`);
       });
       lines.push('');
     }
@@ -303,7 +492,7 @@ export class UnifiedPixiePalService {
     if (fireworks.length > 0) {
       lines.push('🎆 **Fireworks:**');
       fireworks.forEach(event => {
-        lines.push(`• ${event.name} - ${event.time} at ${event.location}`);
+        lines.push(`• ${event.name} - ${this.formatEventTimes(event)} at ${event.location}`);
       });
       lines.push('');
     }
@@ -311,7 +500,7 @@ export class UnifiedPixiePalService {
     if (shows.length > 0) {
       lines.push('🎬 **Shows:**');
       shows.forEach(event => {
-        lines.push(`• ${event.name} - ${event.time} at ${event.location}`);
+        lines.push(`• ${event.name} - ${this.formatEventTimes(event)} at ${event.location}`);
       });
     }
 
@@ -329,9 +518,7 @@ export class UnifiedPixiePalService {
   parades.forEach(parade => {
     lines.push(`🎭 **${parade.name}**`);
     
-    // FIX: Handle the times array from your proxy
-    const timeValue = parade.times ? parade.times[0] : (parade.time || 'Check Disney app');
-    lines.push(`⏰ Time: ${timeValue}`);
+    lines.push(`⏰ Time: ${this.formatEventTimes(parade)}`);
     
     lines.push(`📍 Location: ${parade.location}`);
     if (parade.duration) {
@@ -345,10 +532,70 @@ export class UnifiedPixiePalService {
   return lines.join('\n');
 }
 
+  formatCharacterMeets(meets: CharacterMeet[]): string {
+    if (!meets || meets.length === 0) {
+      return "🧚‍♀️ No character meets found right now. Check the Disney World app for today's characters! ✨";
+    }
+
+    const lines = ['🧚‍♀️ **Character Meets Today:**', ''];
+
+    meets.forEach(meet => {
+      lines.push(`✨ **${meet.characters.join(' & ')}**`);
+      lines.push(`📍 ${meet.location}`);
+      lines.push(`🕐 ${meet.times.length > 0 ? meet.times.join(', ') : 'Check the Times Guide'}`);
+      lines.push('');
+    });
+
+    lines.push('💫 Character times can change - arrive early! ✨');
+    return lines.join('\n');
+  }
+
+  formatWaitTimeTrend(
+    attraction: Pick<Attraction, 'name' | 'waitTime' | 'isOpen'>,
+    trend: WaitTimeTrend,
+    lowest: WaitTimeSample | null
+  ): string {
+    const lines = [`📈 **${attraction.name} Wait Trend:**`, ''];
+
+    if (!attraction.isOpen) {
+      lines.push('🚫 Currently closed');
+    } else {
+      lines.push(`⏰ Right now: ${attraction.waitTime} min`);
+    }
+
+    // Worded from the readings actually compared - two readings 5 minutes apart say nothing about an hour ago
+    const hours = Math.floor(trend.spanMinutes / 60);
+    const minutes = trend.spanMinutes % 60;
+    const window = [
+      ...(hours > 0 ? [`${hours} hour${hours === 1 ? '' : 's'}`] : []),
+      ...(minutes > 0 || hours === 0 ? [`${minutes} minute${minutes === 1 ? '' : 's'}`] : [])
+    ].join(' ');
+    switch (trend.direction) {
+      case 'falling':
+        lines.push(`📉 Going down - ${Math.abs(trend.change)} min shorter than ${window} ago`);
+        break;
+      case 'rising':
+        lines.push(`📈 Going up - ${trend.change} min longer than ${window} ago`);
+        break;
+      case 'steady':
+        lines.push(`➡️ Holding steady over the last ${window}`);
+        break;
+      default:
+        lines.push("🔍 Not enough readings yet to see a trend - ask me again in a bit!");
+    }
+
+    if (lowest) {
+      const at = new Date(lowest.at).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+      lines.push(`🏆 Lowest today: ${lowest.waitTime} min at ${at}`);
+    }
+
+    return lines.join('\n');
+  }
+
   // Fallback data (simplified - your proxy handles most cases)
-  private getFallbackWaitTimes(parkId: ParkId): ParkData {
+  private getFallbackWaitTimes(parkId: ParkId): Attraction[] {
     // Simplified fallback since your proxy is reliable
-    const attractions: Attraction[] = [
+    return [
       {
         id: `${parkId}-fallback-1`,
         name: 'Check Disney World App',
@@ -358,13 +605,17 @@ export class UnifiedPixiePalService {
         park: parkId
       }
     ];
+  }
 
+  private getFallbackParkData(parkId: ParkId): ParkData {
+    const freshness = this.fallbackFreshness();
     return {
       parkName: this.getParkName(parkId),
       parkId,
-      attractions,
-      lastUpdated: new Date().toISOString(),
-      source: 'fallback'
+      attractions: this.getFallbackWaitTimes(parkId),
+      lastUpdated: freshness.fetchedAt,
+      source: 'fallback',
+      ...freshness
     };
   }
 
@@ -432,6 +683,33 @@ export class UnifiedPixiePalService {
     }
     return [];
   }
+
+  // Well-known permanent meet spots; no times since they change daily
+  private getFallbackCharacterMeets(parkId: ParkId): CharacterMeet[] {
+    const spots: Record<ParkId, Array<{ characters: string[]; location: string }>> = {
+      magicKingdom: [
+        { characters: ['Mickey Mouse'], location: 'Town Square Theater' },
+        { characters: ['Disney Princesses'], location: 'Princess Fairytale Hall' }
+      ],
+      epcot: [
+        { characters: ['Anna', 'Elsa'], location: 'Royal Sommerhus, Norway Pavilion' }
+      ],
+      hollywoodStudios: [
+        { characters: ['Woody', 'Jessie'], location: 'Toy Story Land' }
+      ],
+      animalKingdom: [
+        { characters: ['Mickey Mouse', 'Minnie Mouse'], location: 'Adventurers Outpost' }
+      ]
+    };
+
+    return spots[parkId].map((spot, index) => ({
+      id: `${parkId}-meet-fallback-${index + 1}`,
+      ...spot,
+      times: [],
+      park: parkId,
+      lastUpdated: new Date().toISOString()
+    }));
+  }
 }
 
-export const pixiePalData = new UnifiedPixiePalService();
\ No newline at end of file
+export const pixiePalData = new UnifiedPixiePalService();
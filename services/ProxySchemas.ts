@@ -0,0 +1,329 @@
+// Proxy Schemas - runtime validation for Disney proxy payloads
+// Coerces whatever the proxy sends into Attraction / ParkHours / EntertainmentEvent / CharacterMeet and
+// reports every field it had to fix or drop as a structured warning (never NaN or undefined in chat)
+import type { Attraction, CharacterMeet, EntertainmentEvent, ParkHours, ParkId } from './PixiePalDataService';
+import type { ProxyEndpoint } from './ParkDataSources';
+
+export interface ValidationWarning {
+  endpoint: ProxyEndpoint;
+  parkId: ParkId;
+  path: string;
+  value: unknown;
+  message: string;
+}
+
+export interface ValidationResult<T> {
+  value: T;
+  warnings: ValidationWarning[];
+}
+
+type Warn = (path: string, value: unknown, message: string) => void;
+
+const EVENT_TYPES: NonNullable<EntertainmentEvent['type']>[] = ['parade', 'fireworks', 'show', 'character-meet'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isEventType = (value: unknown): value is NonNullable<EntertainmentEvent['type']> =>
+  EVENT_TYPES.some(type => type === value);
+
+const isBlank = (value: unknown): boolean =>
+  value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+
+const readString = (value: unknown, path: string, warn: Warn): string | null => {
+  if (typeof value === 'string' && value.trim() !== '') {
+    return value.trim();
+  }
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return String(value);
+  }
+  if (!isBlank(value)) {
+    warn(path, value, 'expected a string');
+  }
+  return null;
+};
+
+// Accepts "15:00", "3:00 PM", "3pm" or an ISO timestamp and returns "3:00 PM"
+export const coerceTime = (value: unknown): string | null => {
+  if (typeof value !== 'string') {
+    return null;
+  }
+
+  const text = value.trim();
+  const iso = text.match(/^\d{4}-\d{2}-\d{2}T(\d{2}):(\d{2})/);
+  const clock = text.match(/^(\d{1,2})(?::(\d{2}))?(?::\d{2})?\s*([AaPp]\.?[Mm]\.?)?$/);
+  const match = iso
+    ? { hours: iso[1], minutes: iso[2], meridiem: undefined }
+    : clock && { hours: clock[1], minutes: clock[2], meridiem: clock[3] };
+  if (!match) {
+    return null;
+  }
+
+  let hours = parseInt(match.hours, 10);
+  const minutes = match.minutes ?? '00';
+  const meridiem = match.meridiem?.replace(/\./g, '').toUpperCase();
+  if (parseInt(minutes, 10) > 59) {
+    return null;
+  }
+
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null;
+    return `${hours}:${minutes} ${meridiem}`;
+  }
+  if (!match.minutes || hours > 23) {
+    return null;
+  }
+
+  const suffix = hours >= 12 ? 'PM' : 'AM';
+  hours = hours % 12 === 0 ? 12 : hours % 12;
+  return `${hours}:${minutes} ${suffix}`;
+};
+
+// Accepts "2025-07-20" or an ISO timestamp and returns "2025-07-20"
+const coerceDate = (value: unknown): string | null => {
+  if (typeof value !== 'string') {
+    return null;
+  }
+  const match = value.trim().match(/^(\d{4}-\d{2}-\d{2})/);
+  return match ? match[1] : null;
+};
+
+const readList = (payload: unknown, keys: string[], endpoint: ProxyEndpoint): unknown[] => {
+  if (Array.isArray(payload)) {
+    return payload;
+  }
+  if (isRecord(payload)) {
+    for (const key of keys) {
+      const list = payload[key];
+      if (Array.isArray(list)) {
+        return list;
+      }
+      // Older proxy builds nest the list one level deeper, e.g. { hours: { hours: [...] } }
+      const nested = isRecord(list) ? list[key] : undefined;
+      if (Array.isArray(nested)) {
+        return nested;
+      }
+    }
+  }
+  throw new Error(`Invalid ${endpoint} payload: expected ${keys.join(' or ')} to be an array`);
+};
+
+const createCollector = (endpoint: ProxyEndpoint, parkId: ParkId) => {
+  const warnings: ValidationWarning[] = [];
+  const warn: Warn = (path, value, message) => {
+    warnings.push({ endpoint, parkId, path, value, message });
+  };
+  return { warnings, warn };
+};
+
+const readTimes = (item: Record<string, unknown>, path: string, warn: Warn): string[] => {
+  const rawTimes: unknown[] = Array.isArray(item.times) ? item.times : isBlank(item.time) ? [] : [item.time];
+  const times: string[] = [];
+  rawTimes.forEach((rawTime, timeIndex) => {
+    const time = coerceTime(rawTime);
+    if (time) {
+      times.push(time);
+    } else {
+      warn(`${path}.times[${timeIndex}]`, rawTime, 'dropped: unrecognized time');
+    }
+  });
+  return times;
+};
+
+// wait-times -> Attraction[]
+export function validateWaitTimes(payload: unknown, parkId: ParkId): ValidationResult<Attraction[]> {
+  const { warnings, warn } = createCollector('wait-times', parkId);
+  const items = readList(payload, ['attractions'], 'wait-times');
+  const attractions: Attraction[] = [];
+
+  items.forEach((item, index) => {
+    const path = `attractions[${index}]`;
+    if (!isRecord(item)) {
+      warn(path, item, 'dropped: not an object');
+      return;
+    }
+
+    const name = readString(item.name, `${path}.name`, warn);
+    if (!name) {
+      warn(`${path}.name`, item.name, 'dropped: attraction has no name');
+      return;
+    }
+
+    const rawWait = item.waitTime;
+    let waitTime = typeof rawWait === 'string' ? Number(rawWait.trim()) : typeof rawWait === 'number' ? rawWait : NaN;
+    if (isBlank(rawWait)) {
+      waitTime = 0;
+    } else if (!Number.isFinite(waitTime) || waitTime < 0) {
+      warn(`${path}.waitTime`, rawWait, 'invalid wait time, using 0');
+      waitTime = 0;
+    }
+
+    const isOpen = typeof item.isOpen === 'boolean' ? item.isOpen : true;
+    if (typeof item.isOpen !== 'boolean' && !isBlank(item.isOpen)) {
+      warn(`${path}.isOpen`, item.isOpen, 'expected a boolean, assuming open');
+    }
+
+    const id = readString(item.id, `${path}.id`, warn) ?? String(index);
+    const land = readString(item.land ?? item.area, `${path}.land`, warn) ?? 'Unknown Area';
+    const lastUpdated = typeof item.lastUpdated === 'string' && !Number.isNaN(Date.parse(item.lastUpdated))
+      ? item.lastUpdated
+      : new Date().toISOString();
+
+    attractions.push({
+      id: `${parkId}-${id}`,
+      name,
+      land,
+      waitTime: Math.round(waitTime),
+      isOpen,
+      hasLightningLane: item.hasLightningLane === true || item.fastPassAvailable === true,
+      lastUpdated,
+      park: parkId
+    });
+  });
+
+  return { value: attractions, warnings };
+}
+
+// park-hours -> ParkHours[]
+export function validateParkHours(payload: unknown, parkId: ParkId): ValidationResult<ParkHours[]> {
+  const { warnings, warn } = createCollector('park-hours', parkId);
+  const items = readList(payload, ['schedule', 'hours'], 'park-hours');
+  const schedule: ParkHours[] = [];
+
+  items.forEach((item, index) => {
+    const path = `schedule[${index}]`;
+    if (!isRecord(item)) {
+      warn(path, item, 'dropped: not an object');
+      return;
+    }
+
+    const date = coerceDate(item.date);
+    if (!date) {
+      warn(`${path}.date`, item.date, 'dropped: missing or invalid date');
+      return;
+    }
+
+    const openingTime = coerceTime(item.openingTime);
+    const closingTime = coerceTime(item.closingTime);
+    if (!isBlank(item.openingTime) && !openingTime) {
+      warn(`${path}.openingTime`, item.openingTime, 'unrecognized time');
+    }
+    if (!isBlank(item.closingTime) && !closingTime) {
+      warn(`${path}.closingTime`, item.closingTime, 'unrecognized time');
+    }
+
+    const isClosed = typeof item.type === 'string' && item.type.toLowerCase() === 'closed';
+    if (!isClosed && (!openingTime || !closingTime)) {
+      warn(path, item, 'dropped: operating day without opening and closing times');
+      return;
+    }
+
+    schedule.push({
+      date,
+      openingTime: isClosed ? null : openingTime,
+      closingTime: isClosed ? null : closingTime,
+      type: isClosed ? 'Closed' : 'Operating'
+    });
+  });
+
+  return { value: schedule, warnings };
+}
+
+// entertainment / parade-times -> EntertainmentEvent[]
+export function validateEntertainment(
+  payload: unknown,
+  parkId: ParkId,
+  endpoint: 'entertainment' | 'parade-times' = 'entertainment'
+): ValidationResult<EntertainmentEvent[]> {
+  const { warnings, warn } = createCollector(endpoint, parkId);
+  const listKey = endpoint === 'parade-times' ? 'parades' : 'entertainment';
+  const items = readList(payload, [listKey], endpoint);
+  const events: EntertainmentEvent[] = [];
+
+  items.forEach((item, index) => {
+    const path = `${listKey}[${index}]`;
+    if (!isRecord(item)) {
+      warn(path, item, 'dropped: not an object');
+      return;
+    }
+
+    const name = readString(item.name, `${path}.name`, warn);
+    if (!name) {
+      warn(`${path}.name`, item.name, 'dropped: event has no name');
+      return;
+    }
+
+    const times = readTimes(item, path, warn);
+
+    const location = readString(item.location ?? item.land, `${path}.location`, warn) ?? 'See Times Guide';
+
+    let type: EntertainmentEvent['type'] = endpoint === 'parade-times' ? 'parade' : undefined;
+    if (isEventType(item.type)) {
+      type = item.type;
+    } else if (!isBlank(item.type)) {
+      warn(`${path}.type`, item.type, 'unknown event type');
+    }
+
+    let duration: EntertainmentEvent['duration'];
+    if (typeof item.duration === 'number' && Number.isFinite(item.duration) && item.duration > 0) {
+      duration = item.duration;
+    } else if (typeof item.duration === 'string' && item.duration.trim() !== '') {
+      duration = item.duration.trim();
+    } else if (!isBlank(item.duration)) {
+      warn(`${path}.duration`, item.duration, 'dropped: invalid duration');
+    }
+
+    events.push({
+      name,
+      ...(times.length > 0 ? { time: times[0] } : {}),
+      times,
+      location,
+      ...(duration !== undefined ? { duration } : {}),
+      ...(type ? { type } : {})
+    });
+  });
+
+  return { value: events, warnings };
+}
+
+// character-meets -> CharacterMeet[] (resolves character/characters and time/times)
+export function validateCharacterMeets(payload: unknown, parkId: ParkId): ValidationResult<CharacterMeet[]> {
+  const { warnings, warn } = createCollector('character-meets', parkId);
+  const items = readList(payload, ['characterMeets', 'meets'], 'character-meets');
+  const meets: CharacterMeet[] = [];
+
+  items.forEach((item, index) => {
+    const path = `characterMeets[${index}]`;
+    if (!isRecord(item)) {
+      warn(path, item, 'dropped: not an object');
+      return;
+    }
+
+    const rawCharacters: unknown[] = Array.isArray(item.characters)
+      ? item.characters
+      : isBlank(item.character) ? [] : [item.character];
+    const characters = rawCharacters
+      .map((character, characterIndex) => readString(character, `${path}.characters[${characterIndex}]`, warn))
+      .filter((character): character is string => character !== null);
+
+    if (characters.length === 0) {
+      warn(`${path}.characters`, item.characters ?? item.character, 'dropped: meet has no characters');
+      return;
+    }
+
+    const lastUpdated = typeof item.lastUpdated === 'string' && !Number.isNaN(Date.parse(item.lastUpdated))
+      ? item.lastUpdated
+      : new Date().toISOString();
+
+    meets.push({
+      id: `${parkId}-meet-${readString(item.id, `${path}.id`, warn) ?? index}`,
+      characters,
+      location: readString(item.location, `${path}.location`, warn) ?? 'See Times Guide',
+      times: readTimes(item, path, warn),
+      park: parkId,
+      lastUpdated
+    });
+  });
+
+  return { value: meets, warnings };
+}
@@ -0,0 +1,203 @@
+// Query Intent Classifier - turns a guest question into one ranked intent plus slots
+// Every cue is matched on word boundaries, so "sleep" never means EPCOT and "thanks" never means Animal Kingdom
+import { resolveAttractionName } from './AttractionResolver';
+import type { ParkId } from './PixiePalDataService';
+import { coerceTime } from './ProxySchemas';
+
+export type QueryIntent =
+  | 'wait_alert'
+  | 'wait_trend'
+  | 'ride_wait'
+  | 'wait_times'
+  | 'ride_info'
+  | 'park_hours'
+  | 'fireworks'
+  | 'parade'
+  | 'show_times'
+  | 'character_meet'
+  | 'general';
+
+export type QueryPark = ParkId | 'disneySprings' | 'resorts';
+
+export interface QuerySlots {
+  park: QueryPark | null;
+  attraction: string | null;
+  character: string | null;
+  time: string | null;
+}
+
+export interface IntentScore {
+  intent: QueryIntent;
+  score: number;
+}
+
+export interface QueryClassification {
+  intent: QueryIntent;
+  confidence: number;
+  ranked: IntentScore[];
+  slots: QuerySlots;
+  attractionCandidates: string[]; // rides tied for the attraction slot, for "did you mean...?"
+}
+
+export interface ClassifyOptions {
+  attractions?: { name: string; park: string }[];
+  characters?: string[];
+}
+
+type Cue = [pattern: RegExp, weight: number];
+
+// Word-boundary phrase matcher: phrase('wait times') matches "wait times" but not "await timestamps"
+const phrase = (text: string): RegExp =>
+  new RegExp(`(?:^|[^a-z0-9])${text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/ /g, '\\s+')}(?=$|[^a-z0-9])`);
+
+const PARK_ALIASES: [QueryPark, string[]][] = [
+  ['magicKingdom', ['magic kingdom', 'mk']],
+  ['epcot', ['epcot', 'ep']],
+  ['hollywoodStudios', ['hollywood studios', 'hollywood', 'hs', 'dhs', 'mgm']],
+  ['animalKingdom', ['animal kingdom', 'ak', 'dak']],
+  ['disneySprings', ['disney springs']],
+  ['resorts', ['resort hotel', 'resort hotels', 'resorts']]
+];
+
+const KNOWN_CHARACTERS = [
+  'mickey', 'minnie', 'goofy', 'donald', 'daisy', 'pluto', 'chip', 'dale', 'tinker bell',
+  'cinderella', 'snow white', 'aurora', 'belle', 'ariel', 'jasmine', 'aladdin', 'mulan',
+  'rapunzel', 'tiana', 'moana', 'elsa', 'anna', 'olaf', 'elena', 'merida', 'pocahontas',
+  'buzz', 'woody', 'jessie', 'stitch', 'pooh', 'tigger', 'eeyore', 'gaston', 'peter pan',
+  'chewbacca', 'darth vader', 'rey', 'kylo ren', 'baymax', 'joy', 'sadness'
+];
+
+const RELATIVE_TIMES = ['right now', 'now', 'tonight', 'this morning', 'this afternoon', 'this evening', 'later today', 'today', 'tomorrow'];
+
+const INTENT_CUES: Record<Exclude<QueryIntent, 'general'>, Cue[]> = {
+  wait_alert: [
+    [phrase('alert'), 3], [phrase('alerts'), 3], [phrase('notify me'), 3],
+    [phrase('tell me when'), 1], [phrase('let me know when'), 1], [phrase('let me know if'), 1], [phrase('ping me'), 1],
+    [/(?:under|below|less than|drops? to)\s*\d{1,3}/, 3], [/re-?opens?|back open|opens back up/, 3]
+  ],
+  wait_trend: [
+    [phrase('going down'), 3], [phrase('going up'), 3], [phrase('getting shorter'), 3], [phrase('getting longer'), 3],
+    [phrase('rising'), 3], [phrase('falling'), 3], [phrase('dropping'), 3], [phrase('trend'), 3],
+    [phrase('lowest'), 3], [phrase('shortest today'), 3], [phrase('shorter'), 2], [phrase('any better'), 2]
+  ],
+  ride_wait: [
+    [phrase('wait'), 1], [phrase('wait time'), 1], [phrase('how long'), 1], [phrase('line'), 1], [phrase('open'), 1],
+    [phrase('closed'), 1], [phrase('down'), 0.5], [phrase('lightning lane'), 1]
+  ],
+  wait_times: [
+    [phrase('wait times'), 2], [phrase('waits'), 2], [phrase('wait'), 1], [phrase('lines'), 1], [phrase('line'), 0.5],
+    [phrase('shortest wait'), 2], [phrase('longest wait'), 2], [phrase('shortest'), 1], [phrase('fastest ride'), 2],
+    [phrase('ride times'), 2], [phrase('how long'), 0.5]
+  ],
+  ride_info: [
+    [phrase('ride'), 1], [phrase('rides'), 1.5], [phrase('attraction'), 1], [phrase('attractions'), 1.5],
+    [phrase('coaster'), 1], [phrase('coasters'), 1.5], [phrase('thrill'), 1], [phrase('height'), 1]
+  ],
+  park_hours: [
+    [phrase('park hours'), 3], [phrase('operating hours'), 3], [phrase('hours'), 2], [phrase('close'), 1],
+    [phrase('closing'), 1.5], [phrase('opening'), 1], [phrase('open'), 0.5], [phrase('rope drop'), 2],
+    [/what time does .* (?:open|close)/, 1.5], [/when does .* (?:open|close)\b/, 1.5]
+  ],
+  fireworks: [
+    [phrase('fireworks'), 3], [phrase('firework'), 3], [phrase('happily ever after'), 3], [phrase('luminous'), 3],
+    [phrase('nighttime spectacular'), 3]
+  ],
+  parade: [
+    [phrase('parade'), 3], [phrase('parades'), 3], [phrase('festival of fantasy'), 3], [phrase('cavalcade'), 2]
+  ],
+  show_times: [
+    [phrase('show'), 2], [phrase('shows'), 2], [phrase('showtime'), 2], [phrase('showtimes'), 2], [phrase('next show'), 3],
+    [phrase('show times'), 3], [phrase('entertainment'), 2], [phrase('fantasmic'), 3], [phrase('performance'), 1],
+    [phrase('how long until'), 1]
+  ],
+  character_meet: [
+    [phrase('character'), 2], [phrase('characters'), 2], [phrase('meet'), 2], [phrase('meet and greet'), 3],
+    [phrase('autograph'), 2], [phrase('autographs'), 2], [phrase('princess'), 2], [phrase('princesses'), 2],
+    [phrase('photo with'), 1], [phrase('fairytale hall'), 2], [phrase('town square theater'), 2]
+  ]
+};
+
+// A single weak cue shouldn't read as certainty
+const CONFIDENT_SCORE = 3;
+
+const findPark = (lower: string): QueryPark | null => {
+  for (const [park, aliases] of PARK_ALIASES) {
+    if (aliases.some(alias => phrase(alias).test(lower))) {
+      return park;
+    }
+  }
+  return null;
+};
+
+const findCharacter = (lower: string, options: ClassifyOptions): string | null => {
+  const names = [...(options.characters || []).map(name => name.toLowerCase()), ...KNOWN_CHARACTERS]
+    .sort((a, b) => b.length - a.length);
+  return names.find(name => phrase(name).test(lower)) || null;
+};
+
+const findTime = (lower: string): string | null => {
+  const clock = lower.match(/\b(\d{1,2}(?::\d{2})?\s*(?:a\.?m\.?|p\.?m\.?))(?=$|[^a-z])/);
+  if (clock) {
+    return coerceTime(clock[1].replace(/\s+/g, ''));
+  }
+  return RELATIVE_TIMES.find(time => phrase(time).test(lower)) || null;
+};
+
+const extractSlotsWithCandidates = (input: string, options: ClassifyOptions) => {
+  const lower = input.toLowerCase();
+  const resolution = resolveAttractionName(input, options.attractions);
+  const attraction = resolution.match;
+  const explicitPark = findPark(lower);
+  const attractionPark = attraction && PARK_ALIASES.some(([park]) => park === attraction.park)
+    ? attraction.park as QueryPark
+    : null;
+
+  const slots: QuerySlots = {
+    park: explicitPark || attractionPark,
+    attraction: attraction?.name || null,
+    character: findCharacter(lower, options),
+    time: findTime(lower)
+  };
+  const attractionCandidates = resolution.isAmbiguous
+    ? resolution.candidates.map(candidate => candidate.attraction.name)
+    : [];
+
+  return { slots, attractionCandidates };
+};
+
+export function extractSlots(input: string, options: ClassifyOptions = {}): QuerySlots {
+  return extractSlotsWithCandidates(input, options).slots;
+}
+
+export function classifyQuery(input: string, options: ClassifyOptions = {}): QueryClassification {
+  const lower = input.toLowerCase();
+  const { slots, attractionCandidates } = extractSlotsWithCandidates(input, options);
+
+  const ranked = (Object.keys(INTENT_CUES) as Exclude<QueryIntent, 'general'>[])
+    .map(intent => {
+      let score = INTENT_CUES[intent].reduce((total, [pattern, weight]) => total + (pattern.test(lower) ? weight : 0), 0);
+
+      // Slots decide between the wait intents: a named ride is a single-ride question, not the park overview
+      if (intent === 'ride_wait') {
+        score = slots.attraction || attractionCandidates.length > 0 ? score + 1.5 : 0;
+      } else if ((intent === 'wait_times' || intent === 'ride_info') && (slots.attraction || attractionCandidates.length > 0)) {
+        score /= 2;
+      } else if (intent === 'character_meet' && slots.character) {
+        score += 2;
+      }
+
+      return { intent, score };
+    })
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score);
+
+  if (ranked.length === 0) {
+    return { intent: 'general', confidence: 0, ranked: [], slots, attractionCandidates };
+  }
+
+  const total = ranked.reduce((sum, { score }) => sum + score, 0);
+  const top = ranked[0];
+  const confidence = Math.round((top.score / total) * Math.min(1, top.score / CONFIDENT_SCORE) * 100) / 100;
+
+  return { intent: top.intent, confidence, ranked, slots, attractionCandidates };
+}
@@ -0,0 +1,50 @@
+// Relay Client - where the app sends chat and transcription calls, and the device id the relay rate limits by
+// The OpenAI key lives on the relay (relay/server.js); the app only knows the relay's URL
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { logger } from './Logger';
+
+const log = logger.withTag('relay');
+
+const STORAGE_KEY = 'pixie_pal_device_id';
+
+// Local relay from `npm run relay`; set EXPO_PUBLIC_RELAY_URL for a deployed one
+export const DEFAULT_RELAY_URL = 'http://localhost:4020';
+
+export const getRelayUrl = (): string => (process.env.EXPO_PUBLIC_RELAY_URL || DEFAULT_RELAY_URL).replace(/\/+$/, '');
+
+const createDeviceId = (): string =>
+  `device-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+// Random per install, not tied to the guest. Ready immediately so requests never wait on storage:
+// until load() finishes the new id is used, and load() swaps in the stored one if this install already had one
+export class DeviceIdentity {
+  private id = createDeviceId();
+  private loaded: Promise<string> | null = null;
+
+  getId(): string {
+    return this.id;
+  }
+
+  load(): Promise<string> {
+    if (!this.loaded) {
+      this.loaded = (async () => {
+        try {
+          const stored = await AsyncStorage.getItem(STORAGE_KEY);
+          if (stored) {
+            this.id = stored;
+          } else {
+            await AsyncStorage.setItem(STORAGE_KEY, this.id);
+          }
+        } catch (error) {
+          log.error('Error loading device id', { error });
+        }
+        return this.id;
+      })();
+    }
+    return this.loaded;
+  }
+}
+
+export const deviceIdentity = new DeviceIdentity();
+
+export const relayHeaders = (): Record<string, string> => ({ 'X-Device-Id': deviceIdentity.getId() });
@@ -0,0 +1,458 @@
+// Response Handlers - deterministic answers from live park data, tried before the AI
+// Each handler declares the intents it serves and returns null when it can't answer from data
+import { resolveAttraction } from './AttractionResolver';
+import {
+  PARK_NAMES,
+  formatDate,
+  formatDisneyResponse,
+  formatTime,
+  formatWaitTimeBadge,
+  toDateKey,
+  toMinutesOfDay
+} from './ChatFormatting';
+import { MessagePayload, ParkHoursRow, RideWaitRow, ShowRow, noteCard, rideWaitsCard } from './MessagePayloads';
+import { pixiePalData, CharacterMeet, DataFreshness, EntertainmentEvent, ParkHours, ParkId } from './PixiePalDataService';
+import type { QueryClassification, QueryIntent, QueryPark } from './QueryIntentClassifier';
+
+export interface ChatAttraction {
+  id: string;
+  name: string;
+  waitTime: number;
+  isOpen: boolean;
+  hasLightningLane?: boolean;
+  park: string;
+  land?: string;
+  type?: string;
+}
+
+// null means the proxy hasn't delivered that list (as opposed to an empty schedule)
+export interface ParkEntertainment {
+  park: ParkId;
+  entertainment: EntertainmentEvent[] | null;
+  parades: EntertainmentEvent[] | null;
+}
+
+export interface ParkSchedule {
+  park: ParkId;
+  hours: ParkHours[];
+}
+
+export interface HandlerContext {
+  input: string;
+  analysis: QueryClassification;
+  park: QueryPark;
+  now: Date;
+  attractions: ChatAttraction[];
+  entertainment: ParkEntertainment[];
+  parkHours: ParkSchedule[];
+  characterMeets: CharacterMeet[];
+  freshness: Partial<Record<ParkId, DataFreshness>>;
+}
+
+export interface HandlerResult {
+  text: string;
+  payload?: MessagePayload; // rendered as a card; `text` is what gets spoken and remembered
+  switchToPark?: ParkId;
+}
+
+export interface ResponseHandler {
+  name: string;
+  intents: QueryIntent[];
+  handle(context: HandlerContext): HandlerResult | null;
+}
+
+const isParkId = (park: string): park is ParkId =>
+  park === 'magicKingdom' || park === 'epcot' || park === 'hollywoodStudios' || park === 'animalKingdom';
+
+const freshnessNotice = (freshness?: DataFreshness): string | null =>
+  freshness ? pixiePalData.formatFreshnessNotice(freshness) : null;
+
+const withFreshnessNotice = (content: string, freshness?: DataFreshness): string => {
+  const notice = freshnessNotice(freshness);
+  return notice ? `${notice}\n\n${content}` : content;
+};
+
+const toRideRow = (attraction: ChatAttraction & { park: ParkId }): RideWaitRow => ({
+  name: attraction.name,
+  park: attraction.park,
+  waitTime: attraction.waitTime,
+  isOpen: attraction.isOpen,
+  hasLightningLane: attraction.hasLightningLane,
+  land: attraction.land
+});
+
+const describeCountdown = (minutes: number): string => {
+  if (minutes <= 0) return 'starting now';
+  if (minutes < 60) return `in ${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return `in ${hours}h${rest > 0 ? ` ${rest}m` : ''}`;
+};
+
+// Events carry either a list of showtimes or a single one
+export const eventTimes = (event: EntertainmentEvent): string[] => event.times ?? (event.time ? [event.time] : []);
+
+// Upcoming performances after `from` (minutes after midnight), soonest first
+const upcomingShowtimes = (events: EntertainmentEvent[], from: number) =>
+  events
+    .flatMap(event => eventTimes(event).map(time => ({ event, time, minutes: toMinutesOfDay(time) })))
+    .filter((showtime): showtime is { event: EntertainmentEvent; time: string; minutes: number } =>
+      showtime.minutes !== null && showtime.minutes >= from)
+    .sort((a, b) => a.minutes - b.minutes);
+
+// Guests ask "what's on at 3pm" - start from that time instead of now
+const startMinutes = (context: HandlerContext): number => {
+  const slotTime = context.analysis.slots.time ? toMinutesOfDay(context.analysis.slots.time) : null;
+  return slotTime ?? context.now.getHours() * 60 + context.now.getMinutes();
+};
+
+const FIREWORKS_NAMES = ['happily ever after', 'luminous', 'fireworks', 'epcot forever'];
+
+export const isFireworks = (event: EntertainmentEvent): boolean =>
+  event.type === 'fireworks' || FIREWORKS_NAMES.some(name => event.name.toLowerCase().includes(name));
+
+// General "wait times" - shortest ride waits, shows and characters for the park
+export const parkWaitTimesHandler: ResponseHandler = {
+  name: 'parkWaitTimes',
+  intents: ['wait_times'],
+  handle({ park, attractions, entertainment, characterMeets, freshness }) {
+    if (!isParkId(park)) {
+      return null;
+    }
+
+    const parkAttractions = attractions.filter(a => a.park === park);
+    const parkEntertainment = entertainment.find(e => e.park === park)?.entertainment || [];
+    const parkCharacters = characterMeets.filter(meet => meet.park === park);
+
+    let content = '';
+
+    // FIXED: Only show ACTUAL RIDES with shortest waits
+    const shortestWaits = parkAttractions
+      .filter(a => a.isOpen && a.type === 'ride')
+      .sort((a, b) => a.waitTime - b.waitTime)
+      .slice(0, 3);
+
+    if (shortestWaits.length > 0) {
+      content += `**🎢 Shortest Ride Waits**\n\n`;
+      shortestWaits.forEach((attraction, index) => {
+        const badge = formatWaitTimeBadge(attraction.waitTime, attraction.hasLightningLane);
+        content += `**${index + 1}. ${attraction.name}**\n${badge}\n\n`;
+      });
+    }
+
+    if (parkEntertainment.length > 0) {
+      content += `**🎭 Shows Starting Soon**\n\n`;
+      parkEntertainment.slice(0, 2).forEach(show => {
+        const times = eventTimes(show).join(', ') || 'Check times';
+        content += `**${show.name}**\n🕐 ${times}\n\n`;
+      });
+    }
+
+    // FIXED: Only show ACTUAL CHARACTER MEETS (no duplicates)
+    const uniqueCharacters = parkCharacters
+      .filter((meet, index, self) =>
+        index === self.findIndex(m => m.characters.join(',') === meet.characters.join(','))
+      )
+      .slice(0, 3);
+
+    if (uniqueCharacters.length > 0) {
+      content += `**🧚‍♀️ Characters Available**\n\n`;
+      uniqueCharacters.forEach(meet => {
+        const times = meet.times.join(', ') || 'Check times';
+        content += `**${meet.characters.join(', ')}**\n📍 ${meet.location}\n🕐 ${times}\n\n`;
+      });
+    }
+
+    const title = `${PARK_NAMES[park]} Wait Times`;
+    const actionCue = "Want alerts when lines drop? Just ask";
+    const sections: MessagePayload['sections'] = [];
+    if (shortestWaits.length > 0) {
+      sections.push({ kind: 'ride_waits', heading: '🎢 Shortest Ride Waits', rides: shortestWaits.map(a => toRideRow({ ...a, park })) });
+    }
+    if (parkEntertainment.length > 0) {
+      sections.push({
+        kind: 'show_schedule',
+        heading: '🎭 Shows Starting Soon',
+        shows: parkEntertainment.slice(0, 2).map(show => ({ name: show.name, times: eventTimes(show), location: show.location }))
+      });
+    }
+    if (uniqueCharacters.length > 0) {
+      sections.push({ kind: 'character_meets', heading: '🧚‍♀️ Characters Available', meets: uniqueCharacters });
+    }
+
+    return {
+      text: formatDisneyResponse(
+        title,
+        withFreshnessNotice(content.trim() || "Getting the latest wait times ready for you!", freshness[park]),
+        actionCue
+      ),
+      payload: {
+        title,
+        notice: freshnessNotice(freshness[park]),
+        sections: sections.length > 0 ? sections : [{ kind: 'note', text: 'Getting the latest wait times ready for you!' }],
+        actionCue
+      }
+    };
+  }
+};
+
+// "How long is Space Mountain?" - answered from live data, switching parks if the ride is elsewhere
+export const singleRideWaitHandler: ResponseHandler = {
+  name: 'singleRideWait',
+  intents: ['ride_wait'],
+  handle({ input, park, attractions, freshness }) {
+    // Without a live list there's no wait or status to give - the "live data unavailable" answers take it from here
+    const attraction = resolveAttraction(input, attractions).match;
+    if (!attraction || !isParkId(attraction.park)) {
+      return null;
+    }
+
+    const ridePark = attraction.park;
+    const location = `🏰 ${PARK_NAMES[ridePark]}${attraction.land ? ` • ${attraction.land}` : ''}`;
+    const switched = ridePark !== park ? '\n🔄 Switched parks for you!' : '';
+    const status = attraction.isOpen
+      ? `⏰ **${attraction.waitTime} minute wait**${attraction.hasLightningLane ? '\n⚡ Lightning Lane available' : ''}`
+      : '🚫 **Temporarily closed**';
+
+    const actionCue = attraction.isOpen ? "Want an alert when the line drops? Just ask" : "Ask me to tell you when it reopens";
+
+    return {
+      text: formatDisneyResponse(
+        `🎢 ${attraction.name}`,
+        withFreshnessNotice(`${status}\n${location}${switched}`, freshness[ridePark]),
+        actionCue
+      ),
+      payload: rideWaitsCard(`🎢 ${attraction.name}`, [toRideRow({ ...attraction, park: ridePark })], {
+        notice: freshnessNotice(freshness[ridePark]),
+        actionCue: ridePark !== park ? `🔄 Switched to ${PARK_NAMES[ridePark]} for you` : actionCue
+      }),
+      ...(ridePark !== park ? { switchToPark: ridePark } : {})
+    };
+  }
+};
+
+const TYPICAL_HOURS: Record<QueryPark, string> = {
+  magicKingdom: "9:00 AM - 10:00 PM",
+  epcot: "9:00 AM - 9:00 PM",
+  hollywoodStudios: "9:00 AM - 9:00 PM",
+  animalKingdom: "8:00 AM - 8:00 PM",
+  disneySprings: "10:00 AM - 11:00 PM",
+  resorts: "24/7 for guests"
+};
+
+const describeDay = (day: ParkHours): string =>
+  day.type === 'Closed' || !day.openingTime || !day.closingTime
+    ? 'Closed'
+    : `${formatTime(day.openingTime)} - ${formatTime(day.closingTime)}`;
+
+// "What time does Magic Kingdom close?" - today's (or tomorrow's) schedule
+export const parkHoursHandler: ResponseHandler = {
+  name: 'parkHours',
+  intents: ['park_hours'],
+  handle({ park, now, parkHours, analysis }) {
+    const parkName = PARK_NAMES[park];
+    const schedule = parkHours.find(p => p.park === park)?.hours || [];
+
+    const title = `🕐 ${parkName} Hours`;
+
+    if (schedule.length === 0) {
+      const actionCue = "Check the Disney World app for today's exact hours";
+      return {
+        text: formatDisneyResponse(title, `⏰ **Typical:** ${TYPICAL_HOURS[park]}`, actionCue),
+        payload: { title, sections: [{ kind: 'park_hours', days: [{ label: 'Typical', hours: TYPICAL_HOURS[park] }] }], actionCue }
+      };
+    }
+
+    const todayKey = toDateKey(now);
+    const tomorrow = new Date(now);
+    tomorrow.setDate(now.getDate() + 1);
+    const tomorrowKey = toDateKey(tomorrow);
+
+    const today = schedule.find(day => day.date === todayKey) || schedule[0];
+    const next = schedule.find(day => day.date === tomorrowKey);
+    const askedTomorrow = analysis.slots.time === 'tomorrow';
+
+    const days: ParkHoursRow[] = askedTomorrow && next
+      ? [{ label: `Tomorrow (${formatDate(next.date)})`, hours: describeDay(next) }]
+      : [{ label: `Today (${formatDate(today.date)})`, hours: describeDay(today) }, ...(next ? [{ label: 'Tomorrow', hours: describeDay(next) }] : [])];
+    const actionCue = "Hours can change - the Disney World app always has the latest";
+
+    return {
+      text: formatDisneyResponse(
+        title,
+        days.map(day => `📅 **${day.label}:** ${day.hours}`).join('\n'),
+        actionCue
+      ),
+      payload: { title, sections: [{ kind: 'park_hours', days }], actionCue }
+    };
+  }
+};
+
+// "When is the next show?" / "When are the fireworks?"
+export const nextShowHandler: ResponseHandler = {
+  name: 'nextShow',
+  intents: ['show_times', 'fireworks'],
+  handle(context) {
+    const { park, entertainment, analysis } = context;
+    const parkEntertainment = entertainment.find(e => e.park === park);
+    if (!parkEntertainment?.entertainment) {
+      return null;
+    }
+
+    const wantsFireworks = analysis.intent === 'fireworks';
+    const events = wantsFireworks
+      ? [...parkEntertainment.entertainment, ...(parkEntertainment.parades || [])].filter(isFireworks)
+      : parkEntertainment.entertainment;
+    const from = startMinutes(context);
+    const upcoming = upcomingShowtimes(events, from);
+    const title = wantsFireworks ? `🎆 ${PARK_NAMES[park]} Fireworks` : `🎭 Next Shows at ${PARK_NAMES[park]}`;
+
+    if (upcoming.length === 0) {
+      const nothing = wantsFireworks
+        ? events.length > 0 ? "Tonight's fireworks are over" : 'No fireworks are scheduled here today'
+        : 'No more shows are scheduled for the rest of today';
+      const actionCue = "Check the Disney World app for tomorrow's schedule";
+      return { text: formatDisneyResponse(title, `🌙 ${nothing}.`, actionCue), payload: noteCard(title, `🌙 ${nothing}.`, actionCue) };
+    }
+
+    const shows: ShowRow[] = upcoming.slice(0, 3).map(({ event, time, minutes }) => ({
+      name: event.name,
+      times: [time],
+      location: event.location,
+      nextTime: time,
+      countdown: describeCountdown(minutes - from)
+    }));
+    const lines = shows.map(show => `**${show.name}**\n🕐 ${show.nextTime} (${show.countdown})\n📍 ${show.location}`);
+    const actionCue = "Arrive 15-30 minutes early for a good spot";
+
+    return {
+      text: formatDisneyResponse(title, lines.join('\n\n'), actionCue),
+      payload: { title, sections: [{ kind: 'show_schedule', shows }], actionCue }
+    };
+  }
+};
+
+// "When is the parade?"
+export const paradeTimesHandler: ResponseHandler = {
+  name: 'paradeTimes',
+  intents: ['parade'],
+  handle(context) {
+    const { park, entertainment } = context;
+    const parades = entertainment.find(e => e.park === park)?.parades;
+    if (!parades) {
+      return null;
+    }
+
+    const title = `🎉 ${PARK_NAMES[park]} Parades`;
+    if (parades.length === 0) {
+      const actionCue = "Magic Kingdom is the place for parades";
+      return {
+        text: formatDisneyResponse(title, 'No parades are scheduled here today.', actionCue),
+        payload: noteCard(title, 'No parades are scheduled here today.', actionCue)
+      };
+    }
+
+    const from = startMinutes(context);
+    const shows: ShowRow[] = parades.map(parade => {
+      const next = upcomingShowtimes([parade], from)[0];
+      return {
+        name: parade.name,
+        times: eventTimes(parade),
+        location: parade.location,
+        nextTime: next ? next.time : null,
+        countdown: next ? describeCountdown(next.minutes - from) : null
+      };
+    });
+    const lines = shows.map(show => {
+      const when = show.nextTime ? `⏭️ Next: ${show.nextTime} (${show.countdown})` : '🌙 Done for today';
+      const times = show.times.length > 0 ? show.times.join(', ') : 'Check the Times Guide';
+      return `**${show.name}**\n🕐 ${times}\n${when}\n📍 ${show.location}`;
+    });
+    const actionCue = "Grab a curb spot 30-45 minutes before";
+
+    return {
+      text: formatDisneyResponse(title, lines.join('\n\n'), actionCue),
+      payload: { title, sections: [{ kind: 'show_schedule', shows }], actionCue }
+    };
+  }
+};
+
+// "Where can I meet Mickey?" - searches every park for a named character
+export const characterLocationHandler: ResponseHandler = {
+  name: 'characterLocation',
+  intents: ['character_meet'],
+  handle({ park, characterMeets, analysis }) {
+    if (characterMeets.length === 0) {
+      return null;
+    }
+
+    const character = analysis.slots.character;
+    if (!character) {
+      const parkMeets = characterMeets.filter(meet => meet.park === park);
+      if (parkMeets.length === 0) {
+        return null;
+      }
+      return {
+        text: pixiePalData.formatCharacterMeets(parkMeets),
+        payload: {
+          title: '🧚‍♀️ Character Meets Today',
+          sections: [{ kind: 'character_meets', meets: parkMeets }],
+          actionCue: 'Character times can change - arrive early!'
+        }
+      };
+    }
+
+    const matches = characterMeets.filter(meet =>
+      meet.characters.some(name => ` ${name.toLowerCase().replace(/[^a-z0-9]+/g, ' ')} `.includes(` ${character} `))
+    );
+    const displayName = character.replace(/\b\w/g, letter => letter.toUpperCase());
+
+    if (matches.length === 0) {
+      const title = `🧚‍♀️ ${displayName}`;
+      const note = `I don't see ${displayName} on today's character schedule at any park.`;
+      const actionCue = "Characters can pop up unannounced - check the Disney World app";
+      return { text: formatDisneyResponse(title, note, actionCue), payload: noteCard(title, note, actionCue) };
+    }
+
+    const sorted = [...matches].sort((a, b) => Number(b.park === park) - Number(a.park === park));
+    const lines = sorted.map(meet => {
+      const times = meet.times.length > 0 ? meet.times.join(', ') : 'Check the Times Guide';
+      return `**${meet.characters.join(' & ')}**\n📍 ${meet.location} (${PARK_NAMES[meet.park]})\n🕐 ${times}`;
+    });
+    const parks = [...new Set(matches.map(meet => meet.park))];
+    const title = `🧚‍♀️ Where to Meet ${displayName}`;
+    const actionCue = "Arrive early for the shortest line";
+
+    return {
+      text: formatDisneyResponse(title, lines.join('\n\n'), actionCue),
+      payload: { title, sections: [{ kind: 'character_meets', meets: sorted }], actionCue },
+      ...(parks.length === 1 && parks[0] !== park ? { switchToPark: parks[0] } : {})
+    };
+  }
+};
+
+export const RESPONSE_HANDLERS: ResponseHandler[] = [
+  singleRideWaitHandler,
+  parkWaitTimesHandler,
+  parkHoursHandler,
+  nextShowHandler,
+  paradeTimesHandler,
+  characterLocationHandler
+];
+
+// First handler that serves the intent and can answer from data wins
+export function runResponseHandlers(
+  context: HandlerContext,
+  handlers: ResponseHandler[] = RESPONSE_HANDLERS
+): (HandlerResult & { handler: string }) | null {
+  for (const handler of handlers) {
+    if (!handler.intents.includes(context.analysis.intent)) {
+      continue;
+    }
+    const result = handler.handle(context);
+    if (result) {
+      return { ...result, handler: handler.name };
+    }
+  }
+  return null;
+}
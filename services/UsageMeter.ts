@@ -0,0 +1,198 @@
+// Usage Meter - counts the tokens Pixie Pal spends on model calls and stops calling once a cap is reached
+// Prompts are estimated before each call; what the server reports afterwards is recorded (the estimate when it reports nothing)
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { ChatCompletion, ChatRequest, TokenUsage } from './ChatModels';
+import { logger } from './Logger';
+
+const log = logger.withTag('usage');
+
+export interface UsageCaps {
+  sessionTokens: number;
+  dailyTokens: number;
+}
+
+export interface UsageTotals {
+  calls: number;
+  estimatedCalls: number; // calls the server reported no usage for
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+}
+
+export interface UsageSnapshot {
+  day: string;
+  session: UsageTotals;
+  today: UsageTotals;
+  caps: UsageCaps;
+  blockedCalls: number;
+}
+
+export type UsageCapScope = 'session' | 'daily';
+
+interface StoredUsage {
+  day: string;
+  totals: UsageTotals;
+}
+
+const STORAGE_KEY = 'pixie_pal_usage';
+
+// Close enough for English prompts with JSON tool results; the server's count replaces it after the call
+const CHARS_PER_TOKEN = 4;
+const TOKENS_PER_MESSAGE = 4;
+
+// USD per million tokens, gpt-4o-mini - the same prices the relay charges its budget with
+const PRICING = { inputPerMillionTokens: 0.15, outputPerMillionTokens: 0.6 };
+
+// A chat is a handful of calls of a few thousand tokens each; override with EXPO_PUBLIC_USAGE_*_TOKENS
+export const DEFAULT_USAGE_CAPS: UsageCaps = {
+  sessionTokens: Number(process.env.EXPO_PUBLIC_USAGE_SESSION_TOKENS) || 60000,
+  dailyTokens: Number(process.env.EXPO_PUBLIC_USAGE_DAILY_TOKENS) || 200000
+};
+
+const emptyTotals = (): UsageTotals => ({ calls: 0, estimatedCalls: 0, promptTokens: 0, completionTokens: 0, costUsd: 0 });
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readCount = (value: unknown): number => (typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : 0);
+
+// A counter that isn't a number would make every cap check false, so it counts as zero instead
+const readStoredUsage = (stored: unknown): StoredUsage | null => {
+  if (!isRecord(stored) || typeof stored.day !== 'string' || !isRecord(stored.totals)) {
+    return null;
+  }
+  const { totals } = stored;
+  return {
+    day: stored.day,
+    totals: {
+      calls: readCount(totals.calls),
+      estimatedCalls: readCount(totals.estimatedCalls),
+      promptTokens: readCount(totals.promptTokens),
+      completionTokens: readCount(totals.completionTokens),
+      costUsd: readCount(totals.costUsd)
+    }
+  };
+};
+
+const totalTokens = (totals: UsageTotals): number => totals.promptTokens + totals.completionTokens;
+
+// Local date, so "today" ends when the guest's park day does
+const toDayKey = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const createUsageCapError = (scope: UsageCapScope): Error =>
+  Object.assign(new Error(`${scope === 'session' ? 'Session' : 'Daily'} token cap reached`), { name: 'UsageCapError', scope });
+
+export const isUsageCapError = (error: unknown): boolean => error instanceof Error && error.name === 'UsageCapError';
+
+export const estimateTokens = (text: string | null | undefined): number => Math.ceil((text || '').length / CHARS_PER_TOKEN);
+
+export const estimateRequestTokens = ({ messages, tools }: ChatRequest): number =>
+  messages.reduce((sum, message) => {
+    const toolCalls = message.role === 'assistant' && message.toolCalls ? JSON.stringify(message.toolCalls) : '';
+    return sum + TOKENS_PER_MESSAGE + estimateTokens(message.content) + estimateTokens(toolCalls);
+  }, 0) + (tools ? estimateTokens(JSON.stringify(tools)) : 0);
+
+const estimateCompletionTokens = ({ content, toolCalls }: ChatCompletion): number =>
+  estimateTokens(content) + (toolCalls.length > 0 ? estimateTokens(JSON.stringify(toolCalls)) : 0);
+
+export class UsageMeter {
+  private caps: UsageCaps;
+  private now: () => Date;
+  private day: string;
+  private session = emptyTotals();
+  private today = emptyTotals();
+  private blockedCalls = 0;
+  private loaded: Promise<void> | null = null;
+
+  constructor(caps: UsageCaps = DEFAULT_USAGE_CAPS, now: () => Date = () => new Date()) {
+    this.caps = caps;
+    this.now = now;
+    this.day = toDayKey(now());
+  }
+
+  load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = (async () => {
+        try {
+          const stored = await AsyncStorage.getItem(STORAGE_KEY);
+          const usage = stored ? readStoredUsage(JSON.parse(stored)) : null;
+          if (usage && usage.day === this.day) {
+            this.today = usage.totals;
+          }
+        } catch (error) {
+          log.error('Error loading usage meter', { error });
+        }
+      })();
+    }
+    return this.loaded;
+  }
+
+  // Estimates the prompt and throws a UsageCapError if sending it would go over a cap; returns the estimate
+  async check(request: ChatRequest): Promise<number> {
+    await this.load();
+    this.rollOver();
+
+    const estimate = estimateRequestTokens(request);
+    const scope: UsageCapScope | null =
+      totalTokens(this.session) + estimate > this.caps.sessionTokens ? 'session'
+        : totalTokens(this.today) + estimate > this.caps.dailyTokens ? 'daily'
+        : null;
+
+    if (scope) {
+      this.blockedCalls++;
+      log.warn('Token cap reached, skipping the model call', { scope, estimate });
+      throw createUsageCapError(scope);
+    }
+    return estimate;
+  }
+
+  async record(estimatedPromptTokens: number, completion: ChatCompletion): Promise<void> {
+    await this.load();
+    this.rollOver();
+
+    const usage: TokenUsage = completion.usage || {
+      promptTokens: estimatedPromptTokens,
+      completionTokens: estimateCompletionTokens(completion)
+    };
+    const costUsd = (usage.promptTokens * PRICING.inputPerMillionTokens + usage.completionTokens * PRICING.outputPerMillionTokens) / 1e6;
+
+    [this.session, this.today].forEach(totals => {
+      totals.calls++;
+      totals.estimatedCalls += completion.usage ? 0 : 1;
+      totals.promptTokens += usage.promptTokens;
+      totals.completionTokens += usage.completionTokens;
+      totals.costUsd += costUsd;
+    });
+    log.debug('Model call usage', { ...usage, estimated: !completion.usage });
+
+    try {
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify({ day: this.day, totals: this.today } as StoredUsage));
+    } catch (error) {
+      log.error('Error saving usage meter', { error });
+    }
+  }
+
+  async getSnapshot(): Promise<UsageSnapshot> {
+    await this.load();
+    this.rollOver();
+    return { day: this.day, session: { ...this.session }, today: { ...this.today }, caps: { ...this.caps }, blockedCalls: this.blockedCalls };
+  }
+
+  async reset(): Promise<void> {
+    this.session = emptyTotals();
+    this.today = emptyTotals();
+    this.blockedCalls = 0;
+    await AsyncStorage.removeItem(STORAGE_KEY);
+  }
+
+  private rollOver(): void {
+    const day = toDayKey(this.now());
+    if (day !== this.day) {
+      this.day = day;
+      this.today = emptyTotals();
+    }
+  }
+}
+
+export const usageMeter = new UsageMeter();
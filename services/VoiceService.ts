@@ -1,12 +1,96 @@
 import * as Speech from 'expo-speech';
+import { logger } from './Logger';
+import { getRelayUrl, relayHeaders } from './RelayClient';
+
+const log = logger.withTag('voice');
+
+export interface SentenceSink {
+  speak(sentence: string, interrupt: boolean): Promise<void>;
+  stop(): Promise<void>;
+}
+
+// Splits streamed text into sentences ready to speak; `rest` is the sentence still being written
+export const takeCompleteSentences = (text: string): { sentences: string[]; rest: string } => {
+  const sentences: string[] = [];
+  const boundary = /[.!?✨]+(?=\s)|\n\s*\n/g;
+  let start = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = boundary.exec(text)) !== null) {
+    const sentence = text.slice(start, match.index + match[0].length).trim();
+    if (sentence) sentences.push(sentence);
+    start = match.index + match[0].length;
+  }
+
+  return { sentences, rest: text.slice(start) };
+};
+
+// Speaks a streamed reply one sentence at a time, starting as soon as the first sentence is complete
+export class SentenceSpeaker {
+  private sink: SentenceSink;
+  private buffer = '';
+  private spokenCount = 0;
+  private cancelled = false;
+  private round = 0;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(sink: SentenceSink) {
+    this.sink = sink;
+  }
+
+  push(chunk: string): void {
+    if (this.cancelled) return;
+    const { sentences, rest } = takeCompleteSentences(this.buffer + chunk);
+    this.buffer = rest;
+    sentences.forEach(sentence => this.say(sentence));
+  }
+
+  // Speaks whatever is left once the reply is complete
+  finish(): Promise<void> {
+    if (!this.cancelled && this.buffer.trim()) {
+      this.say(this.buffer.trim());
+    }
+    this.buffer = '';
+    return this.queue;
+  }
+
+  cancel(): Promise<void> {
+    this.cancelled = true;
+    this.buffer = '';
+    return this.sink.stop();
+  }
+
+  // Drops what was said so far and keeps listening, for when the streamed text turns out not to be the answer
+  reset(): Promise<void> {
+    this.round++;
+    this.buffer = '';
+    this.spokenCount = 0;
+    return this.sink.stop();
+  }
+
+  // Chained, so sentences reach the speech queue in order; the first one cuts off earlier speech
+  private say(sentence: string): void {
+    const interrupt = this.spokenCount === 0;
+    const round = this.round;
+    this.spokenCount++;
+    this.queue = this.queue
+      .then(() => (this.cancelled || round !== this.round ? undefined : this.sink.speak(sentence, interrupt)))
+      .catch(error => log.error('Sentence speech failed', { error }));
+  }
+}
+
+// High-quality iOS voices, best first
+const VOICE_OPTIONS = [
+  'com.apple.voice.compact.en-US.Samantha',
+  'com.apple.voice.compact.en-US.Alex',
+  'com.apple.ttsbundle.Samantha-compact',
+  'com.apple.ttsbundle.siri_female_en-US_compact'
+];
 
 export class VoiceService {
   private static instance: VoiceService;
-  private apiKey: string;
 
-  private constructor() {
-    this.apiKey = process.env.EXPO_PUBLIC_OPENAI_API_KEY || '';
-  }
+  private constructor() {}
 
   public static getInstance(): VoiceService {
     if (!VoiceService.instance) {
@@ -15,10 +99,12 @@ export class VoiceService {
     return VoiceService.instance;
   }
 
-  // Convert audio to text using OpenAI Whisper
+  // Convert audio to text using OpenAI Whisper, through the relay so the key stays off the device
   async transcribeAudio(audioUri: string): Promise<string> {
+    const startedAt = Date.now();
+    let status: number | null = null;
     try {
-      console.log('🎤 Transcribing audio with Whisper...');
+      log.debug('Transcribing audio with Whisper');
 
       // Create FormData for audio upload
       const formData = new FormData();
@@ -29,15 +115,14 @@ export class VoiceService {
       } as any);
       formData.append('model', 'whisper-1');
 
-      const response = await fetch('https://api.openai.com/v1/audio/transcriptions', {
+      // No Content-Type: fetch sets multipart/form-data with the boundary itself
+      const response = await fetch(`${getRelayUrl()}/v1/audio/transcriptions`, {
         method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.apiKey}`,
-          'Content-Type': 'multipart/form-data',
-        },
+        headers: relayHeaders(),
         body: formData,
       });
 
+      status = response.status;
       if (!response.ok) {
         throw new Error(`Whisper API failed: ${response.status}`);
       }
@@ -45,81 +130,78 @@ export class VoiceService {
       const result = await response.json();
       const transcription = result.text.trim();
       
-      console.log('✅ Transcription result:', transcription);
+      log.info('Transcription', { latencyMs: Date.now() - startedAt, characters: transcription.length });
+      log.debug('Transcription text', { transcription });
       return transcription;
     } catch (error) {
-      console.error('❌ Transcription error:', error);
+      log.error('Transcription failed', { status, latencyMs: Date.now() - startedAt, error });
       throw new Error('Failed to transcribe audio');
     }
   }
 
   // Convert text to speech and play it - ADVANCED VOICE QUALITY
-  async speakText(text: string): Promise<void> {
-    try {
-      console.log('🔊 Speaking text:', text.substring(0, 50) + '...');
+  async speakText(text: string, voice?: string): Promise<void> {
+    log.debug('Speaking text', { text: text.substring(0, 50) });
 
-      // Stop any current speech
-      const isCurrentlySpeaking = await Speech.isSpeakingAsync();
-      if (isCurrentlySpeaking) {
-        await Speech.stop();
-      }
+    // Clean text for speech (remove emojis and markdown)
+    const cleanText = this.cleanTextForSpeech(text);
+    if (!cleanText) return; // headers that are only emoji
 
-      // Clean text for speech (remove emojis and markdown)
-      const cleanText = this.cleanTextForSpeech(text);
-      console.log('🔊 Clean text for speech:', cleanText);
-
-      // Try different iOS voices for better quality
-      const voiceOptions = [
-        // High-quality iOS voices
-        'com.apple.voice.compact.en-US.Samantha',
-        'com.apple.voice.compact.en-US.Alex',
-        'com.apple.ttsbundle.Samantha-compact',
-        'com.apple.ttsbundle.siri_female_en-US_compact',
-        'en-US-language',
-      ];
-
-      let speechWorked = false;
-
-      // Try each voice until one works well
-      for (const voice of voiceOptions) {
-        try {
-          console.log(`🔊 Trying voice: ${voice}`);
-          
-          await Speech.speak(cleanText, {
-            language: 'en-US',
-            pitch: 1.0,
-            rate: 0.6,  // Even slower for naturalness
-            volume: 1.0,
-            voice: voice,
-          });
-          
-          console.log(`✅ Success with voice: ${voice}`);
-          speechWorked = true;
-          break;
-        } catch (voiceError) {
-          console.log(`❌ Voice ${voice} failed:`, voiceError);
-          continue;
-        }
-      }
+    // Stop any current speech
+    if (await this.isSpeaking()) {
+      await this.stopSpeech();
+    }
+    this.say(cleanText, voice ?? await this.pickVoice());
+  }
 
-      if (!speechWorked) {
-        throw new Error('All voice options failed');
-      }
+  // One sentence of a streamed reply - the first interrupts whatever was playing, the rest queue behind it
+  async speakSentence(sentence: string, interrupt: boolean, voice?: string): Promise<void> {
+    if (interrupt) {
+      await this.speakText(sentence, voice);
+      return;
+    }
+    const cleanText = this.cleanTextForSpeech(sentence);
+    if (cleanText) this.say(cleanText, voice);
+  }
+
+  // The first high-quality iOS voice this device has; the system voice otherwise
+  async pickVoice(): Promise<string | undefined> {
+    try {
+      const available = new Set((await Speech.getAvailableVoicesAsync()).map(voice => voice.identifier));
+      const voice = VOICE_OPTIONS.find(option => available.has(option));
+      log.debug('Speaking with voice', { voice: voice ?? 'default' });
+      return voice;
+    } catch (error) {
+      log.warn('Could not list voices, using the default one', { error });
+      return undefined;
+    }
+  }
 
+  // Speech.speak only queues the text; failures come back through onError
+  private say(cleanText: string, voice: string | undefined): void {
+    try {
+      Speech.speak(cleanText, {
+        language: 'en-US',
+        pitch: 1.0,
+        rate: 0.6,  // Even slower for naturalness
+        volume: 1.0,
+        ...(voice ? { voice } : {}),
+        onError: error => log.error('Speech failed', { voice, error })
+      });
     } catch (error) {
-      console.error('❌ All speech attempts failed:', error);
-      
-      // Final fallback - most basic possible
-      try {
-        console.log('🔄 Final basic fallback...');
-        const fallbackText = this.cleanTextForSpeech(text);
-        await Speech.speak(fallbackText);
-      } catch (fallbackError) {
-        console.error('❌ Even basic speech failed:', fallbackError);
-      }
+      log.error('Speech failed', { voice, error });
     }
   }
 
+  // One voice for the whole answer, so it doesn't change after the first sentence
+  createSentenceSpeaker(): SentenceSpeaker {
+    const voice = this.pickVoice();
+    return new SentenceSpeaker({
+      speak: async (sentence, interrupt) => this.speakSentence(sentence, interrupt, await voice),
+      stop: () => this.stopSpeech()
+    });
+  }
+
   // Clean text for better speech synthesis
   private cleanTextForSpeech(text: string): string {
     return text
@@ -137,7 +219,7 @@ export class VoiceService {
     try {
       await Speech.stop();
     } catch (error) {
-      console.error('Error stopping speech:', error);
+      log.warn('Error stopping speech', { error });
     }
   }
 
@@ -146,7 +228,7 @@ export class VoiceService {
     try {
       return await Speech.isSpeakingAsync();
     } catch (error) {
-      console.error('Error checking speech status:', error);
+      log.warn('Error checking speech status', { error });
       return false;
     }
   }
@@ -191,7 +273,7 @@ export class VoiceService {
       
       return transcription;
     } catch (error) {
-      console.error('❌ Voice processing error:', error);
+      log.error('Voice processing failed', { error });
       throw error;
     }
   }
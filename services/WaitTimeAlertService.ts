@@ -0,0 +1,249 @@
+// Wait Time Alert Service - "tell me when Space Mountain is under 30 minutes" / "when Tron reopens"
+// Alerts are stored in AsyncStorage, checked against every live wait time refresh and
+// delivered once as a local notification (the chat screen adds the in-chat message)
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Notifications from 'expo-notifications';
+import { logger } from './Logger';
+
+const log = logger.withTag('alerts');
+
+export type WaitTimeAlertType = 'low_wait_time' | 'ride_reopened';
+
+export interface WaitTimeAlert {
+  id: string;
+  type: WaitTimeAlertType;
+  attractionId: string;
+  attractionName: string;
+  park: string;
+  threshold?: number; // minutes, for low_wait_time
+  createdAt: string;
+}
+
+export interface AlertAttraction {
+  id: string;
+  name: string;
+  park: string;
+  waitTime: number;
+  isOpen: boolean;
+}
+
+export interface AlertRequest {
+  type: WaitTimeAlertType;
+  threshold?: number;
+}
+
+export interface TriggeredAlert {
+  alert: WaitTimeAlert;
+  attraction: AlertAttraction;
+  title: string;
+  body: string;
+}
+
+export interface AlertNotifier {
+  requestPermission(): Promise<boolean>;
+  notify(title: string, body: string, data: Record<string, unknown>): Promise<void>;
+}
+
+const STORAGE_KEY = 'pixie_pal_wait_time_alerts';
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// An alert that can't be checked or described is dropped; a low wait alert needs its threshold
+const readStoredAlert = (value: unknown): WaitTimeAlert | null => {
+  if (!isRecord(value) || typeof value.id !== 'string' || typeof value.attractionId !== 'string' ||
+    typeof value.attractionName !== 'string' || typeof value.park !== 'string' || typeof value.createdAt !== 'string') {
+    return null;
+  }
+  const { id, attractionId, attractionName, park, createdAt, threshold } = value;
+  if (value.type === 'ride_reopened') {
+    return { id, type: value.type, attractionId, attractionName, park, createdAt };
+  }
+  if (value.type === 'low_wait_time' && typeof threshold === 'number' && threshold > 0) {
+    return { id, type: value.type, attractionId, attractionName, park, threshold, createdAt };
+  }
+  return null;
+};
+
+let notificationHandlerSet = false;
+
+// Local notifications through expo-notifications (shown even while the app is open)
+const setNotificationHandler = () => {
+  if (notificationHandlerSet) {
+    return;
+  }
+  notificationHandlerSet = true;
+  Notifications.setNotificationHandler({
+    handleNotification: async () => ({
+      shouldShowBanner: true,
+      shouldShowList: true,
+      shouldPlaySound: true,
+      shouldSetBadge: false,
+    }),
+  });
+};
+
+export const expoNotifier: AlertNotifier = {
+  async requestPermission() {
+    setNotificationHandler();
+    const current = await Notifications.getPermissionsAsync();
+    if (current.granted) {
+      return true;
+    }
+    const requested = await Notifications.requestPermissionsAsync();
+    return requested.granted;
+  },
+
+  async notify(title, body, data) {
+    setNotificationHandler();
+    await Notifications.scheduleNotificationAsync({
+      content: { title, body, data, sound: 'default' },
+      trigger: null,
+    });
+  }
+};
+
+// Reads "under 30 minutes" / "below 20" / "reopens" out of a chat message
+export const parseAlertRequest = (input: string): AlertRequest | null => {
+  const lower = input.toLowerCase();
+
+  const threshold = lower.match(/(?:under|below|less than|shorter than|drops? to|gets? to)\s*(\d{1,3})\s*(?:min|minutes?|m\b)?/);
+  if (threshold) {
+    return { type: 'low_wait_time', threshold: parseInt(threshold[1], 10) };
+  }
+
+  if (/re-?opens?|back open|opens back up|back up and running|is open again/.test(lower)) {
+    return { type: 'ride_reopened' };
+  }
+
+  return null;
+};
+
+export const isAlertConditionMet = (alert: Pick<WaitTimeAlert, 'type' | 'threshold'>, attraction: AlertAttraction): boolean => {
+  if (!attraction.isOpen) {
+    return false;
+  }
+  return alert.type === 'ride_reopened' || attraction.waitTime < (alert.threshold ?? 0);
+};
+
+export class WaitTimeAlertService {
+  private notifier: AlertNotifier;
+  private alerts: WaitTimeAlert[] | null = null;
+
+  constructor(notifier: AlertNotifier = expoNotifier) {
+    this.notifier = notifier;
+  }
+
+  async getAlerts(): Promise<WaitTimeAlert[]> {
+    if (!this.alerts) {
+      try {
+        const stored = await AsyncStorage.getItem(STORAGE_KEY);
+        const parsed: unknown = stored ? JSON.parse(stored) : [];
+        this.alerts = (Array.isArray(parsed) ? parsed : [])
+          .map(readStoredAlert)
+          .filter((alert): alert is WaitTimeAlert => alert !== null);
+      } catch (error) {
+        log.error('Error loading wait time alerts', { error });
+        this.alerts = [];
+      }
+    }
+    return [...(this.alerts || [])];
+  }
+
+  // Replaces an existing alert for the same ride and type rather than stacking duplicates
+  async addAlert(attraction: AlertAttraction, request: AlertRequest): Promise<WaitTimeAlert> {
+    if (request.type === 'low_wait_time' && !(request.threshold && request.threshold > 0)) {
+      throw new Error('A wait time alert needs a threshold in minutes');
+    }
+
+    const alert: WaitTimeAlert = {
+      id: `alert_${Date.now()}_${attraction.id}`,
+      type: request.type,
+      attractionId: attraction.id,
+      attractionName: attraction.name,
+      park: attraction.park,
+      ...(request.type === 'low_wait_time' ? { threshold: request.threshold } : {}),
+      createdAt: new Date().toISOString()
+    };
+
+    const alerts = (await this.getAlerts()).filter(existing =>
+      !(existing.attractionId === alert.attractionId && existing.type === alert.type)
+    );
+    await this.save([...alerts, alert]);
+    log.info('Alert set', { alert: this.describeAlert(alert) });
+
+    try {
+      if (!(await this.notifier.requestPermission())) {
+        log.warn('Notification permission denied - alerts will only show in chat');
+      }
+    } catch (error) {
+      log.warn('Could not request notification permission', { error });
+    }
+
+    return alert;
+  }
+
+  async removeAlert(alertId: string): Promise<void> {
+    const alerts = await this.getAlerts();
+    await this.save(alerts.filter(alert => alert.id !== alertId));
+  }
+
+  // Fires (and removes) every alert whose condition the latest wait times meet
+  async checkAlerts(attractions: AlertAttraction[]): Promise<TriggeredAlert[]> {
+    const alerts = await this.getAlerts();
+    if (alerts.length === 0) {
+      return [];
+    }
+
+    const byId = new Map(attractions.map(attraction => [attraction.id, attraction]));
+    const triggered: TriggeredAlert[] = [];
+
+    alerts.forEach(alert => {
+      const attraction = byId.get(alert.attractionId);
+      if (attraction && isAlertConditionMet(alert, attraction)) {
+        triggered.push({ alert, attraction, ...this.formatTriggeredAlert(alert, attraction) });
+      }
+    });
+
+    if (triggered.length === 0) {
+      return [];
+    }
+
+    const firedIds = new Set(triggered.map(({ alert }) => alert.id));
+    await this.save(alerts.filter(alert => !firedIds.has(alert.id)));
+
+    for (const { alert, title, body } of triggered) {
+      log.info('Alert triggered', { alert: this.describeAlert(alert) });
+      try {
+        await this.notifier.notify(title, body, { alertId: alert.id, attractionId: alert.attractionId, park: alert.park });
+      } catch (error) {
+        log.error('Failed to send alert notification', { alertId: alert.id, error });
+      }
+    }
+
+    return triggered;
+  }
+
+  describeAlert(alert: Pick<WaitTimeAlert, 'type' | 'attractionName' | 'threshold'>): string {
+    return alert.type === 'ride_reopened'
+      ? `${alert.attractionName} reopens`
+      : `${alert.attractionName} is under ${alert.threshold} minutes`;
+  }
+
+  formatTriggeredAlert(alert: WaitTimeAlert, attraction: AlertAttraction): { title: string; body: string } {
+    return alert.type === 'ride_reopened'
+      ? { title: '🎢 Ride Reopened!', body: `${attraction.name} is open again - current wait ${attraction.waitTime} min` }
+      : { title: '⏰ Short Wait Alert!', body: `${attraction.name} is down to ${attraction.waitTime} min` };
+  }
+
+  private async save(alerts: WaitTimeAlert[]): Promise<void> {
+    this.alerts = alerts;
+    try {
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(alerts));
+    } catch (error) {
+      log.error('Error saving wait time alerts', { error });
+    }
+  }
+}
+
+export const waitTimeAlerts = new WaitTimeAlertService();
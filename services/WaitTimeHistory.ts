@@ -0,0 +1,173 @@
+// Wait Time History - today's wait time samples per attraction, persisted in AsyncStorage
+// Feeds trend questions like "is the line for Slinky Dog going down?"
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { logger } from './Logger';
+import type { Attraction } from './PixiePalDataService';
+
+const log = logger.withTag('history');
+
+export interface WaitTimeSample {
+  at: number;
+  waitTime: number;
+  isOpen: boolean;
+}
+
+export type TrendDirection = 'rising' | 'falling' | 'steady' | 'unknown';
+
+export interface WaitTimeTrend {
+  attractionId: string;
+  windowMinutes: number;
+  spanMinutes: number; // how far back the compared reading actually is, which can be much less than the window
+  samples: WaitTimeSample[];
+  current: number | null;
+  change: number;
+  direction: TrendDirection;
+}
+
+interface AttractionSeries {
+  name: string;
+  park: string;
+  samples: WaitTimeSample[];
+}
+
+interface StoredHistory {
+  day: string;
+  series: Record<string, AttractionSeries>;
+}
+
+const STORAGE_KEY = 'pixie_pal_wait_time_history';
+const MIN_SAMPLE_GAP = 60 * 1000; // at most one sample per minute per ride
+const STEADY_THRESHOLD = 5; // minutes of change that still count as "steady"
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isSample = (value: unknown): value is WaitTimeSample =>
+  isRecord(value) && typeof value.at === 'number' && Number.isFinite(value.at) &&
+  typeof value.waitTime === 'number' && Number.isFinite(value.waitTime) && typeof value.isOpen === 'boolean';
+
+// Series without a name and park are dropped, as are samples that aren't readings
+const readStoredHistory = (stored: unknown): StoredHistory | null => {
+  if (!isRecord(stored) || typeof stored.day !== 'string' || !isRecord(stored.series)) {
+    return null;
+  }
+
+  const series: Record<string, AttractionSeries> = {};
+  Object.entries(stored.series).forEach(([attractionId, entry]) => {
+    if (isRecord(entry) && typeof entry.name === 'string' && typeof entry.park === 'string' && Array.isArray(entry.samples)) {
+      series[attractionId] = { name: entry.name, park: entry.park, samples: entry.samples.filter(isSample) };
+    }
+  });
+  return { day: stored.day, series };
+};
+
+const getDayKey = (time: number): string => {
+  const date = new Date(time);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+export class WaitTimeHistory {
+  private history: StoredHistory = { day: getDayKey(Date.now()), series: {} };
+  private loaded: Promise<void> | null = null;
+
+  // Hydrate from AsyncStorage once; anything from a previous day is dropped
+  load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = (async () => {
+        try {
+          const stored = await AsyncStorage.getItem(STORAGE_KEY);
+          const parsed = stored ? readStoredHistory(JSON.parse(stored)) : null;
+          if (parsed && parsed.day === getDayKey(Date.now())) {
+            this.history = parsed;
+            log.debug('Loaded wait time history', { attractions: Object.keys(parsed.series).length });
+          }
+        } catch (error) {
+          log.error('Error loading wait time history', { error });
+        }
+      })();
+    }
+    return this.loaded;
+  }
+
+  async record(attractions: Attraction[], at: number = Date.now()): Promise<void> {
+    await this.load();
+
+    const day = getDayKey(at);
+    if (day !== this.history.day) {
+      this.history = { day, series: {} };
+    }
+
+    attractions.forEach(attraction => {
+      const series = this.history.series[attraction.id] ||
+        (this.history.series[attraction.id] = { name: attraction.name, park: attraction.park, samples: [] });
+      const last = series.samples[series.samples.length - 1];
+      const sample = { at, waitTime: attraction.waitTime, isOpen: attraction.isOpen };
+
+      if (last && at - last.at < MIN_SAMPLE_GAP) {
+        series.samples[series.samples.length - 1] = sample;
+      } else {
+        series.samples.push(sample);
+      }
+    });
+
+    try {
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(this.history));
+    } catch (error) {
+      log.error('Error saving wait time history', { error });
+    }
+  }
+
+  getSamples(attractionId: string, windowMinutes?: number, now: number = Date.now()): WaitTimeSample[] {
+    const series = this.history.series[attractionId];
+    if (!series || this.history.day !== getDayKey(now)) {
+      return [];
+    }
+    if (windowMinutes === undefined) {
+      return [...series.samples];
+    }
+
+    const since = now - windowMinutes * 60 * 1000;
+    return series.samples.filter(sample => sample.at >= since);
+  }
+
+  // Change from the start of the window to now, counting only samples while the ride was open
+  getTrend(attractionId: string, windowMinutes: number = 60, now: number = Date.now()): WaitTimeTrend {
+    const samples = this.getSamples(attractionId, windowMinutes, now);
+    const openSamples = samples.filter(sample => sample.isOpen);
+    const latest = samples[samples.length - 1];
+    const current = latest && latest.isOpen ? latest.waitTime : null;
+
+    if (openSamples.length < 2 || current === null) {
+      return { attractionId, windowMinutes, spanMinutes: 0, samples, current, change: 0, direction: 'unknown' };
+    }
+
+    const change = current - openSamples[0].waitTime;
+    const spanMinutes = Math.round((now - openSamples[0].at) / 60000);
+    const direction: TrendDirection =
+      Math.abs(change) < STEADY_THRESHOLD ? 'steady' : change > 0 ? 'rising' : 'falling';
+
+    return { attractionId, windowMinutes, spanMinutes, samples, current, change, direction };
+  }
+
+  getDirection(attractionId: string, windowMinutes: number = 60, now: number = Date.now()): TrendDirection {
+    return this.getTrend(attractionId, windowMinutes, now).direction;
+  }
+
+  getLowestToday(attractionId: string, now: number = Date.now()): WaitTimeSample | null {
+    return this.getSamples(attractionId, undefined, now)
+      .filter(sample => sample.isOpen)
+      .reduce<WaitTimeSample | null>((lowest, sample) =>
+        !lowest || sample.waitTime < lowest.waitTime ? sample : lowest, null);
+  }
+
+  async clear(): Promise<void> {
+    this.history = { day: getDayKey(Date.now()), series: {} };
+    try {
+      await AsyncStorage.removeItem(STORAGE_KEY);
+    } catch (error) {
+      log.error('Error clearing wait time history', { error });
+    }
+  }
+}
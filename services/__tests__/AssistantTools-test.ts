@@ -0,0 +1,137 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { AssistantToolbox } from '../AssistantTools';
+import type { ToolCall } from '../ChatModels';
+import { ParkDataCache } from '../ParkDataCache';
+import { FixtureDataSource, InMemoryDataSource, ParkDataSource } from '../ParkDataSources';
+import { UnifiedPixiePalService } from '../PixiePalDataService';
+
+const fixtures = require('../../fixtures/disney-proxy.json');
+
+// 2:30 PM on the fixture day
+const now = () => new Date(2025, 6, 20, 14, 30);
+
+const createToolbox = (source: ParkDataSource = new FixtureDataSource(fixtures)) =>
+  new AssistantToolbox(new UnifiedPixiePalService(source, new ParkDataCache()), now);
+
+const call = async (toolbox: AssistantToolbox, name: string, args: object) => {
+  const toolCall: ToolCall = { id: `call_${name}`, name, arguments: JSON.stringify(args) };
+  const result = await toolbox.run(toolCall);
+  expect(result.toolCallId).toBe(toolCall.id);
+  return JSON.parse(result.content);
+};
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('get_wait_time', () => {
+  it('finds a ride at any park by nickname and says where the number came from', async () => {
+    const result = await call(createToolbox(), 'get_wait_time', { attraction: 'RnRC' });
+
+    expect(result).toMatchObject({
+      name: "Rock 'n' Roller Coaster Starring Aerosmith",
+      park: "Disney's Hollywood Studios",
+      isOpen: false,
+      waitTime: null,
+      origin: 'live',
+      dataAge: 'just now'
+    });
+    expect(result.fetchedAt).toEqual(expect.any(String));
+  });
+
+  it('asks back when the name matches several rides', async () => {
+    const result = await call(createToolbox(), 'get_wait_time', { attraction: 'the mountain' });
+
+    expect(result.error).toContain('more than one ride');
+    expect(result.candidates).toHaveLength(3);
+  });
+
+  it('refuses to quote fallback wait times', async () => {
+    const result = await call(createToolbox(new InMemoryDataSource()), 'get_wait_time', { attraction: 'Space Mountain' });
+
+    expect(result).toEqual({ error: 'Live wait times are unavailable right now' });
+  });
+});
+
+describe('list_shortest_waits', () => {
+  it('ranks open rides at one park', async () => {
+    const result = await call(createToolbox(), 'list_shortest_waits', { park: 'hollywoodStudios', n: 2 });
+
+    expect(result.park).toBe("Disney's Hollywood Studios");
+    expect(result.rides.map((ride: { name: string }) => ride.name)).toEqual(['Alien Swirling Saucers', "Mickey & Minnie's Runaway Railway"]);
+  });
+
+  it('compares every park when no park is given', async () => {
+    const result = await call(createToolbox(), 'list_shortest_waits', { n: 3 });
+
+    expect(result.park).toBe('All parks');
+    expect(result.rides.map((ride: { waitTime: number }) => ride.waitTime)).toEqual([5, 10, 10]);
+  });
+});
+
+describe('get_park_hours', () => {
+  it('answers for today unless a date is given, accepting park names', async () => {
+    const toolbox = createToolbox();
+
+    expect(await call(toolbox, 'get_park_hours', { park: 'EPCOT' })).toMatchObject({
+      park: 'EPCOT', date: '2025-07-20', isOpen: true, openingTime: '9:00 AM', closingTime: '9:00 PM'
+    });
+    expect((await call(toolbox, 'get_park_hours', { park: 'epcot', date: '2025-07-22' })).date).toBe('2025-07-22');
+    expect((await call(toolbox, 'get_park_hours', { park: 'epcot', date: '2025-12-25' })).error).toBe('No hours published for 2025-12-25');
+  });
+});
+
+describe('next_showtime', () => {
+  it('finds the next performance after now', async () => {
+    const result = await call(createToolbox(), 'next_showtime', { show: 'Festival of the Lion King' });
+
+    expect(result.shows).toEqual([expect.objectContaining({
+      park: "Disney's Animal Kingdom",
+      times: ['10:30 AM', '12:30 PM', '2:30 PM', '4:30 PM'],
+      nextShowtime: '2:30 PM',
+      minutesUntilNext: 0
+    })]);
+  });
+
+  it('lists fireworks across parks', async () => {
+    const result = await call(createToolbox(), 'next_showtime', { show: 'fireworks' });
+
+    expect(result.shows.map((show: { name: string }) => show.name)).toEqual([
+      'Happily Ever After',
+      'Luminous The Symphony of Us',
+      'Wonderful World of Animation'
+    ]);
+  });
+
+  it('counts a parade once even though both lists carry it', async () => {
+    const result = await call(createToolbox(), 'next_showtime', { show: 'parade', park: 'magicKingdom' });
+
+    expect(result.shows.map((show: { name: string; nextShowtime: string }) => [show.name, show.nextShowtime])).toEqual([
+      ['Disney Festival of Fantasy Parade', '3:00 PM'],
+      ['Disney Starlight: Dream the Night Away', '8:00 PM']
+    ]);
+  });
+});
+
+it('turns bad arguments and unknown tools into errors for the model', async () => {
+  const toolbox = createToolbox();
+
+  expect(JSON.parse((await toolbox.run({ id: 'a', name: 'get_wait_time', arguments: '{not json' })).content).error)
+    .toContain("Couldn't run get_wait_time");
+  expect(await call(toolbox, 'book_dining', {})).toEqual({ error: 'Unknown tool book_dining' });
+});
+
+it('refuses a missing or blank name instead of matching everything', async () => {
+  const toolbox = createToolbox();
+
+  expect(await call(toolbox, 'next_showtime', {})).toEqual({ error: 'next_showtime needs a show name' });
+  expect(await call(toolbox, 'next_showtime', { show: '  ', park: 'magicKingdom' })).toEqual({ error: 'next_showtime needs a show name' });
+  expect(await call(toolbox, 'get_wait_time', { attraction: '' })).toEqual({ error: 'get_wait_time needs an attraction name' });
+  expect(await call(toolbox, 'get_wait_time', { attraction: 42 })).toEqual({ error: 'get_wait_time needs an attraction name' });
+});
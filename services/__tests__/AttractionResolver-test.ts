@@ -0,0 +1,102 @@
+import {
+  AttractionResolver,
+  editDistance,
+  formatDidYouMean,
+  resolveAttraction,
+  resolveAttractionName
+} from '../AttractionResolver';
+
+const fixtures = require('../../fixtures/disney-proxy.json');
+
+const liveAttractions: { id: string; name: string; park: string }[] = Object.values(fixtures['wait-times'])
+  .flatMap((park: any) => park.attractions.map((attraction: any) => ({ id: attraction.id, name: attraction.name, park: 'live' })));
+
+const resolver = new AttractionResolver(liveAttractions);
+
+describe('resolve against live names', () => {
+  it.each([
+    ['how long is Rise right now?', 'Star Wars: Rise of the Resistance'],
+    ['flight of passage wait', 'Avatar Flight of Passage'],
+    ['is RnRC open', "Rock 'n' Roller Coaster Starring Aerosmith"],
+    ['guardians line', 'Guardians of the Galaxy: Cosmic Rewind'],
+    ['7DMT wait time', 'Seven Dwarfs Mine Train'],
+    ['space mountian', 'Space Mountain'],
+    ['slinky dgo dash', 'Slinky Dog Dash'],
+    ['tell me when tron reopens', 'TRON Lightcycle / Run'],
+    ['everest', 'Expedition Everest - Legend of the Forbidden Mountain'],
+    ['the seas with nemo and friends', 'The Seas with Nemo & Friends'],
+    ['soarin', "Soarin' Around the World"],
+    ['mickey and minnies runaway railway', "Mickey & Minnie's Runaway Railway"],
+    ['what about splash mountain', "Tiana's Bayou Adventure"],
+    ['is pirates open', 'Pirates of the Caribbean'],
+    ['whats the wait for tiana', "Tiana's Bayou Adventure"],
+    ['rise', 'Star Wars: Rise of the Resistance']
+  ])('%p -> %p', (input, expected) => {
+    const resolution = resolver.resolve(input);
+
+    expect(resolution.match?.name).toBe(expected);
+    expect(resolution.confidence).toBeGreaterThanOrEqual(0.6);
+    expect(resolution.isAmbiguous).toBe(false);
+  });
+
+  it('gives full names more confidence than a single distinctive word', () => {
+    expect(resolver.resolve('expedition everest').confidence).toBeGreaterThan(resolver.resolve('legend of the forbidden').confidence);
+  });
+
+  it.each([
+    ['where can I get a dole whip'],
+    ['is it busy'],
+    ['will the wait rise later'],
+    ['is there a splash pad'],
+    ['where is the avatar gift shop'],
+    ['can we meet tiana'],
+    ['are there pirates at the resort pool'],
+    ['which mansion has the best food'],
+    ['does the safari hat shop take cards'],
+    ['my kid wants a buzz toy']
+  ])('finds nothing in %p', input => {
+    expect(resolver.resolve(input)).toEqual({ match: null, confidence: 0, candidates: [], isAmbiguous: false });
+  });
+});
+
+describe('ties', () => {
+  it('asks which mountain the guest meant', () => {
+    const resolution = resolver.resolve("what's the wait on the mountain");
+
+    expect(resolution.isAmbiguous).toBe(true);
+    expect(resolution.match).toBeNull();
+    expect(resolution.candidates.map(candidate => candidate.attraction.name).sort()).toEqual([
+      'Big Thunder Mountain Railroad',
+      'Expedition Everest - Legend of the Forbidden Mountain',
+      'Space Mountain'
+    ]);
+    expect(formatDidYouMean(['Space Mountain', 'Big Thunder Mountain Railroad', 'Expedition Everest'])).toBe(
+      '🤔 Did you mean **Space Mountain**, **Big Thunder Mountain Railroad** or **Expedition Everest**?'
+    );
+  });
+});
+
+describe('without live data', () => {
+  it('matches nothing, since there is no wait time or status to quote', () => {
+    expect(resolveAttraction('space mountain', [])).toEqual({ match: null, confidence: 0, candidates: [], isAmbiguous: false });
+    expect(resolveAttraction('rotr').match).toBeNull();
+  });
+
+  it('still resolves names from the alias table, where splash mountain is now Tiana', () => {
+    expect(resolveAttractionName('rotr').match).toMatchObject({ name: 'Rise of the Resistance', park: 'hollywoodStudios' });
+    expect(resolveAttractionName('splash mountain').match?.name).toBe('Tiana\'s Bayou Adventure');
+  });
+
+  it('caches one resolver per live list', () => {
+    const first = resolveAttraction('slinky', liveAttractions);
+    const second = resolveAttraction('slinky', liveAttractions);
+
+    expect(first.match).toBe(second.match);
+    expect(first.match).toBe(liveAttractions.find(attraction => attraction.name === 'Slinky Dog Dash'));
+  });
+});
+
+it('counts a swapped pair of letters as one edit', () => {
+  expect(editDistance('mountian', 'mountain')).toBe(1);
+  expect(editDistance('kitten', 'sitting')).toBe(3);
+});
@@ -0,0 +1,121 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { CHAT_HISTORY_VERSION, ChatHistoryStore, HistoryMessage, createChatSession, getParkDay } from '../ChatHistory';
+import { EMPTY_CONVERSATION } from '../ConversationState';
+
+const message = (id: string, at: Date, extra: Partial<HistoryMessage> = {}): HistoryMessage => ({
+  id,
+  text: `message ${id}`,
+  isUser: false,
+  timestamp: at,
+  ...extra
+});
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+it('counts the small hours as part of the park day before', () => {
+  expect(getParkDay(new Date(2025, 6, 20, 23, 30))).toBe('2025-07-20');
+  expect(getParkDay(new Date(2025, 6, 21, 1, 15))).toBe('2025-07-20');
+  expect(getParkDay(new Date(2025, 6, 21, 4, 0))).toBe('2025-07-21');
+});
+
+it('restores the day\'s conversation after a restart', async () => {
+  const now = new Date(2025, 6, 20, 14, 30);
+  const session = {
+    ...createChatSession('epcot', now),
+    messages: [
+      message('q', now, { isUser: true, text: 'how long is Frozen?' }),
+      message('a', now, {
+        showFeedback: true,
+        payload: { title: 'Frozen Ever After', sections: [{ kind: 'note', text: '⏰ 45 min' }] },
+        feedback: { type: 'positive', timestamp: now }
+      })
+    ],
+    conversation: { ...EMPTY_CONVERSATION, park: 'epcot' as const, attraction: 'Frozen Ever After' }
+  };
+  await new ChatHistoryStore(() => now).save(session);
+
+  const restored = await new ChatHistoryStore(() => new Date(2025, 6, 20, 18, 0)).getCurrentSession();
+
+  expect(restored).toEqual(session);
+  expect(restored?.messages[1].feedback?.timestamp).toBeInstanceOf(Date);
+});
+
+it('starts a new session on the next park day', async () => {
+  const now = new Date(2025, 6, 20, 22, 0);
+  await new ChatHistoryStore(() => now).save({ ...createChatSession('magicKingdom', now), messages: [message('a', now)] });
+
+  expect(await new ChatHistoryStore(() => new Date(2025, 6, 21, 2, 0)).getCurrentSession()).not.toBeNull();
+  expect(await new ChatHistoryStore(() => new Date(2025, 6, 21, 9, 0)).getCurrentSession()).toBeNull();
+});
+
+it('picks the newest session when a new day was started by hand', async () => {
+  const store = new ChatHistoryStore(() => new Date(2025, 6, 20, 16, 0));
+  await store.save({ ...createChatSession('epcot', new Date(2025, 6, 20, 9, 0)), messages: [message('morning', new Date(2025, 6, 20, 9, 0))] });
+  await store.save({ ...createChatSession('epcot', new Date(2025, 6, 20, 15, 0)), messages: [message('afternoon', new Date(2025, 6, 20, 15, 0))] });
+
+  expect((await store.getCurrentSession())?.messages[0].id).toBe('afternoon');
+});
+
+it('prunes old sessions and long conversations', async () => {
+  const today = new Date(2025, 7, 20, 12, 0);
+  const store = new ChatHistoryStore(() => today);
+  await store.save({ ...createChatSession(null, new Date(2025, 6, 1, 12, 0)), messages: [message('old', new Date(2025, 6, 1, 12, 0))] });
+  for (let day = 7; day <= 19; day++) {
+    const at = new Date(2025, 7, day, 12, 0);
+    await store.save({ ...createChatSession(null, at), messages: [message(`day-${day}`, at)] });
+  }
+  await store.save({
+    ...createChatSession(null, today),
+    messages: Array.from({ length: 250 }, (_, index) => message(`m${index}`, today))
+  });
+
+  const stored = JSON.parse((await AsyncStorage.getItem('pixie_pal_chat_history'))!);
+  expect(stored.version).toBe(CHAT_HISTORY_VERSION);
+  expect(stored.sessions).toHaveLength(10);
+  // Too old, then beyond the newest ten
+  expect(stored.sessions.map((session: { day: string }) => session.day)).not.toContain('2025-07-01');
+  expect(stored.sessions[9].day).toBe('2025-08-11');
+  expect(stored.sessions[0].messages).toHaveLength(200);
+  expect(stored.sessions[0].messages[0].id).toBe('m50');
+});
+
+it('starts over when the stored schema version is unknown', async () => {
+  const now = new Date(2025, 6, 20, 14, 30);
+  await AsyncStorage.setItem('pixie_pal_chat_history', JSON.stringify({
+    version: CHAT_HISTORY_VERSION + 1,
+    sessions: [{ ...createChatSession(null, now), messages: [{ id: 'a', text: 'hi', isUser: true, timestamp: now.toISOString() }] }]
+  }));
+
+  expect(await new ChatHistoryStore(() => now).getCurrentSession()).toBeNull();
+});
+
+it('drops corrupt sessions and messages instead of failing to restore', async () => {
+  const now = new Date(2025, 6, 20, 14, 30);
+  const good = { id: 'a', text: 'hi', isUser: true, timestamp: now.toISOString() };
+  await AsyncStorage.setItem('pixie_pal_chat_history', JSON.stringify({
+    version: CHAT_HISTORY_VERSION,
+    sessions: [
+      null,
+      { id: 'broken', day: '2025-07-20', startedAt: 'not a date', messages: [good] },
+      {
+        ...createChatSession('epcot', now),
+        conversation: 'garbage',
+        messages: [good, { id: 'b', text: 'no time', isUser: false, timestamp: 'soon' }, { ...good, id: 'c', feedback: 'up' }]
+      }
+    ]
+  }));
+
+  const restored = await new ChatHistoryStore(() => now).getCurrentSession();
+
+  expect(restored?.park).toBe('epcot');
+  expect(restored?.conversation).toEqual(EMPTY_CONVERSATION);
+  expect(restored?.messages).toEqual([{ ...good, timestamp: now }]);
+});
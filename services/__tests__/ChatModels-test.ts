@@ -0,0 +1,208 @@
+import { OpenAIChatModel, ScriptedChatModel, isAbortError } from '../ChatModels';
+
+const okResponse = (message: object) => ({
+  ok: true,
+  status: 200,
+  json: async () => ({ choices: [{ message }] })
+});
+
+// Stands in for React Native's XMLHttpRequest; tests push server-sent events through it
+class FakeXMLHttpRequest {
+  static last: FakeXMLHttpRequest;
+  status = 200;
+  responseText = '';
+  timeout = 0;
+  headers: Record<string, string> = {};
+  url = '';
+  body = '';
+  aborted = false;
+  onprogress: (() => void) | null = null;
+  onload: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+  ontimeout: (() => void) | null = null;
+
+  constructor() {
+    FakeXMLHttpRequest.last = this;
+  }
+
+  open(_method: string, url: string) {
+    this.url = url;
+  }
+
+  setRequestHeader(name: string, value: string) {
+    this.headers[name] = value;
+  }
+
+  send(body: string) {
+    this.body = body;
+  }
+
+  abort() {
+    this.aborted = true;
+  }
+
+  emit(...events: object[]) {
+    this.responseText += events.map(event => `data: ${JSON.stringify(event)}\n\n`).join('');
+    this.onprogress?.();
+  }
+
+  finish() {
+    this.responseText += 'data: [DONE]\n\n';
+    this.onload?.();
+  }
+}
+
+const delta = (value: object) => ({ choices: [{ delta: value }] });
+
+const originalXMLHttpRequest = global.XMLHttpRequest;
+
+afterEach(() => {
+  jest.restoreAllMocks();
+  global.XMLHttpRequest = originalXMLHttpRequest;
+});
+
+describe('OpenAIChatModel', () => {
+  it('posts to an OpenAI-compatible base URL and maps tool calls both ways', async () => {
+    const fetchMock = jest.spyOn(global, 'fetch').mockResolvedValue(okResponse({
+      content: null,
+      tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'get_wait_time', arguments: '{"attraction":"Rise"}' } }]
+    }) as unknown as Response);
+    const model = new OpenAIChatModel({ baseUrl: 'http://localhost:11434/v1/', model: 'llama3.1', maxTokens: 200 });
+
+    const completion = await model.complete({
+      messages: [
+        { role: 'user', content: 'how long is rise' },
+        { role: 'assistant', content: null, toolCalls: [{ id: 'call_0', name: 'list_shortest_waits', arguments: '{}' }] },
+        { role: 'tool', toolCallId: 'call_0', content: '{"rides":[]}' }
+      ],
+      tools: []
+    });
+
+    expect(completion).toEqual({ content: null, toolCalls: [{ id: 'call_1', name: 'get_wait_time', arguments: '{"attraction":"Rise"}' }] });
+    expect(model.name).toBe('openai:llama3.1');
+
+    const [url, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+    const body = JSON.parse(init.body as string);
+    expect(url).toBe('http://localhost:11434/v1/chat/completions');
+    expect((init.headers as Record<string, string>).Authorization).toBeUndefined();
+    expect(body).toMatchObject({ model: 'llama3.1', max_tokens: 200, temperature: 0.2 });
+    expect(body.tools).toBeUndefined();
+    expect(body.messages[1].tool_calls[0]).toEqual({ id: 'call_0', type: 'function', function: { name: 'list_shortest_waits', arguments: '{}' } });
+    expect(body.messages[2]).toEqual({ role: 'tool', tool_call_id: 'call_0', content: '{"rides":[]}' });
+  });
+
+  it('throws on an error status', async () => {
+    jest.spyOn(global, 'fetch').mockResolvedValue({ ok: false, status: 429 } as Response);
+
+    await expect(new OpenAIChatModel({ apiKey: 'sk-test' }).complete({ messages: [] })).rejects.toThrow('OpenAI API failed: 429');
+  });
+});
+
+describe('ScriptedChatModel', () => {
+  it('plays replies in order, records requests and throws when it runs out', async () => {
+    const model = new ScriptedChatModel([{ content: 'first' }]).reply(request => ({ content: `saw ${request.messages.length}` }));
+
+    expect(await model.complete({ messages: [] })).toEqual({ content: 'first', toolCalls: [] });
+    expect((await model.complete({ messages: [{ role: 'user', content: 'hi' }] })).content).toBe('saw 1');
+    await expect(model.complete({ messages: [] })).rejects.toThrow('Scripted chat model has no reply left');
+    expect(model.requests).toHaveLength(3);
+  });
+});
+
+describe('OpenAIChatModel streaming', () => {
+  beforeEach(() => {
+    global.XMLHttpRequest = FakeXMLHttpRequest as unknown as typeof XMLHttpRequest;
+  });
+
+  it('hands text to onText as it arrives and assembles streamed tool calls', async () => {
+    const chunks: string[] = [];
+    const onToolCalls = jest.fn();
+    const completion = new OpenAIChatModel({ apiKey: 'sk-test' }).complete({ messages: [] }, { onText: chunk => chunks.push(chunk), onToolCalls });
+    const xhr = FakeXMLHttpRequest.last;
+
+    xhr.emit(delta({ content: 'Great ' }), delta({ content: 'news!' }));
+    expect(chunks).toEqual(['Great ', 'news!']);
+    expect(onToolCalls).not.toHaveBeenCalled();
+
+    xhr.emit(
+      delta({ tool_calls: [{ index: 0, id: 'call_1', function: { name: 'get_wait_time', arguments: '{"attr' } }] }),
+      delta({ tool_calls: [{ index: 0, function: { arguments: 'action":"Rise"}' } }] })
+    );
+    expect(onToolCalls).toHaveBeenCalledTimes(1);
+    xhr.finish();
+
+    expect(await completion).toEqual({
+      content: 'Great news!',
+      toolCalls: [{ id: 'call_1', name: 'get_wait_time', arguments: '{"attraction":"Rise"}' }]
+    });
+    expect(JSON.parse(xhr.body).stream).toBe(true);
+    expect(xhr.headers.Authorization).toBe('Bearer sk-test');
+  });
+
+  it('waits for the rest of an event split across progress updates', async () => {
+    const chunks: string[] = [];
+    const completion = new OpenAIChatModel().complete({ messages: [] }, { onText: chunk => chunks.push(chunk) });
+    const xhr = FakeXMLHttpRequest.last;
+
+    xhr.responseText = 'data: {"choices":[{"delta":{"con';
+    xhr.onprogress?.();
+    expect(chunks).toEqual([]);
+
+    xhr.responseText += 'tent":"Hi!"}}]}\n';
+    xhr.finish();
+
+    expect((await completion).content).toBe('Hi!');
+    expect(chunks).toEqual(['Hi!']);
+  });
+
+  it('asks for token usage and reads it from the last event', async () => {
+    const completion = new OpenAIChatModel().complete({ messages: [] }, { onText: () => {} });
+    const xhr = FakeXMLHttpRequest.last;
+
+    xhr.emit(delta({ content: 'Hi!' }), { choices: [], usage: { prompt_tokens: 812, completion_tokens: 14 } });
+    xhr.finish();
+
+    expect(await completion).toEqual({ content: 'Hi!', toolCalls: [], usage: { promptTokens: 812, completionTokens: 14 } });
+    expect(JSON.parse(xhr.body).stream_options).toEqual({ include_usage: true });
+  });
+
+  it('fails the completion on a malformed event instead of throwing from the progress callback', async () => {
+    const completion = new OpenAIChatModel().complete({ messages: [] }, { onText: () => {} });
+    const xhr = FakeXMLHttpRequest.last;
+
+    xhr.responseText = 'data: {"choices":[{"delta":{"content":"Hi"}}]}\n\ndata: <html>Bad gateway</html>\n\n';
+    expect(() => xhr.onprogress?.()).not.toThrow();
+
+    await expect(completion).rejects.toThrow(SyntaxError);
+    expect(xhr.aborted).toBe(true);
+  });
+
+  it('stops the request when cancelled', async () => {
+    const controller = new AbortController();
+    const completion = new OpenAIChatModel().complete({ messages: [] }, { onText: () => {}, signal: controller.signal });
+
+    controller.abort();
+
+    await expect(completion).rejects.toMatchObject({ name: 'AbortError' });
+    expect(FakeXMLHttpRequest.last.aborted).toBe(true);
+  });
+});
+
+describe('ScriptedChatModel streaming', () => {
+  it('streams word by word and can be cancelled mid-reply', async () => {
+    const controller = new AbortController();
+    const chunks: string[] = [];
+    const model = new ScriptedChatModel([{ content: 'Space Mountain is 25 minutes.' }]);
+
+    const error = await model.complete({ messages: [] }, {
+      signal: controller.signal,
+      onText: chunk => {
+        chunks.push(chunk);
+        if (chunks.length === 2) controller.abort();
+      }
+    }).catch(e => e);
+
+    expect(isAbortError(error)).toBe(true);
+    expect(chunks).toEqual(['Space ', 'Mountain ']);
+  });
+});
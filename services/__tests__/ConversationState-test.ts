@@ -0,0 +1,129 @@
+import {
+  ConversationState,
+  EMPTY_CONVERSATION,
+  FollowUpOptions,
+  describeConversationState,
+  recordTurn,
+  resolveFollowUp,
+  resolveTimeReference,
+  updateConversationState
+} from '../ConversationState';
+import type { ParkEntertainment } from '../ResponseHandlers';
+
+const entertainment: ParkEntertainment[] = [{
+  park: 'magicKingdom',
+  entertainment: [
+    { name: 'Mickey\'s Royal Friendship Faire', times: ['11:00 AM', '3:30 PM', '5:30 PM'], location: 'Cinderella Castle', type: 'show' },
+    { name: 'Happily Ever After', times: ['9:00 PM'], location: 'Cinderella Castle', type: 'fireworks', duration: 18 }
+  ],
+  parades: [
+    { name: 'Disney Festival of Fantasy Parade', times: ['12:00 PM', '3:00 PM'], location: 'Frontierland', type: 'parade', duration: 20 }
+  ]
+}];
+
+const options: FollowUpOptions = {
+  attractions: [
+    { name: 'Space Mountain', park: 'magicKingdom' },
+    { name: 'Test Track', park: 'epcot' },
+    { name: 'Avatar Flight of Passage', park: 'animalKingdom' }
+  ],
+  characters: ['Mickey Mouse', 'Elsa'],
+  park: 'magicKingdom',
+  entertainment,
+  now: new Date(2025, 6, 20, 14, 30)
+};
+
+// Runs a conversation the way the chat screen does, returning the state after each question
+const ask = (state: ConversationState, input: string) => {
+  const resolved = resolveFollowUp(input, state, options);
+  return { resolved, state: updateConversationState(state, resolved.analysis, resolved.analysis.slots.park || options.park) };
+};
+
+describe('resolveFollowUp', () => {
+  it('fills "it" with the ride from the last question', () => {
+    const first = ask(EMPTY_CONVERSATION, 'how long is space mountain');
+    const { resolved } = ask(first.state, 'is it shorter now?');
+
+    expect(resolved.question).toBe('is Space Mountain shorter now?');
+    expect(resolved.analysis.intent).toBe('wait_trend');
+    expect(resolved.analysis.slots.attraction).toBe('Space Mountain');
+    expect(resolved.isFollowUp).toBe(true);
+  });
+
+  it('carries the last question over to another park', () => {
+    const first = ask(EMPTY_CONVERSATION, 'when are the fireworks');
+    const { resolved } = ask(first.state, 'what about at EPCOT?');
+
+    expect(resolved.analysis.intent).toBe('fireworks');
+    expect(resolved.analysis.slots.park).toBe('epcot');
+  });
+
+  it('shows park waits when a ride question moves to another park', () => {
+    const first = ask(EMPTY_CONVERSATION, 'space mountain wait');
+    const { resolved } = ask(first.state, 'what about epcot');
+
+    expect(resolved.analysis.intent).toBe('wait_times');
+    expect(resolved.analysis.slots.attraction).toBeNull();
+  });
+
+  it('keeps asking about the same ride for "and now?"', () => {
+    const first = ask(EMPTY_CONVERSATION, 'space mountain wait');
+    const { resolved } = ask(first.state, 'and now?');
+
+    expect(resolved.analysis.intent).toBe('ride_wait');
+    expect(resolved.question).toBe('Space Mountain and now?');
+  });
+
+  it('turns "after the parade" into a time window for the last question', () => {
+    const first = ask(EMPTY_CONVERSATION, 'when is the next show');
+    const { resolved, state } = ask(first.state, 'and after the parade?');
+
+    expect(resolved.analysis.intent).toBe('show_times');
+    expect(resolved.analysis.slots.time).toBe('3:20 PM');
+    expect(state.time).toBe('3:20 PM');
+  });
+
+  it('fills "her" with the last character', () => {
+    const first = ask(EMPTY_CONVERSATION, 'where can I meet elsa');
+    const { resolved } = ask(first.state, 'when can we see her?');
+
+    expect(resolved.question).toBe('when can we see elsa?');
+    expect(resolved.analysis.intent).toBe('character_meet');
+  });
+
+  it('leaves fresh questions alone', () => {
+    const first = ask(EMPTY_CONVERSATION, 'space mountain wait');
+    const { resolved } = ask(first.state, 'what time is it');
+
+    expect(resolved.question).toBe('what time is it');
+    expect(resolved.isFollowUp).toBe(false);
+  });
+});
+
+describe('resolveTimeReference', () => {
+  it('uses the next performance that has not started yet', () => {
+    expect(resolveTimeReference('after the fireworks', entertainment[0], options.now)).toBe('9:18 PM');
+    expect(resolveTimeReference('after the parade', entertainment[0], new Date(2025, 6, 20, 16, 0))).toBeNull();
+    expect(resolveTimeReference('after lunch', entertainment[0], options.now)).toBeNull();
+  });
+});
+
+describe('conversation history', () => {
+  it('keeps the most recent turns for the model', () => {
+    let state = EMPTY_CONVERSATION;
+    for (let turn = 1; turn <= 6; turn++) {
+      state = recordTurn(state, `question ${turn}`, `answer ${turn}`);
+    }
+
+    expect(state.turns).toHaveLength(8);
+    expect(state.turns[0]).toEqual({ role: 'user', content: 'question 3' });
+    expect(state.turns[7]).toEqual({ role: 'assistant', content: 'answer 6' });
+  });
+
+  it('summarises what the chat is about', () => {
+    const { state } = ask(EMPTY_CONVERSATION, 'space mountain wait right now');
+
+    expect(describeConversationState(state)).toBe('Ride: Space Mountain • Time window: right now');
+    expect(describeConversationState(EMPTY_CONVERSATION)).toBeNull();
+  });
+});
@@ -0,0 +1,84 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { FeedbackEntry, FeedbackStore, feedbackToCsv, filterFeedback, getDataAgeMinutes } from '../FeedbackService';
+
+const entry = (overrides: Partial<Omit<FeedbackEntry, 'id'>> = {}): Omit<FeedbackEntry, 'id'> => ({
+  messageId: 'ai_1',
+  feedbackType: 'negative',
+  reason: 'wrong_info',
+  comment: null,
+  timestamp: '2025-07-20T18:30:00.000Z',
+  park: 'magicKingdom',
+  messageText: '**Space Mountain**\n⏰ 45 min',
+  question: 'how long is space mountain?',
+  route: 'ai',
+  dataAgeMinutes: 3,
+  ...overrides
+});
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+it('keeps feedback newest first, alongside entries saved before reasons existed', async () => {
+  await AsyncStorage.setItem('pixie_pal_feedback', JSON.stringify([
+    { messageId: 'ai_0', feedbackType: 'positive', timestamp: '2025-07-19T12:00:00.000Z', park: 'epcot', messageText: 'EPCOT is open' }
+  ]));
+  const store = new FeedbackStore();
+
+  await store.add(entry({ comment: 'It was 20 minutes' }));
+  const [latest, legacy] = await store.getAll();
+
+  expect(latest).toMatchObject({ messageId: 'ai_1', reason: 'wrong_info', comment: 'It was 20 minutes', route: 'ai', dataAgeMinutes: 3 });
+  expect(legacy).toMatchObject({ messageId: 'ai_0', feedbackType: 'positive', reason: null, comment: null, question: null, route: null });
+  expect(legacy.id).toBeTruthy();
+});
+
+it('drops stored entries that are missing what a review needs', async () => {
+  await AsyncStorage.setItem('pixie_pal_feedback', JSON.stringify([
+    null,
+    { feedbackType: 'negative', timestamp: '2025-07-19T12:00:00.000Z' },
+    { messageId: 'ai_2', feedbackType: 'meh', timestamp: '2025-07-19T12:00:00.000Z' },
+    { messageId: 'ai_3', feedbackType: 'negative' },
+    { messageId: 'ai_4', feedbackType: 'negative', timestamp: '2025-07-19T12:00:00.000Z', reason: 'bogus', route: 'magic', dataAgeMinutes: '5' }
+  ]));
+
+  const entries = await new FeedbackStore().getAll();
+
+  expect(entries).toHaveLength(1);
+  expect(entries[0]).toMatchObject({ messageId: 'ai_4', reason: null, route: null, dataAgeMinutes: null, park: '', messageText: '' });
+});
+
+it('filters by rating, reason and route', async () => {
+  const store = new FeedbackStore();
+  await store.add(entry());
+  await store.add(entry({ messageId: 'ai_2', reason: 'outdated', route: 'fallback' }));
+  await store.add(entry({ messageId: 'ai_3', feedbackType: 'positive', reason: null, route: 'pattern' }));
+  const entries = await store.getAll();
+
+  expect(filterFeedback(entries, { feedbackType: 'negative' }).map(e => e.messageId)).toEqual(['ai_2', 'ai_1']);
+  expect(filterFeedback(entries, { feedbackType: 'negative', route: 'ai' }).map(e => e.messageId)).toEqual(['ai_1']);
+  expect(filterFeedback(entries, { reason: 'outdated' }).map(e => e.messageId)).toEqual(['ai_2']);
+  expect(filterFeedback(entries, {})).toHaveLength(3);
+});
+
+it('exports CSV with quoting for commas, quotes and line breaks', () => {
+  const csv = feedbackToCsv([{ ...entry({ comment: 'Said "45", it was 20' }), id: 'f1' }]);
+  const header = csv.slice(0, csv.indexOf('\n'));
+  const row = csv.slice(csv.indexOf('\n') + 1);
+
+  expect(header).toBe('timestamp,feedbackType,reason,comment,question,messageText,route,park,dataAgeMinutes,messageId,id');
+  expect(row).toBe('2025-07-20T18:30:00.000Z,negative,wrong_info,"Said ""45"", it was 20",how long is space mountain?,"**Space Mountain**\n⏰ 45 min",ai,magicKingdom,3,ai_1,f1');
+});
+
+it('measures how old the data behind an answer was', () => {
+  const now = new Date('2025-07-20T18:30:00.000Z');
+
+  expect(getDataAgeMinutes({ fetchedAt: '2025-07-20T18:18:30.000Z', isStale: false, origin: 'live' }, now)).toBe(11);
+  expect(getDataAgeMinutes(undefined, now)).toBeNull();
+});
@@ -0,0 +1,146 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { GroundedStream, GroundingData, GroundingLog, groundAnswer } from '../GroundingGuard';
+
+const data: GroundingData = {
+  attractions: [
+    { name: 'Space Mountain', waitTime: 45, isOpen: true },
+    { name: 'Star Wars: Rise of the Resistance', waitTime: 90, isOpen: true },
+    { name: "Rock 'n' Roller Coaster Starring Aerosmith", waitTime: 0, isOpen: false },
+    { name: 'Haunted Mansion', waitTime: 20, isOpen: true }
+  ],
+  events: [
+    { name: 'Disney Festival of Fantasy Parade', times: ['12:00 PM', '3:00 PM'], location: 'Main Street, U.S.A.', type: 'parade' },
+    { name: 'Happily Ever After', time: '9:00 PM', location: 'Cinderella Castle', type: 'fireworks' }
+  ]
+};
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('groundAnswer', () => {
+  it('leaves an answer that matches the data alone', () => {
+    const text = '**Space Mountain**\n\n⏰ 45 min ⚡\n\n🕐 Happily Ever After starts at 9:00 PM ✨';
+
+    expect(groundAnswer(text, data)).toEqual({ text, corrections: [] });
+  });
+
+  it('corrects a wait time that disagrees with the live number', () => {
+    const report = groundAnswer('Great news! Rise of the Resistance is only 30 minutes, and Haunted Mansion is ⏰ 20 min.', data);
+
+    expect(report.text).toBe('Great news! Rise of the Resistance is only 90 minutes, and Haunted Mansion is ⏰ 20 min.');
+    expect(report.corrections).toEqual([{
+      kind: 'wait_time',
+      subject: 'Star Wars: Rise of the Resistance',
+      claimed: '30 minutes',
+      actual: '90 min',
+      action: 'corrected'
+    }]);
+  });
+
+  it('marks a closed ride as closed instead of quoting a wait', () => {
+    const report = groundAnswer("**Rock ’n’ Roller Coaster Starring Aerosmith**\n\n⏰ 35 min ⚡", data);
+
+    expect(report.text).toBe("**Rock ’n’ Roller Coaster Starring Aerosmith**\n\n⏰ Closed ⚡");
+    expect(report.corrections[0]).toMatchObject({ kind: 'closed_ride', claimed: '35 min', actual: 'Closed' });
+  });
+
+  it('flags a showtime that is not on the schedule', () => {
+    const report = groundAnswer('The Festival of Fantasy Parade steps off at 3:00 PM and 6:30 PM.', data);
+
+    expect(report.text).toBe("The Festival of Fantasy Parade steps off at 3:00 PM and 6:30 PM (not on today's schedule).");
+    expect(report.corrections).toEqual([expect.objectContaining({
+      kind: 'showtime',
+      subject: 'Disney Festival of Fantasy Parade',
+      claimed: '6:30 PM',
+      actual: '12:00 PM, 3:00 PM',
+      action: 'flagged'
+    })]);
+  });
+
+  it('ignores walking times and numbers about other things', () => {
+    const text = 'Space Mountain is a 10 minute walk from Haunted Mansion, which is ⏰ 20 min.';
+
+    expect(groundAnswer(text, data).corrections).toEqual([]);
+  });
+});
+
+describe('GroundedStream', () => {
+  const streamWords = (text: string) => {
+    const passed: string[] = [];
+    const stream = new GroundedStream(data, chunk => passed.push(chunk));
+    const seen: string[] = [];
+    (text.match(/\S+\s*|\s+/g) || []).forEach(word => {
+      stream.push(word);
+      seen.push(passed.join(''));
+    });
+    stream.finish(groundAnswer(text, data).text);
+    return { passed: passed.join(''), seen };
+  };
+
+  it('only passes on corrected text, a line or sentence at a time', () => {
+    const { passed, seen } = streamWords('**Rise of the Resistance**\n⏰ 30 min\n\nHaunted Mansion is ⏰ 20 min. Enjoy!');
+
+    expect(passed).toBe('**Rise of the Resistance**\n⏰ 90 min\n\nHaunted Mansion is ⏰ 20 min. Enjoy!');
+    expect(seen.some(text => text.includes('30 min'))).toBe(false);
+    expect(seen).toContain('**Rise of the Resistance**\n');
+  });
+
+  it('holds back a closed ride\'s wait until it can be marked closed', () => {
+    const { passed, seen } = streamWords("Rock 'n' Roller Coaster is 35 min right now.");
+
+    expect(passed).toBe("Rock 'n' Roller Coaster is Closed right now.");
+    expect(seen.every(text => !text.includes('35'))).toBe(true);
+  });
+
+  it('starts over after a reset', () => {
+    const passed: string[] = [];
+    const stream = new GroundedStream(data, chunk => passed.push(chunk));
+
+    stream.push('Let me check. ');
+    stream.reset();
+    stream.push('Haunted Mansion is ⏰ 20 min. ');
+    stream.finish('Haunted Mansion is ⏰ 20 min. Enjoy!');
+
+    expect(passed).toEqual(['Let me check.', 'Haunted Mansion is ⏰ 20 min.', ' Enjoy!']);
+  });
+});
+
+describe('GroundingLog', () => {
+  it('counts checked and corrected answers and keeps the corrections across instances', async () => {
+    const log = new GroundingLog();
+    const { corrections } = groundAnswer('Space Mountain: 10 min', data);
+
+    await log.record([]);
+    await log.record(corrections, new Date('2025-07-20T18:00:00Z'));
+
+    const stats = await new GroundingLog().getStats();
+    expect(stats).toMatchObject({ answersChecked: 2, answersCorrected: 1 });
+    expect(stats.corrections).toEqual([{ ...corrections[0], at: '2025-07-20T18:00:00.000Z' }]);
+
+    await log.clear();
+    expect((await new GroundingLog().getStats()).answersChecked).toBe(0);
+  });
+
+  it('reads what it can from a corrupt log instead of crashing', async () => {
+    const correction = { kind: 'wait_time', subject: 'Space Mountain', claimed: '10 min', actual: '45 min', action: 'corrected', at: '2025-07-20T18:00:00.000Z' };
+    await AsyncStorage.setItem('pixie_pal_grounding_log', JSON.stringify({
+      answersChecked: 'many',
+      answersCorrected: 1,
+      corrections: [correction, null, { ...correction, kind: 'price' }, { ...correction, subject: 3 }]
+    }));
+
+    expect(await new GroundingLog().getStats()).toEqual({ answersChecked: 0, answersCorrected: 1, corrections: [correction] });
+
+    await AsyncStorage.setItem('pixie_pal_grounding_log', '{"corrections":{}}');
+    const log = new GroundingLog();
+    await log.record([]);
+    expect(await log.getStats()).toEqual({ answersChecked: 1, answersCorrected: 0, corrections: [] });
+  });
+});
@@ -0,0 +1,81 @@
+import { FileStorage, configureLogSinks, createFileSink, createHttpSink } from '../LogSinks';
+import { LogEntry, Logger } from '../Logger';
+
+const entry = (id: number, level: LogEntry['level'] = 'info'): LogEntry => ({
+  id,
+  at: '2025-07-20T18:30:00.000Z',
+  level,
+  tag: 'proxy',
+  message: `Entry ${id}`
+});
+
+const memoryStorage = () => {
+  const files = new Map<string, string>();
+  const storage: FileStorage = {
+    read: async path => files.get(path) ?? null,
+    write: async (path, text) => { files.set(path, text); }
+  };
+  return { files, storage };
+};
+
+const okResponse = { ok: true, status: 200 } as Response;
+
+it('appends entries to the log file as JSON lines, keeping the newest', async () => {
+  const { files, storage } = memoryStorage();
+  const sink = createFileSink({ path: 'pixie-pal.log', storage, maxLines: 3 });
+
+  [1, 2].forEach(id => sink.write(entry(id)));
+  await sink.flush!();
+  [3, 4].forEach(id => sink.write(entry(id)));
+  await sink.flush!();
+
+  const lines = files.get('pixie-pal.log')!.trim().split('\n');
+  expect(lines.map(line => JSON.parse(line).id)).toEqual([2, 3, 4]);
+});
+
+it('posts entries to the collector in batches', async () => {
+  const fetchImpl = jest.fn().mockResolvedValue(okResponse);
+  const sink = createHttpSink({ url: 'http://localhost:4030/logs', batchSize: 2, fetchImpl });
+
+  sink.write(entry(1));
+  expect(fetchImpl).not.toHaveBeenCalled();
+  sink.write(entry(2));
+  await sink.flush!();
+
+  expect(fetchImpl).toHaveBeenCalledTimes(1);
+  const [url, init] = fetchImpl.mock.calls[0];
+  expect(url).toBe('http://localhost:4030/logs');
+  expect(JSON.parse(init.body).entries.map((sent: LogEntry) => sent.id)).toEqual([1, 2]);
+});
+
+it('keeps a batch the collector could not take and sends it with the next one', async () => {
+  const fetchImpl = jest.fn()
+    .mockRejectedValueOnce(new TypeError('Network request failed'))
+    .mockResolvedValue(okResponse);
+  const sink = createHttpSink({ url: 'http://localhost:4030/logs', batchSize: 10, maxQueued: 2, fetchImpl });
+
+  [1, 2].forEach(id => sink.write(entry(id)));
+  await sink.flush!();
+  sink.write(entry(3));
+  await sink.flush!();
+
+  expect(fetchImpl).toHaveBeenCalledTimes(2);
+  expect(JSON.parse(fetchImpl.mock.calls[1][1].body).entries.map((sent: LogEntry) => sent.id)).toEqual([2, 3]);
+});
+
+it('sets the level and adds the collector from the environment', () => {
+  const saved = { ...process.env };
+  process.env.EXPO_PUBLIC_LOG_LEVEL = 'warn';
+  process.env.EXPO_PUBLIC_LOG_COLLECTOR_URL = 'http://localhost:4030/logs';
+  const logger = new Logger();
+
+  try {
+    configureLogSinks(logger);
+    logger.withTag('chat').info('Dropped');
+
+    expect(logger.getSinkNames()).toContain('http');
+    expect(logger.getEntries()).toEqual([]);
+  } finally {
+    process.env = saved;
+  }
+});
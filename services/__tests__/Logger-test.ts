@@ -0,0 +1,76 @@
+import { LogEntry, LogSink, Logger, formatLogEntry } from '../Logger';
+
+const at = new Date('2025-07-20T18:30:00.000Z');
+
+const memorySink = (name = 'memory', minLevel?: LogSink['minLevel']) => {
+  const written: LogEntry[] = [];
+  return { sink: { name, minLevel, write: (entry: LogEntry) => { written.push(entry); } }, written };
+};
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+it('keeps tagged entries with their fields, dropping those below the minimum level', () => {
+  const logger = new Logger({ minLevel: 'info', now: () => at });
+  const log = logger.withTag('proxy');
+
+  log.debug('Getting wait times', { park: 'epcot' });
+  log.info('Fetched', { endpoint: 'wait-times', latencyMs: 120 });
+  log.error('Failed', {});
+
+  expect(logger.getEntries()).toEqual([
+    { id: 1, at: at.toISOString(), level: 'info', tag: 'proxy', message: 'Fetched', fields: { endpoint: 'wait-times', latencyMs: 120 } },
+    { id: 2, at: at.toISOString(), level: 'error', tag: 'proxy', message: 'Failed' }
+  ]);
+  expect(formatLogEntry(logger.getEntries()[0])).toBe('INFO [proxy] Fetched {"endpoint":"wait-times","latencyMs":120}');
+});
+
+it('keeps only the newest entries in the ring buffer', () => {
+  const logger = new Logger({ bufferSize: 3 });
+  const log = logger.withTag('chat');
+
+  ['one', 'two', 'three', 'four', 'five'].forEach(message => log.info(message));
+
+  expect(logger.getEntries().map(entry => entry.message)).toEqual(['three', 'four', 'five']);
+  logger.clear();
+  expect(logger.getEntries()).toEqual([]);
+});
+
+it('hands entries to sinks at or above their level, and survives a broken one', () => {
+  const all = memorySink('all');
+  const warnings = memorySink('warnings', 'warn');
+  const broken: LogSink = { name: 'broken', write: () => { throw new Error('disk full'); } };
+  const logger = new Logger({ sinks: [broken, all.sink, warnings.sink] });
+  const log = logger.withTag('voice');
+
+  log.info('Transcription', { latencyMs: 800 });
+  log.error('Transcription failed', { error: new TypeError('Network request failed') });
+
+  expect(all.written.map(entry => entry.message)).toEqual(['Transcription', 'Transcription failed']);
+  expect(warnings.written).toHaveLength(1);
+  expect(warnings.written[0].fields).toEqual({ error: { name: 'TypeError', message: 'Network request failed' } });
+  expect(logger.getEntries()).toHaveLength(2);
+});
+
+it('replaces sinks by name and tells subscribers about new entries', () => {
+  const first = memorySink('http');
+  const second = memorySink('http');
+  const logger = new Logger({ sinks: [first.sink] });
+  const seen: string[] = [];
+  const unsubscribe = logger.subscribe(entry => seen.push(entry.message));
+
+  logger.addSink(second.sink);
+  logger.withTag('chat').info('Answer route', { route: 'ai' });
+  unsubscribe();
+  logger.withTag('chat').info('Not seen');
+
+  expect(logger.getSinkNames()).toEqual(['http']);
+  expect(first.written).toHaveLength(0);
+  expect(second.written).toHaveLength(2);
+  expect(seen).toEqual(['Answer route']);
+});
@@ -0,0 +1,112 @@
+import { MarkdownInline, parseInline, parseMarkdown } from '../MarkdownParser';
+
+const text = (value: string): MarkdownInline => ({ type: 'text', text: value });
+
+describe('parseInline', () => {
+  it('reads bold, italic, code and links, including nesting', () => {
+    expect(parseInline('**Great news!** Try *Peter Pan\'s Flight* at `9:00 AM` - see [the app](https://disneyworld.disney.go.com/)')).toEqual([
+      { type: 'bold', children: [text('Great news!')] },
+      text(' Try '),
+      { type: 'italic', children: [text('Peter Pan\'s Flight')] },
+      text(' at '),
+      { type: 'code', text: '9:00 AM' },
+      text(' - see '),
+      { type: 'link', href: 'https://disneyworld.disney.go.com/', children: [text('the app')] }
+    ]);
+    expect(parseInline('**Rise is *way* shorter**')).toEqual([
+      { type: 'bold', children: [text('Rise is '), { type: 'italic', children: [text('way')] }, text(' shorter')] }
+    ]);
+  });
+
+  it('leaves stray symbols alone', () => {
+    expect(parseInline('5 * 3 = 15 and get_wait_time works')).toEqual([text('5 * 3 = 15 and get_wait_time works')]);
+    expect(parseInline('**Space Mountain')).toEqual([text('**Space Mountain')]);
+  });
+
+  it('links bare URLs without swallowing trailing punctuation', () => {
+    expect(parseInline('Check https://disneyworld.disney.go.com/calendars/.')).toEqual([
+      text('Check '),
+      { type: 'link', href: 'https://disneyworld.disney.go.com/calendars/', children: [text('https://disneyworld.disney.go.com/calendars/')] },
+      text('.')
+    ]);
+  });
+
+  it('drops links that are not web or mail links', () => {
+    expect(parseInline('[tap here](javascript:void) or [settings](/settings)')).toEqual([text('tap here or settings')]);
+  });
+});
+
+describe('parseMarkdown', () => {
+  it('renders the house answer format as bold lines in one paragraph', () => {
+    const blocks = parseMarkdown('**Space Mountain**\n\n⏰ 25 min ⚡\n📍 Tomorrowland, Magic Kingdom\n\nHead over now! ✨');
+
+    expect(blocks).toEqual([
+      { type: 'paragraph', children: [{ type: 'bold', children: [text('Space Mountain')] }] },
+      { type: 'paragraph', children: [text('⏰ 25 min ⚡\n📍 Tomorrowland, Magic Kingdom')] },
+      { type: 'paragraph', children: [text('Head over now! ✨')] }
+    ]);
+  });
+
+  it('reads a typical model reply with a heading and bullets', () => {
+    const reply = [
+      '## 🎢 Shortest Waits at EPCOT',
+      '',
+      '- **Spaceship Earth** - ⏰ 10 min',
+      '- **Living with the Land** - ⏰ 5 min',
+      '  *Great for a cool-down*',
+      '',
+      'Want me to check *Guardians of the Galaxy: Cosmic Rewind* too? ✨'
+    ].join('\n');
+
+    expect(parseMarkdown(reply)).toEqual([
+      { type: 'heading', level: 2, children: [text('🎢 Shortest Waits at EPCOT')] },
+      {
+        type: 'list',
+        ordered: false,
+        start: 1,
+        items: [
+          { depth: 0, children: [{ type: 'bold', children: [text('Spaceship Earth')] }, text(' - ⏰ 10 min')] },
+          {
+            depth: 0,
+            children: [
+              { type: 'bold', children: [text('Living with the Land')] },
+              text(' - ⏰ 5 min\n'),
+              { type: 'italic', children: [text('Great for a cool-down')] }
+            ]
+          }
+        ]
+      },
+      {
+        type: 'paragraph',
+        children: [text('Want me to check '), { type: 'italic', children: [text('Guardians of the Galaxy: Cosmic Rewind')] }, text(' too? ✨')]
+      }
+    ]);
+  });
+
+  it('keeps numbered lists together across blank lines and remembers where they start', () => {
+    const reply = '**Rope drop plan:**\n\n3. Seven Dwarfs Mine Train\n\n4. Peter Pan\'s Flight\n   1) grab a Lightning Lane\n• Then relax!';
+
+    expect(parseMarkdown(reply)).toEqual([
+      { type: 'paragraph', children: [{ type: 'bold', children: [text('Rope drop plan:')] }] },
+      {
+        type: 'list',
+        ordered: true,
+        start: 3,
+        items: [
+          { depth: 0, children: [text('Seven Dwarfs Mine Train')] },
+          { depth: 0, children: [text('Peter Pan\'s Flight')] },
+          { depth: 1, children: [text('grab a Lightning Lane')] }
+        ]
+      },
+      { type: 'list', ordered: false, start: 1, items: [{ depth: 0, children: [text('Then relax!')] }] }
+    ]);
+  });
+
+  it('turns horizontal rules into dividers and tolerates Windows line endings', () => {
+    expect(parseMarkdown('# Hours\r\n---\r\nOpen 9:00 AM - 10:00 PM')).toEqual([
+      { type: 'heading', level: 1, children: [text('Hours')] },
+      { type: 'rule' },
+      { type: 'paragraph', children: [text('Open 9:00 AM - 10:00 PM')] }
+    ]);
+  });
+});
@@ -0,0 +1,38 @@
+import { alertThreshold, characterQuestion, rideAlertQuestion, rideTrendQuestion } from '../MessagePayloads';
+import { classifyQuery } from '../QueryIntentClassifier';
+import { parseAlertRequest } from '../WaitTimeAlertService';
+
+const attractions = [
+  { name: 'Space Mountain', park: 'magicKingdom' },
+  { name: 'TRON Lightcycle / Run', park: 'magicKingdom' }
+];
+
+describe('row questions', () => {
+  it('sets alerts for a real drop in the wait', () => {
+    expect(alertThreshold(65)).toBe(30);
+    expect(alertThreshold(45)).toBe(20);
+    expect(alertThreshold(10)).toBe(5);
+  });
+
+  it('routes a tapped ride to the trend and alert answers', () => {
+    const spaceMountain = { name: 'Space Mountain', waitTime: 60, isOpen: true };
+
+    expect(classifyQuery(rideTrendQuestion(spaceMountain), { attractions }).intent).toBe('wait_trend');
+    expect(classifyQuery(rideAlertQuestion(spaceMountain), { attractions }).intent).toBe('wait_alert');
+    expect(parseAlertRequest(rideAlertQuestion(spaceMountain))).toEqual({ type: 'low_wait_time', threshold: 30 });
+  });
+
+  it('asks for a reopen alert on a closed ride', () => {
+    const question = rideAlertQuestion({ name: 'TRON Lightcycle / Run', waitTime: 0, isOpen: false });
+
+    expect(question).toBe('Tell me when TRON Lightcycle / Run reopens');
+    expect(classifyQuery(question, { attractions }).intent).toBe('wait_alert');
+  });
+
+  it('routes a tapped character meet to the character search', () => {
+    const analysis = classifyQuery(characterQuestion({ characters: ['Anna', 'Elsa'] }));
+
+    expect(analysis.intent).toBe('character_meet');
+    expect(analysis.slots.character).toBe('anna');
+  });
+});
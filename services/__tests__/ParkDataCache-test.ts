@@ -0,0 +1,83 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { ParkDataCache } from '../ParkDataCache';
+import { InMemoryDataSource } from '../ParkDataSources';
+import { UnifiedPixiePalService } from '../PixiePalDataService';
+
+const fixtures = require('../../fixtures/disney-proxy.json');
+
+const at = new Date('2025-07-20T18:30:00.000Z').getTime();
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(Date, 'now').mockReturnValue(at);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+it('keeps each endpoint and park apart, stamped with when it was fetched', async () => {
+  const cache = new ParkDataCache();
+
+  await cache.set('wait-times', 'epcot', { rides: 1 });
+  await cache.set('wait-times', 'magicKingdom', { rides: 2 });
+  await cache.set('park-hours', 'epcot', { hours: 3 });
+
+  expect(await cache.get('wait-times', 'epcot')).toEqual({ value: { rides: 1 }, fetchedAt: at });
+  expect(await cache.get('wait-times', 'magicKingdom')).toEqual({ value: { rides: 2 }, fetchedAt: at });
+  expect(await cache.get('park-hours', 'epcot')).toEqual({ value: { hours: 3 }, fetchedAt: at });
+  expect(await cache.get('parades', 'epcot')).toBeNull();
+});
+
+it('reads entries another instance persisted', async () => {
+  await new ParkDataCache().set('wait-times', 'epcot', { rides: 1 });
+
+  expect(await new ParkDataCache().get('wait-times', 'epcot')).toEqual({ value: { rides: 1 }, fetchedAt: at });
+});
+
+it('removes corrupt entries instead of trusting them', async () => {
+  const corrupt = {
+    'wait-times:magicKingdom': '{"value":{}}',
+    'wait-times:epcot': `{"fetchedAt":"yesterday","value":[]}`,
+    'park-hours:epcot': 'not json',
+    'parade-times:epcot': '[1, 2]',
+    'entertainment:epcot': `{"fetchedAt":${at}}`,
+    'character-meets:epcot': `{"fetchedAt":${at},"value":{"meets":"nope"}}`
+  };
+  await AsyncStorage.multiSet(Object.entries(corrupt).map(([key, value]) => [`pixie_pal_cache:${key}`, value]));
+  const cache = new ParkDataCache();
+
+  for (const key of Object.keys(corrupt)) {
+    const [endpoint, park] = key.split(':');
+    expect(await cache.get(endpoint, park, Array.isArray)).toBeNull();
+  }
+  expect(await AsyncStorage.getAllKeys()).toEqual([]);
+});
+
+it('clears its own entries from memory and storage, leaving other keys alone', async () => {
+  const cache = new ParkDataCache();
+  await cache.set('wait-times', 'epcot', { rides: 1 });
+  await AsyncStorage.setItem('pixie_pal_feedback', '[]');
+
+  await cache.clear();
+
+  expect(await cache.get('wait-times', 'epcot')).toBeNull();
+  expect(await new ParkDataCache().get('wait-times', 'epcot')).toBeNull();
+  expect(await AsyncStorage.getAllKeys()).toEqual(['pixie_pal_feedback']);
+});
+
+it('expires entries older than the stale window, going back to the proxy', async () => {
+  const source = new InMemoryDataSource().set('wait-times', 'epcot', fixtures['wait-times'].epcot);
+  await new UnifiedPixiePalService(source, new ParkDataCache()).getWaitTimes('epcot');
+
+  jest.spyOn(Date, 'now').mockReturnValue(at + 61 * 60 * 1000);
+  const cache = new ParkDataCache();
+  const result = await new UnifiedPixiePalService(source, cache).getWaitTimes('epcot');
+
+  expect(result.origin).toBe('live');
+  expect(result.isStale).toBe(false);
+  expect(source.requests).toHaveLength(2);
+  expect((await cache.get('wait-times', 'epcot'))?.fetchedAt).toBe(at + 61 * 60 * 1000);
+});
@@ -0,0 +1,106 @@
+import { AppState, AppStateStatus } from 'react-native';
+
+import { ParkRefreshScheduler } from '../ParkRefreshScheduler';
+import { DataOrigin, ParkData, ParkId, UnifiedPixiePalService } from '../PixiePalDataService';
+
+const MINUTE = 60 * 1000;
+
+let origin: DataOrigin;
+let appStateListener: (state: AppStateStatus) => void;
+const getWaitTimes = jest.fn(async (parkId: ParkId): Promise<ParkData> => ({
+  parkId,
+  parkName: parkId,
+  attractions: [],
+  lastUpdated: new Date().toISOString(),
+  source: 'disney_proxy',
+  fetchedAt: new Date().toISOString(),
+  isStale: origin !== 'live',
+  origin
+}));
+
+const createScheduler = (onWaitTimes = jest.fn()) =>
+  new ParkRefreshScheduler({ getWaitTimes } as unknown as UnifiedPixiePalService, {
+    onWaitTimes,
+    parkIds: ['magicKingdom', 'epcot']
+  });
+
+const refreshedParks = () => getWaitTimes.mock.calls.map(([parkId]) => parkId);
+
+beforeEach(() => {
+  jest.useFakeTimers();
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(AppState, 'addEventListener').mockImplementation((_, listener) => {
+    appStateListener = listener;
+    return { remove: jest.fn() } as any;
+  });
+  getWaitTimes.mockClear();
+  origin = 'live';
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+it('polls the current park more often than the others', async () => {
+  const onWaitTimes = jest.fn();
+  const scheduler = createScheduler(onWaitTimes);
+  scheduler.setCurrentPark('magicKingdom');
+  scheduler.start();
+
+  await jest.advanceTimersByTimeAsync(10 * MINUTE);
+
+  expect(refreshedParks().filter(park => park === 'magicKingdom')).toHaveLength(5);
+  expect(refreshedParks().filter(park => park === 'epcot')).toHaveLength(1);
+  expect(getWaitTimes).toHaveBeenCalledWith('magicKingdom', { forceRefresh: true });
+  expect(onWaitTimes).toHaveBeenCalledTimes(6);
+  expect(scheduler.getLastRefreshed()).not.toBeNull();
+  scheduler.stop();
+});
+
+it('backs off while the proxy is failing and recovers afterwards', async () => {
+  const scheduler = createScheduler();
+  scheduler.setCurrentPark('magicKingdom');
+  scheduler.start();
+  origin = 'fallback';
+
+  await jest.advanceTimersByTimeAsync(2 * MINUTE);
+  expect(scheduler.getInterval('magicKingdom')).toBe(4 * MINUTE);
+  await jest.advanceTimersByTimeAsync(4 * MINUTE);
+  expect(scheduler.getInterval('magicKingdom')).toBe(8 * MINUTE);
+  expect(scheduler.getLastRefreshed()).toBeNull();
+
+  origin = 'live';
+  await jest.advanceTimersByTimeAsync(8 * MINUTE);
+  expect(scheduler.getInterval('magicKingdom')).toBe(2 * MINUTE);
+  scheduler.stop();
+});
+
+it('pauses in the background and catches up when active again', async () => {
+  const scheduler = createScheduler();
+  scheduler.setCurrentPark('epcot');
+  scheduler.start();
+
+  appStateListener('background');
+  await jest.advanceTimersByTimeAsync(30 * MINUTE);
+  expect(getWaitTimes).not.toHaveBeenCalled();
+
+  appStateListener('active');
+  await jest.advanceTimersByTimeAsync(0);
+  expect(refreshedParks().sort()).toEqual(['epcot', 'magicKingdom']);
+  scheduler.stop();
+});
+
+it('refreshes a newly selected park right away when its data is old', async () => {
+  const scheduler = createScheduler();
+  scheduler.setCurrentPark('magicKingdom');
+  scheduler.start();
+
+  await jest.advanceTimersByTimeAsync(3 * MINUTE);
+  getWaitTimes.mockClear();
+  scheduler.setCurrentPark('epcot');
+  await jest.advanceTimersByTimeAsync(0);
+
+  expect(refreshedParks()).toEqual(['epcot']);
+  scheduler.stop();
+});
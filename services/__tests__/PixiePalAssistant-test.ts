@@ -0,0 +1,142 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { AssistantToolbox } from '../AssistantTools';
+import { ChatCompletion, ChatMessage, ChatModel, ScriptedChatModel } from '../ChatModels';
+import { ParkDataCache } from '../ParkDataCache';
+import { FixtureDataSource } from '../ParkDataSources';
+import { PixiePalAssistant } from '../PixiePalAssistant';
+import { UnifiedPixiePalService } from '../PixiePalDataService';
+import { UsageMeter } from '../UsageMeter';
+
+const fixtures = require('../../fixtures/disney-proxy.json');
+
+const createAssistant = (model: ChatModel, meter = new UsageMeter()) => {
+  const data = new UnifiedPixiePalService(new FixtureDataSource(fixtures), new ParkDataCache());
+  return new PixiePalAssistant(model, new AssistantToolbox(data, () => new Date(2025, 6, 20, 14, 30)), meter);
+};
+
+const toolMessages = (messages: ChatMessage[]) =>
+  messages.filter((message): message is Extract<ChatMessage, { role: 'tool' }> => message.role === 'tool');
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+it('answers a cross-park question from the tools it called', async () => {
+  const model = new ScriptedChatModel([
+    {
+      toolCalls: [
+        { id: 'call_rise', name: 'get_wait_time', arguments: '{"attraction":"Rise"}' },
+        { id: 'call_fop', name: 'get_wait_time', arguments: '{"attraction":"flight of passage"}' }
+      ]
+    },
+    request => {
+      const waits = toolMessages(request.messages).map(message => JSON.parse(message.content));
+      return { content: waits.map(wait => `**${wait.name}**\n⏰ ${wait.waitTime} min`).join('\n\n') };
+    }
+  ]);
+
+  const answer = await createAssistant(model).answer({
+    parkName: 'Magic Kingdom',
+    question: 'is Rise or Flight of Passage shorter right now?',
+    history: [{ role: 'user', content: 'hi' }, { role: 'assistant', content: 'Hi there!' }],
+    followUpContext: null
+  });
+
+  expect(answer.toolResults.map(result => result.toolCallId)).toEqual(['call_rise', 'call_fop']);
+  expect(answer.text).toBe('**Star Wars: Rise of the Resistance**\n⏰ 90 min\n\n**Avatar Flight of Passage**\n⏰ 75 min');
+
+  // History goes in as real chat turns, tools are offered, and the question comes last
+  const [first, second] = model.requests;
+  expect(first.messages.map(message => message.role)).toEqual(['system', 'user', 'assistant', 'user']);
+  expect(first.messages[3]).toEqual({ role: 'user', content: 'is Rise or Flight of Passage shorter right now?' });
+  expect(first.tools?.map(tool => tool.function.name)).toEqual(['get_wait_time', 'list_shortest_waits', 'get_park_hours', 'next_showtime']);
+  expect(second.messages.slice(4).map(message => message.role)).toEqual(['assistant', 'tool', 'tool']);
+});
+
+it('stops offering tools after a few rounds so the model has to answer', async () => {
+  const lookup = { toolCalls: [{ id: 'call', name: 'list_shortest_waits', arguments: '{}' }] };
+  const model = new ScriptedChatModel([lookup, lookup, lookup, lookup, { content: 'Here are the shortest waits!' }]);
+
+  const answer = await createAssistant(model).answer({ parkName: 'EPCOT', question: 'shortest waits anywhere?' });
+
+  expect(answer.text).toBe('Here are the shortest waits!');
+  expect(answer.toolResults).toHaveLength(4);
+  expect(model.requests[4].tools).toBeUndefined();
+});
+
+it('lets the caller fall back when the model is down', async () => {
+  await expect(createAssistant(new ScriptedChatModel()).answer({ parkName: 'EPCOT', question: 'hello' }))
+    .rejects.toThrow('Scripted chat model has no reply left');
+});
+
+it('meters every round and stops calling the model at the cap', async () => {
+  const meter = new UsageMeter({ sessionTokens: 2500, dailyTokens: 100000 });
+  const model = new ScriptedChatModel([
+    { toolCalls: [{ id: 'call', name: 'get_park_hours', arguments: '{"park":"epcot"}' }] },
+    { content: 'EPCOT is open 9:00 AM - 9:00 PM.', usage: { promptTokens: 1200, completionTokens: 20 } }
+  ]);
+
+  await createAssistant(model, meter).answer({ parkName: 'EPCOT', question: 'epcot hours?' });
+  expect((await meter.getSnapshot()).session).toMatchObject({ calls: 2, estimatedCalls: 1 });
+
+  await expect(createAssistant(model, meter).answer({ parkName: 'EPCOT', question: 'and tomorrow?' }))
+    .rejects.toMatchObject({ name: 'UsageCapError', scope: 'session' });
+  expect(model.requests).toHaveLength(2);
+});
+
+it('streams the final answer to onText', async () => {
+  const chunks: string[] = [];
+  const model = new ScriptedChatModel([
+    { toolCalls: [{ id: 'call', name: 'get_park_hours', arguments: '{"park":"epcot"}' }] },
+    { content: 'EPCOT is open 9:00 AM - 9:00 PM.' }
+  ]);
+
+  const answer = await createAssistant(model).answer({ parkName: 'EPCOT', question: 'epcot hours?' }, { onText: chunk => chunks.push(chunk) });
+
+  expect(chunks.join('')).toBe(answer.text);
+  expect(chunks.length).toBeGreaterThan(1);
+});
+
+it('passes text on before the model call finishes', async () => {
+  const chunks: string[] = [];
+  let finish: (completion: ChatCompletion) => void = () => {};
+  const model: ChatModel = {
+    name: 'slow',
+    complete: (_request, { onText } = {}) => {
+      onText?.('Space Mountain is ');
+      onText?.('⏰ 55 min right now.');
+      return new Promise(resolve => { finish = resolve; });
+    }
+  };
+
+  const answering = createAssistant(model).answer({ parkName: 'Magic Kingdom', question: 'space mountain?' }, { onText: chunk => chunks.push(chunk) });
+  await new Promise(resolve => setTimeout(resolve, 0));
+
+  expect(chunks).toEqual(['Space Mountain is ', '⏰ 55 min right now.']);
+  finish({ content: 'Space Mountain is ⏰ 55 min right now.', toolCalls: [] });
+  expect((await answering).text).toBe('Space Mountain is ⏰ 55 min right now.');
+});
+
+it('tells the caller to drop text from a round that turns to tool calls', async () => {
+  let streamed = '';
+  const model = new ScriptedChatModel([
+    { content: 'Let me check Space Mountain - it is usually 20 min.', toolCalls: [{ id: 'call', name: 'get_wait_time', arguments: '{"attraction":"space mountain"}' }] },
+    { content: 'Space Mountain is ⏰ 55 min right now.' }
+  ]);
+  const onToolCalls = jest.fn(() => { streamed = ''; });
+
+  const answer = await createAssistant(model).answer({ parkName: 'Magic Kingdom', question: 'space mountain?' }, {
+    onText: chunk => { streamed += chunk; },
+    onToolCalls
+  });
+
+  expect(answer.text).toBe('Space Mountain is ⏰ 55 min right now.');
+  expect(onToolCalls).toHaveBeenCalledTimes(1);
+  expect(streamed).toBe(answer.text);
+});
@@ -0,0 +1,170 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { ParkDataCache } from '../ParkDataCache';
+import { FixtureDataSource, InMemoryDataSource, ParkDataSource } from '../ParkDataSources';
+import { UnifiedPixiePalService } from '../PixiePalDataService';
+
+const fixtures = require('../../fixtures/disney-proxy.json');
+
+const createService = (source: ParkDataSource) =>
+  new UnifiedPixiePalService(source, new ParkDataCache());
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+it('serves recorded fixture data without touching the network', async () => {
+  const service = createService(new FixtureDataSource(fixtures));
+
+  const data = await service.getCompleteParkData('magicKingdom');
+
+  expect(data.waitTimes.origin).toBe('live');
+  expect(data.waitTimes.attractions.map(a => a.name)).toContain('Space Mountain');
+  expect(data.parkHours.schedule[0].openingTime).toBe('9:00 AM');
+  expect(data.parades.events[0].name).toBe('Disney Festival of Fantasy Parade');
+  expect(data.characterMeets.meets[1].characters).toEqual(['Cinderella', 'Elena of Avalor']);
+});
+
+it('answers from cache within cacheTimeout and across service instances', async () => {
+  const source = new InMemoryDataSource().set('wait-times', 'epcot', fixtures['wait-times'].epcot);
+
+  const first = await createService(source).getWaitTimes('epcot');
+  const second = await createService(source).getWaitTimes('epcot');
+
+  expect(first.origin).toBe('live');
+  expect(second.origin).toBe('cache');
+  expect(second.isStale).toBe(false);
+  expect(second.attractions).toEqual(first.attractions);
+  expect(source.requests).toHaveLength(1);
+});
+
+it('serves stale data immediately and refreshes it in the background', async () => {
+  const source = new InMemoryDataSource().set('wait-times', 'epcot', fixtures['wait-times'].epcot);
+  const service = createService(source);
+  await service.getWaitTimes('epcot');
+
+  const now = Date.now();
+  jest.spyOn(Date, 'now').mockReturnValue(now + 10 * 60 * 1000);
+  const stale = await service.getWaitTimes('epcot');
+
+  expect(stale.origin).toBe('cache');
+  expect(stale.isStale).toBe(true);
+  expect(service.formatFreshnessNotice(stale)).toBe('⚠️ Showing last known data as of 10 minutes ago');
+  expect(source.requests).toHaveLength(2);
+});
+
+it('falls back to the last known data when the proxy fails', async () => {
+  const source = new InMemoryDataSource().set('wait-times', 'animalKingdom', fixtures['wait-times']['animal-kingdom']);
+  const service = createService(source);
+  await service.getWaitTimes('animalKingdom');
+
+  source.fail('wait-times', 'animalKingdom');
+  const now = Date.now();
+  jest.spyOn(Date, 'now').mockReturnValue(now + 2 * 60 * 60 * 1000);
+  const data = await service.getWaitTimes('animalKingdom');
+
+  expect(data.origin).toBe('cache');
+  expect(data.isStale).toBe(true);
+  expect(data.attractions[0].name).toBe('Avatar Flight of Passage');
+});
+
+it('uses placeholder data only when nothing was ever fetched', async () => {
+  const service = createService(new InMemoryDataSource().fail('wait-times', 'magicKingdom'));
+
+  const data = await service.getWaitTimes('magicKingdom');
+
+  expect(data.origin).toBe('fallback');
+  expect(data.source).toBe('fallback');
+  expect(service.formatFreshnessNotice(data)).toMatch(/Live data is unavailable/);
+});
+
+it('formats character meets, falling back to well-known spots without times', async () => {
+  const service = createService(new InMemoryDataSource().fail('character-meets', 'epcot'));
+
+  const { meets, origin } = await service.getCharacterMeets('epcot');
+
+  expect(origin).toBe('fallback');
+  expect(service.formatCharacterMeets(meets)).toContain('✨ **Anna & Elsa**\n📍 Royal Sommerhus, Norway Pavilion\n🕐 Check the Times Guide');
+});
+
+it('records live wait times for trend questions', async () => {
+  const source = new InMemoryDataSource().set('wait-times', 'epcot', {
+    attractions: [{ id: 'test-track', name: 'Test Track', waitTime: 80, isOpen: true }]
+  });
+  const service = createService(source);
+  await service.getWaitTimes('epcot');
+
+  const now = Date.now();
+  jest.spyOn(Date, 'now').mockReturnValue(now + 20 * 60 * 1000);
+  source.set('wait-times', 'epcot', {
+    attractions: [{ id: 'test-track', name: 'Test Track', waitTime: 55, isOpen: true }]
+  });
+  const latest = await service.getWaitTimes('epcot', { forceRefresh: true });
+
+  const trend = await service.getWaitTimeTrend('epcot-test-track');
+  const lowest = await service.getLowestWaitToday('epcot-test-track');
+  expect(trend).toMatchObject({ current: 55, change: -25, direction: 'falling' });
+  expect(service.formatWaitTimeTrend(latest.attractions[0], trend, lowest)).toContain(
+    '📉 Going down - 25 min shorter than 20 minutes ago'
+  );
+});
+
+describe('loadAllParks', () => {
+  // Fixture source where each park answers after its own delay
+  const delayedSource = (delays: Record<string, number>): ParkDataSource => {
+    const fixtureSource = new FixtureDataSource(fixtures);
+    return {
+      name: 'delayed',
+      fetch: (endpoint, parkId) => new Promise((resolve, reject) => {
+        setTimeout(() => fixtureSource.fetch(endpoint, parkId).then(resolve, reject), delays[parkId]);
+      })
+    };
+  };
+
+  it('publishes each park as soon as it arrives', async () => {
+    const service = createService(delayedSource({ magicKingdom: 5, epcot: 40, hollywoodStudios: 20, animalKingdom: 60 }));
+    const published: string[] = [];
+
+    const all = await service.loadAllParks({ onPark: data => published.push(data.parkId) });
+
+    expect(published).toEqual(['magicKingdom', 'hollywoodStudios', 'epcot', 'animalKingdom']);
+    expect(all.map(data => data.parkId)).toEqual(['magicKingdom', 'epcot', 'hollywoodStudios', 'animalKingdom']);
+    expect(all.every(data => data.waitTimes.origin === 'live')).toBe(true);
+  });
+
+  it('stops publishing once cancelled', async () => {
+    const service = createService(delayedSource({ magicKingdom: 5, epcot: 200, hollywoodStudios: 200, animalKingdom: 200 }));
+    const controller = new AbortController();
+    const published: string[] = [];
+
+    const load = service.loadAllParks({
+      signal: controller.signal,
+      onPark: data => {
+        published.push(data.parkId);
+        controller.abort();
+      }
+    });
+
+    await expect(load).rejects.toThrow('Park data load cancelled');
+    await new Promise(resolve => setTimeout(resolve, 250));
+    expect(published).toEqual(['magicKingdom']);
+  });
+
+  it('lets go of the signal after each load, since one signal spans every refresh', async () => {
+    const service = createService(delayedSource({ magicKingdom: 1, epcot: 1, hollywoodStudios: 1, animalKingdom: 1 }));
+    const controller = new AbortController();
+    const add = jest.spyOn(controller.signal, 'addEventListener');
+    const remove = jest.spyOn(controller.signal, 'removeEventListener');
+
+    await service.loadAllParks({ signal: controller.signal });
+    await service.loadAllParks({ signal: controller.signal });
+
+    expect(add).toHaveBeenCalledTimes(2);
+    expect(remove.mock.calls.map(([, listener]) => listener)).toEqual(add.mock.calls.map(([, listener]) => listener));
+  });
+});
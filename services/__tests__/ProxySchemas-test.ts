@@ -0,0 +1,121 @@
+import {
+  coerceTime,
+  validateCharacterMeets,
+  validateEntertainment,
+  validateParkHours,
+  validateWaitTimes
+} from '../ProxySchemas';
+
+describe('coerceTime', () => {
+  it.each([
+    ['09:00', '9:00 AM'],
+    ['23:30', '11:30 PM'],
+    ['00:15', '12:15 AM'],
+    ['3:00 PM', '3:00 PM'],
+    ['3pm', '3:00 PM'],
+    ['2025-07-20T21:00:00-04:00', '9:00 PM'],
+    ['25:00', null],
+    ['soon', null],
+    [undefined, null]
+  ])('%p -> %p', (input, expected) => {
+    expect(coerceTime(input)).toBe(expected);
+  });
+});
+
+describe('validateWaitTimes', () => {
+  it('coerces numeric strings and warns about unusable waits instead of producing NaN', () => {
+    const { value, warnings } = validateWaitTimes({
+      attractions: [
+        { id: 'space-mountain', name: 'Space Mountain', waitTime: '45', isOpen: true },
+        { id: 'tron', name: 'TRON Lightcycle / Run', waitTime: 'n/a', isOpen: 'yes' },
+        { id: 'ghost', waitTime: 10 }
+      ]
+    }, 'magicKingdom');
+
+    expect(value.map(a => [a.name, a.waitTime, a.isOpen])).toEqual([
+      ['Space Mountain', 45, true],
+      ['TRON Lightcycle / Run', 0, true]
+    ]);
+    expect(warnings.map(w => w.path)).toEqual([
+      'attractions[1].waitTime',
+      'attractions[1].isOpen',
+      'attractions[2].name'
+    ]);
+    expect(warnings[0]).toMatchObject({ endpoint: 'wait-times', parkId: 'magicKingdom', value: 'n/a' });
+  });
+
+  it('rejects a payload without an attractions list', () => {
+    expect(() => validateWaitTimes({ error: 'rate limited' }, 'epcot')).toThrow(/Invalid wait-times payload/);
+  });
+});
+
+describe('validateParkHours', () => {
+  it('accepts the legacy nested hours shape and normalizes times', () => {
+    const { value, warnings } = validateParkHours({
+      hours: { hours: [{ date: '2025-07-20T00:00:00Z', openingTime: '2025-07-20T09:00:00-04:00', closingTime: '22:00' }] }
+    }, 'epcot');
+
+    expect(value).toEqual([{ date: '2025-07-20', openingTime: '9:00 AM', closingTime: '10:00 PM', type: 'Operating' }]);
+    expect(warnings).toHaveLength(0);
+  });
+
+  it('drops operating days with no usable times', () => {
+    const { value, warnings } = validateParkHours({
+      schedule: [
+        { date: '2025-07-20', openingTime: 'TBD', closingTime: '21:00', type: 'Operating' },
+        { date: '2025-07-21', type: 'Closed' }
+      ]
+    }, 'animalKingdom');
+
+    expect(value).toEqual([{ date: '2025-07-21', openingTime: null, closingTime: null, type: 'Closed' }]);
+    expect(warnings.map(w => w.message)).toEqual([
+      'unrecognized time',
+      'dropped: operating day without opening and closing times'
+    ]);
+  });
+});
+
+describe('validateEntertainment', () => {
+  it('merges time/times, keeps only valid times and defaults parade types', () => {
+    const { value, warnings } = validateEntertainment({
+      parades: [
+        { name: 'Festival of Fantasy', time: '15:00', location: 'Main Street, U.S.A.', duration: 20 },
+        { name: 'Starlight', times: ['8:00 PM', null], location: 'Frontierland', duration: -5 }
+      ]
+    }, 'magicKingdom', 'parade-times');
+
+    expect(value).toEqual([
+      { name: 'Festival of Fantasy', time: '3:00 PM', times: ['3:00 PM'], location: 'Main Street, U.S.A.', duration: 20, type: 'parade' },
+      { name: 'Starlight', time: '8:00 PM', times: ['8:00 PM'], location: 'Frontierland', type: 'parade' }
+    ]);
+    expect(warnings.map(w => w.path)).toEqual(['parades[1].times[1]', 'parades[1].duration']);
+  });
+
+  it('never leaves an event without a location', () => {
+    const { value, warnings } = validateEntertainment({
+      entertainment: [{ name: 'Fantasmic!', type: 'spectacular', times: [] }]
+    }, 'hollywoodStudios');
+
+    expect(value[0]).toEqual({ name: 'Fantasmic!', times: [], location: 'See Times Guide' });
+    expect(warnings.map(w => w.path)).toEqual(['entertainment[0].type']);
+  });
+});
+
+describe('validateCharacterMeets', () => {
+  it('resolves character/characters and time/times into lists', () => {
+    const { value, warnings } = validateCharacterMeets({
+      characterMeets: [
+        { character: 'Mickey Mouse', location: 'Town Square Theater', time: '10:30' },
+        { characters: ['Anna', 'Elsa'], location: 'Royal Sommerhus', times: ['1:00 PM', '4:00 PM'] },
+        { location: 'Adventureland', times: ['2:00 PM'] }
+      ]
+    }, 'magicKingdom');
+
+    expect(value.map(meet => [meet.characters, meet.times])).toEqual([
+      [['Mickey Mouse'], ['10:30 AM']],
+      [['Anna', 'Elsa'], ['1:00 PM', '4:00 PM']]
+    ]);
+    expect(value[0]).toMatchObject({ id: 'magicKingdom-meet-0', park: 'magicKingdom' });
+    expect(warnings.map(w => w.message)).toEqual(['dropped: meet has no characters']);
+  });
+});
@@ -0,0 +1,123 @@
+import { QueryIntent, QuerySlots, classifyQuery, extractSlots } from '../QueryIntentClassifier';
+
+const fixtures = require('../../fixtures/disney-proxy.json');
+
+const PARK_SLUGS: Record<string, string> = {
+  'magic-kingdom': 'magicKingdom',
+  'epcot': 'epcot',
+  'hollywood-studios': 'hollywoodStudios',
+  'animal-kingdom': 'animalKingdom'
+};
+
+const liveAttractions: { name: string; park: string }[] = Object.entries(fixtures['wait-times'])
+  .flatMap(([slug, body]: [string, any]) => body.attractions.map((attraction: any) => ({ name: attraction.name, park: PARK_SLUGS[slug] })));
+
+// [guest phrasing, expected intent, expected slots (only the ones that matter)]
+const CORPUS: [string, QueryIntent, Partial<QuerySlots>][] = [
+  // Park overview waits
+  ['What are the wait times?', 'wait_times', { park: null }],
+  ['wait times at magic kingdom', 'wait_times', { park: 'magicKingdom' }],
+  ['whats the shortest wait in epcot right now', 'wait_times', { park: 'epcot', time: 'right now' }],
+  ['which lines are short at DHS', 'wait_times', { park: 'hollywoodStudios' }],
+  ['AK waits?', 'wait_times', { park: 'animalKingdom' }],
+
+  // Single ride waits
+  ['How long is the wait for Space Mountain?', 'ride_wait', { attraction: 'Space Mountain', park: 'magicKingdom' }],
+  ["what's the line like for slinky dog dash", 'ride_wait', { attraction: 'Slinky Dog Dash', park: 'hollywoodStudios' }],
+  ['Is Tron Lightcycle Run open?', 'ride_wait', { attraction: 'TRON Lightcycle / Run' }],
+  ['avatar flight of passage wait time', 'ride_wait', { attraction: 'Avatar Flight of Passage', park: 'animalKingdom' }],
+  ["remy's ratatouille adventure wait", 'ride_wait', { attraction: "Remy's Ratatouille Adventure", park: 'epcot' }],
+
+  // Alerts and trends
+  ['tell me when Space Mountain is under 30 minutes', 'wait_alert', { attraction: 'Space Mountain' }],
+  ['alert me when Tron Lightcycle Run reopens', 'wait_alert', { attraction: 'TRON Lightcycle / Run' }],
+  ['can you set an alert for me', 'wait_alert', {}],
+  ['Is the line for Slinky Dog Dash going down?', 'wait_trend', { attraction: 'Slinky Dog Dash' }],
+  ["what's the lowest test track has been today", 'wait_trend', { attraction: 'Test Track', time: 'today' }],
+  ['is Space Mountain any shorter now?', 'wait_trend', { attraction: 'Space Mountain', time: 'now' }],
+
+  // Park hours
+  ['What time does Magic Kingdom close tonight?', 'park_hours', { park: 'magicKingdom', time: 'tonight' }],
+  ['park hours tomorrow', 'park_hours', { time: 'tomorrow' }],
+  ['When does Hollywood Studios open?', 'park_hours', { park: 'hollywoodStudios' }],
+
+  // Entertainment
+  ['When are the fireworks?', 'fireworks', {}],
+  ['what time is happily ever after', 'fireworks', {}],
+  ['when does the parade start', 'parade', {}],
+  ['tell me when the parade starts', 'parade', {}],
+  ['When is the next show?', 'show_times', {}],
+  ['fantasmic showtimes', 'show_times', { park: null }],
+  ['any shows around 3pm at epcot', 'show_times', { park: 'epcot', time: '3:00 PM' }],
+
+  // Characters
+  ['Where can I meet Mickey?', 'character_meet', { character: 'mickey' }],
+  ['when can we see elsa and anna', 'character_meet', { character: 'elsa' }],
+  ['princess meet and greets at mk', 'character_meet', { park: 'magicKingdom' }],
+  ['where is tinker bell at 2:30 PM', 'character_meet', { character: 'tinker bell', time: '2:30 PM' }],
+
+  // General ride questions and everything else
+  ['what rides are good for little kids', 'ride_info', {}],
+  ['best thrill rides in animal kingdom', 'ride_info', { park: 'animalKingdom' }],
+  ['where can I get a Dole Whip', 'general', {}],
+  ['disney springs restaurants', 'general', { park: 'disneySprings' }],
+
+  // Everyday words that used to hijack the park
+  ['I need to sleep, what is open late', 'park_hours', { park: null }],
+  ['thanks! what about the shortest waits', 'wait_times', { park: null }],
+  ['this is awesome, any characters nearby', 'character_meet', { park: null }],
+  ['keep me updated on wait times please', 'wait_times', { park: null }],
+  // Ride nicknames that are also everyday words
+  ['will the wait rise later', 'wait_times', { park: null, attraction: null }],
+  ['is there a splash pad', 'general', { park: null, attraction: null }],
+  ['how long is the wait for rise', 'ride_wait', { attraction: 'Star Wars: Rise of the Resistance', park: 'hollywoodStudios' }]
+];
+
+describe('classifyQuery corpus', () => {
+  it.each(CORPUS)('%p -> %s', (input, intent, slots) => {
+    const result = classifyQuery(input, { attractions: liveAttractions });
+
+    expect(result.intent).toBe(intent);
+    expect(result.slots).toMatchObject(slots);
+  });
+});
+
+describe('confidence', () => {
+  it('is high for an unambiguous question and lower when intents compete', () => {
+    const clear = classifyQuery('When are the fireworks?');
+    const mixed = classifyQuery('any shows or characters');
+
+    expect(clear.confidence).toBe(1);
+    expect(mixed.confidence).toBeLessThan(0.6);
+    expect(mixed.ranked.map(({ intent }) => intent)).toEqual(['show_times', 'character_meet']);
+  });
+
+  it('is zero with no cues at all', () => {
+    expect(classifyQuery('hello there')).toEqual({
+      intent: 'general',
+      confidence: 0,
+      ranked: [],
+      slots: { park: null, attraction: null, character: null, time: null },
+      attractionCandidates: []
+    });
+  });
+});
+
+describe('extractSlots', () => {
+  it('prefers an explicit park over the attraction park', () => {
+    expect(extractSlots('how long is space mountain if we start at epcot')).toMatchObject({
+      park: 'epcot',
+      attraction: 'Space Mountain'
+    });
+  });
+});
+
+describe('attraction candidates', () => {
+  it('keeps a ride question on rides when the name is ambiguous', () => {
+    const result = classifyQuery("what's the wait on the mountain", { attractions: liveAttractions });
+
+    expect(result.intent).toBe('ride_wait');
+    expect(result.slots.attraction).toBeNull();
+    expect(result.attractionCandidates).toHaveLength(3);
+  });
+});
@@ -0,0 +1,29 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { DeviceIdentity, getRelayUrl } from '../RelayClient';
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+});
+
+afterEach(() => {
+  delete process.env.EXPO_PUBLIC_RELAY_URL;
+});
+
+it('keeps one device id per install', async () => {
+  const first = new DeviceIdentity();
+  const id = await first.load();
+  expect(first.getId()).toBe(id);
+
+  const nextLaunch = new DeviceIdentity();
+  expect(nextLaunch.getId()).not.toBe(id);
+  await nextLaunch.load();
+  expect(nextLaunch.getId()).toBe(id);
+});
+
+it('uses the configured relay without a trailing slash', () => {
+  expect(getRelayUrl()).toBe('http://localhost:4020');
+
+  process.env.EXPO_PUBLIC_RELAY_URL = 'https://relay.example.com/';
+  expect(getRelayUrl()).toBe('https://relay.example.com');
+});
@@ -0,0 +1,233 @@
+import {
+  ChatAttraction,
+  HandlerContext,
+  ResponseHandler,
+  characterLocationHandler,
+  nextShowHandler,
+  paradeTimesHandler,
+  parkHoursHandler,
+  runResponseHandlers,
+  singleRideWaitHandler
+} from '../ResponseHandlers';
+import type { CharacterMeet, DataFreshness } from '../PixiePalDataService';
+import type { QueryIntent, QuerySlots } from '../QueryIntentClassifier';
+
+const attractions: ChatAttraction[] = [
+  { id: 'magicKingdom-space-mountain', name: 'Space Mountain', waitTime: 55, isOpen: true, hasLightningLane: true, park: 'magicKingdom', land: 'Tomorrowland', type: 'ride' },
+  { id: 'magicKingdom-tron', name: 'TRON Lightcycle / Run', waitTime: 0, isOpen: false, park: 'magicKingdom', land: 'Tomorrowland', type: 'ride' },
+  { id: 'animalKingdom-flight-of-passage', name: 'Avatar Flight of Passage', waitTime: 90, isOpen: true, park: 'animalKingdom', land: 'Pandora', type: 'ride' }
+];
+
+const characterMeets: CharacterMeet[] = [
+  { id: 'mk-mickey', characters: ['Mickey Mouse'], location: 'Town Square Theater', times: ['9:00 AM', '1:00 PM'], park: 'magicKingdom', lastUpdated: '2025-07-20T14:05:00.000Z' },
+  { id: 'ep-anna', characters: ['Anna', 'Elsa'], location: 'Royal Sommerhus', times: ['11:00 AM'], park: 'epcot', lastUpdated: '2025-07-20T14:05:00.000Z' }
+];
+
+const live: DataFreshness = { fetchedAt: new Date().toISOString(), isStale: false, origin: 'live' };
+
+// 2:30 PM local time on the fixture day
+const now = new Date(2025, 6, 20, 14, 30);
+
+const context = (intent: QueryIntent, input: string, overrides: Partial<HandlerContext> = {}, slots: Partial<QuerySlots> = {}): HandlerContext => ({
+  input,
+  analysis: {
+    intent,
+    confidence: 1,
+    ranked: [{ intent: intent as Exclude<QueryIntent, 'general'>, score: 3 }],
+    slots: { park: null, attraction: null, character: null, time: null, ...slots },
+    attractionCandidates: []
+  },
+  park: 'magicKingdom',
+  now,
+  attractions,
+  entertainment: [{
+    park: 'magicKingdom',
+    entertainment: [
+      { name: 'Mickey\'s Royal Friendship Faire', times: ['11:00 AM', '3:00 PM', '5:30 PM'], location: 'Cinderella Castle', type: 'show' },
+      { name: 'Happily Ever After', times: ['9:00 PM'], location: 'Cinderella Castle', type: 'fireworks' }
+    ],
+    parades: [
+      { name: 'Disney Festival of Fantasy Parade', times: ['12:00 PM', '3:00 PM'], location: 'Frontierland', type: 'parade' }
+    ]
+  }],
+  parkHours: [{
+    park: 'magicKingdom',
+    hours: [
+      { date: '2025-07-20', openingTime: '09:00', closingTime: '23:00', type: 'Operating' },
+      { date: '2025-07-21', openingTime: '08:00', closingTime: '22:00', type: 'Operating' }
+    ]
+  }],
+  characterMeets,
+  freshness: { magicKingdom: live, animalKingdom: live },
+  ...overrides
+});
+
+describe('singleRideWaitHandler', () => {
+  it('answers with the live wait and Lightning Lane', () => {
+    const result = singleRideWaitHandler.handle(context('ride_wait', 'how long is space mountian'));
+
+    expect(result?.text).toContain('**🎢 Space Mountain**');
+    expect(result?.text).toContain('⏰ **55 minute wait**');
+    expect(result?.text).toContain('⚡ Lightning Lane available');
+    expect(result?.text).toContain('🏰 Magic Kingdom • Tomorrowland');
+    expect(result?.switchToPark).toBeUndefined();
+    expect(result?.payload?.sections).toEqual([{
+      kind: 'ride_waits',
+      rides: [{ name: 'Space Mountain', park: 'magicKingdom', waitTime: 55, isOpen: true, hasLightningLane: true, land: 'Tomorrowland' }]
+    }]);
+  });
+
+  it('switches parks when the ride is elsewhere', () => {
+    const result = singleRideWaitHandler.handle(context('ride_wait', 'flight of passage wait'));
+
+    expect(result?.switchToPark).toBe('animalKingdom');
+    expect(result?.text).toContain('🔄 Switched parks for you!');
+  });
+
+  it('says when a ride is closed', () => {
+    const result = singleRideWaitHandler.handle(context('ride_wait', 'is tron open'));
+
+    expect(result?.text).toContain('🚫 **Temporarily closed**');
+    expect(result?.text).toContain('Ask me to tell you when it reopens');
+  });
+
+  it('leaves unknown rides to the AI', () => {
+    expect(singleRideWaitHandler.handle(context('ride_wait', 'how long is the dole whip line'))).toBeNull();
+  });
+
+  it('answers nothing without live wait times, rather than calling a known ride closed', () => {
+    expect(singleRideWaitHandler.handle(context('ride_wait', 'how long is space mountain?', { attractions: [] }))).toBeNull();
+    expect(runResponseHandlers(context('ride_wait', 'how long is space mountain?', { attractions: [] }))).toBeNull();
+  });
+});
+
+describe('parkHoursHandler', () => {
+  it('gives today and tomorrow', () => {
+    const text = parkHoursHandler.handle(context('park_hours', 'when does mk close'))?.text;
+
+    expect(text).toContain('📅 **Today (07-20-2025):** 9:00 AM - 11:00 PM');
+    expect(text).toContain('📅 **Tomorrow:** 8:00 AM - 10:00 PM');
+  });
+
+  it('carries the same days as a card', () => {
+    const payload = parkHoursHandler.handle(context('park_hours', 'when does mk close'))?.payload;
+
+    expect(payload?.title).toBe('🕐 Magic Kingdom Hours');
+    expect(payload?.sections).toEqual([{
+      kind: 'park_hours',
+      days: [{ label: 'Today (07-20-2025)', hours: '9:00 AM - 11:00 PM' }, { label: 'Tomorrow', hours: '8:00 AM - 10:00 PM' }]
+    }]);
+  });
+
+  it('answers only tomorrow when asked about tomorrow', () => {
+    const text = parkHoursHandler.handle(context('park_hours', 'hours tomorrow', {}, { time: 'tomorrow' }))?.text;
+
+    expect(text).toContain('📅 **Tomorrow (07-21-2025):** 8:00 AM - 10:00 PM');
+    expect(text).not.toContain('Today');
+  });
+
+  it('falls back to typical hours without a schedule', () => {
+    const text = parkHoursHandler.handle(context('park_hours', 'disney springs hours', { park: 'disneySprings' }))?.text;
+
+    expect(text).toContain('**🕐 Disney Springs Hours**');
+    expect(text).toContain('⏰ **Typical:** 10:00 AM - 11:00 PM');
+  });
+});
+
+describe('nextShowHandler', () => {
+  it('lists shows after now with a countdown', () => {
+    const text = nextShowHandler.handle(context('show_times', 'next show'))?.text || '';
+
+    expect(text).toContain('🕐 3:00 PM (in 30 min)');
+    expect(text).toContain('🕐 5:30 PM (in 3h)');
+    expect(text).not.toContain('11:00 AM');
+  });
+
+  it('starts from the time the guest asked about', () => {
+    const text = nextShowHandler.handle(context('show_times', 'shows at 5pm', {}, { time: '5:00 PM' }))?.text || '';
+
+    expect(text).toContain('🕐 5:30 PM (in 30 min)');
+    expect(text).not.toContain('3:00 PM');
+  });
+
+  it('only lists fireworks for a fireworks question', () => {
+    const text = nextShowHandler.handle(context('fireworks', 'when are the fireworks'))?.text || '';
+
+    expect(text).toContain('**🎆 Magic Kingdom Fireworks**');
+    expect(text).toContain('**Happily Ever After**\n🕐 9:00 PM (in 6h 30m)');
+    expect(text).not.toContain('Friendship Faire');
+  });
+
+  it('stays out of the way when entertainment is unknown', () => {
+    expect(nextShowHandler.handle(context('show_times', 'next show', { entertainment: [] }))).toBeNull();
+  });
+});
+
+describe('paradeTimesHandler', () => {
+  it('shows every time and the next one', () => {
+    const text = paradeTimesHandler.handle(context('parade', 'when is the parade'))?.text || '';
+
+    expect(text).toContain('🕐 12:00 PM, 3:00 PM');
+    expect(text).toContain('⏭️ Next: 3:00 PM (in 30 min)');
+  });
+
+  it('carries the schedule as a card', () => {
+    const payload = paradeTimesHandler.handle(context('parade', 'when is the parade'))?.payload;
+
+    expect(payload?.sections).toEqual([{
+      kind: 'show_schedule',
+      shows: [{
+        name: 'Disney Festival of Fantasy Parade',
+        times: ['12:00 PM', '3:00 PM'],
+        location: 'Frontierland',
+        nextTime: '3:00 PM',
+        countdown: 'in 30 min'
+      }]
+    }]);
+  });
+
+  it('stays out of the way when parades are unknown', () => {
+    const entertainment = [{ park: 'magicKingdom' as const, entertainment: [], parades: null }];
+    expect(paradeTimesHandler.handle(context('parade', 'parade', { entertainment }))).toBeNull();
+  });
+});
+
+describe('characterLocationHandler', () => {
+  it('finds a character in another park and switches to it', () => {
+    const result = characterLocationHandler.handle(context('character_meet', 'where can I meet elsa', {}, { character: 'elsa' }));
+
+    expect(result?.text).toContain('**🧚‍♀️ Where to Meet Elsa**');
+    expect(result?.text).toContain('📍 Royal Sommerhus (EPCOT)');
+    expect(result?.switchToPark).toBe('epcot');
+  });
+
+  it('says when a character is not on the schedule', () => {
+    const text = characterLocationHandler.handle(context('character_meet', 'meet stitch', {}, { character: 'stitch' }))?.text;
+
+    expect(text).toContain("I don't see Stitch on today's character schedule");
+  });
+
+  it('lists the meets as a card, current park first', () => {
+    const payload = characterLocationHandler.handle(context('character_meet', 'where is anna', { park: 'epcot' }, { character: 'anna' }))?.payload;
+
+    expect(payload?.sections).toEqual([{ kind: 'character_meets', meets: [characterMeets[1]] }]);
+  });
+});
+
+describe('runResponseHandlers', () => {
+  it('routes by intent and names the handler that answered', () => {
+    expect(runResponseHandlers(context('park_hours', 'when does mk close'))?.handler).toBe('parkHours');
+    expect(runResponseHandlers(context('ride_wait', 'space mountain wait'))?.handler).toBe('singleRideWait');
+    expect(runResponseHandlers(context('general', 'hello'))).toBeNull();
+  });
+
+  it('falls through to the next handler for the same intent', () => {
+    const declines: ResponseHandler = { name: 'declines', intents: ['parade'], handle: jest.fn(() => null) };
+    const answers: ResponseHandler = { name: 'answers', intents: ['parade'], handle: () => ({ text: 'Parade at noon' }) };
+    const ignored: ResponseHandler = { name: 'ignored', intents: ['park_hours'], handle: jest.fn(() => ({ text: 'nope' })) };
+
+    expect(runResponseHandlers(context('parade', 'parade'), [ignored, declines, answers])).toEqual({ text: 'Parade at noon', handler: 'answers' });
+    expect(declines.handle).toHaveBeenCalledTimes(1);
+    expect(ignored.handle).not.toHaveBeenCalled();
+  });
+});
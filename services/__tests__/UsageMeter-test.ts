@@ -0,0 +1,76 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { ChatRequest } from '../ChatModels';
+import { UsageMeter, estimateRequestTokens, isUsageCapError } from '../UsageMeter';
+
+const request = (content: string): ChatRequest => ({ messages: [{ role: 'user', content }] });
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+it('estimates prompts from their messages and tool definitions', () => {
+  const tools = [{ type: 'function' as const, function: { name: 'get_wait_time', description: 'Current wait', parameters: {} } }];
+
+  expect(estimateRequestTokens(request('x'.repeat(400)))).toBe(104);
+  expect(estimateRequestTokens({ ...request('x'.repeat(400)), tools })).toBeGreaterThan(104);
+});
+
+it('records reported usage, and the estimate when there is none', async () => {
+  const meter = new UsageMeter({ sessionTokens: 10000, dailyTokens: 10000 });
+
+  const estimate = await meter.check(request('how long is Rise?'));
+  await meter.record(estimate, { content: 'About 90 minutes', toolCalls: [], usage: { promptTokens: 900, completionTokens: 40 } });
+  await meter.record(estimate, { content: 'x'.repeat(40), toolCalls: [] });
+
+  const { session, today } = await meter.getSnapshot();
+  expect(session).toMatchObject({ calls: 2, estimatedCalls: 1, promptTokens: 900 + estimate, completionTokens: 50 });
+  expect(session.costUsd).toBeGreaterThan(0);
+  expect(today).toEqual(session);
+});
+
+it('refuses calls that would go over the session cap', async () => {
+  const meter = new UsageMeter({ sessionTokens: 1000, dailyTokens: 10000 });
+  await meter.record(0, { content: null, toolCalls: [], usage: { promptTokens: 950, completionTokens: 30 } });
+
+  const refused = await meter.check(request('x'.repeat(200))).catch(error => error);
+
+  expect(isUsageCapError(refused)).toBe(true);
+  expect(refused).toMatchObject({ scope: 'session' });
+  expect((await meter.getSnapshot()).blockedCalls).toBe(1);
+});
+
+it('keeps the daily total across launches until the day changes', async () => {
+  let now = new Date(2025, 6, 20, 21, 0);
+  const caps = { sessionTokens: 10000, dailyTokens: 1000 };
+  await new UsageMeter(caps, () => now).record(0, { content: null, toolCalls: [], usage: { promptTokens: 980, completionTokens: 10 } });
+
+  // A new session starts fresh but still counts against today
+  const nextLaunch = new UsageMeter(caps, () => now);
+  await expect(nextLaunch.check(request('hi there, what is open late?'))).rejects.toMatchObject({ name: 'UsageCapError', scope: 'daily' });
+  expect((await nextLaunch.getSnapshot()).session.calls).toBe(0);
+
+  now = new Date(2025, 6, 21, 8, 0);
+  await expect(nextLaunch.check(request('hi there, what is open late?'))).resolves.toBeGreaterThan(0);
+  expect((await nextLaunch.getSnapshot()).today.calls).toBe(0);
+});
+
+it('counts corrupt stored totals as zero instead of trusting them', async () => {
+  const now = new Date(2025, 6, 20, 21, 0);
+  await AsyncStorage.setItem('pixie_pal_usage', JSON.stringify({
+    day: '2025-07-20',
+    totals: { calls: 3, promptTokens: 'lots', completionTokens: 995, costUsd: null }
+  }));
+  const meter = new UsageMeter({ sessionTokens: 10000, dailyTokens: 1000 }, () => now);
+
+  await expect(meter.check(request('hi there, what is open late?'))).rejects.toMatchObject({ scope: 'daily' });
+  expect((await meter.getSnapshot()).today).toEqual({ calls: 3, estimatedCalls: 0, promptTokens: 0, completionTokens: 995, costUsd: 0 });
+
+  await AsyncStorage.setItem('pixie_pal_usage', 'not json');
+  expect((await new UsageMeter(undefined, () => now).getSnapshot()).today.calls).toBe(0);
+});
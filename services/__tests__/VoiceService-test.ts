@@ -0,0 +1,116 @@
+import * as Speech from 'expo-speech';
+
+import { SentenceSink, SentenceSpeaker, VoiceService, takeCompleteSentences } from '../VoiceService';
+
+const createSink = () => {
+  const spoken: [string, boolean][] = [];
+  const sink: SentenceSink = {
+    speak: jest.fn(async (sentence: string, interrupt: boolean) => {
+      spoken.push([sentence, interrupt]);
+    }),
+    stop: jest.fn(async () => {})
+  };
+  return { sink, spoken };
+};
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('takeCompleteSentences', () => {
+  it.each([
+    ['Great news! Space Mountain is', ['Great news!'], ' Space Mountain is'],
+    ['**Space Mountain**\n\n⏰ 25 min', ['**Space Mountain**'], '⏰ 25 min'],
+    ['It opens at 9.30 today', [], 'It opens at 9.30 today'],
+    ['Head over now ✨ ', ['Head over now ✨'], ' ']
+  ])('%p', (text, sentences, rest) => {
+    expect(takeCompleteSentences(text)).toEqual({ sentences, rest });
+  });
+});
+
+describe('SentenceSpeaker', () => {
+  it('starts speaking on the first complete sentence and queues the rest in order', async () => {
+    const { sink, spoken } = createSink();
+    const speaker = new SentenceSpeaker(sink);
+
+    speaker.push('Great ');
+    speaker.push('news! Space ');
+    await flush();
+    expect(spoken).toEqual([['Great news!', true]]);
+
+    speaker.push('Mountain is 25 minutes. Head');
+    speaker.push(' over now');
+    await speaker.finish();
+
+    expect(spoken).toEqual([
+      ['Great news!', true],
+      ['Space Mountain is 25 minutes.', false],
+      ['Head over now', false]
+    ]);
+  });
+
+  it('goes quiet when cancelled', async () => {
+    const { sink, spoken } = createSink();
+    const speaker = new SentenceSpeaker(sink);
+
+    speaker.push('First. Second is still');
+    await speaker.cancel();
+    speaker.push(' coming. Third.');
+    await speaker.finish();
+
+    expect(sink.stop).toHaveBeenCalled();
+    expect(spoken).toEqual([]);
+  });
+
+  it('drops queued sentences on reset and starts the next one fresh', async () => {
+    const { sink, spoken } = createSink();
+    const speaker = new SentenceSpeaker(sink);
+
+    speaker.push('Let me check. It is usually');
+    await speaker.reset();
+    speaker.push('Space Mountain is 55 minutes. Go');
+    await speaker.finish();
+
+    expect(sink.stop).toHaveBeenCalled();
+    expect(spoken).toEqual([['Space Mountain is 55 minutes.', true], ['Go', false]]);
+  });
+});
+
+describe('VoiceService sentences', () => {
+  const samantha = 'com.apple.voice.compact.en-US.Samantha';
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(Speech, 'isSpeakingAsync').mockResolvedValue(false);
+    jest.spyOn(Speech, 'getAvailableVoicesAsync').mockResolvedValue([
+      { identifier: samantha, name: 'Samantha', quality: Speech.VoiceQuality.Default, language: 'en-US' }
+    ]);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('speaks every sentence of an answer in the same voice', async () => {
+    const speak = jest.spyOn(Speech, 'speak').mockImplementation(() => {});
+    const speaker = VoiceService.getInstance().createSentenceSpeaker();
+
+    speaker.push('Great news! Space Mountain is 25 minutes. Head over now');
+    await speaker.finish();
+
+    expect(speak.mock.calls.map(([text]) => text)).toEqual(['Great news!', 'Space Mountain is 25 minutes.', 'Head over now']);
+    expect(speak.mock.calls.every(([, options]) => options?.voice === samantha)).toBe(true);
+    expect(Speech.getAvailableVoicesAsync).toHaveBeenCalledTimes(1);
+  });
+
+  it('logs a sentence that fails to speak and goes on to the next', async () => {
+    const speak = jest.spyOn(Speech, 'speak')
+      .mockImplementationOnce(() => {})
+      .mockImplementationOnce(() => { throw new Error('Speech unavailable'); })
+      .mockImplementation((_text, options) => options?.onError?.(new Error('Voice missing')));
+    const speaker = VoiceService.getInstance().createSentenceSpeaker();
+
+    speaker.push('One. Two. Three.');
+    await expect(speaker.finish()).resolves.toBeUndefined();
+
+    expect(speak).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,114 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import {
+  AlertAttraction,
+  AlertNotifier,
+  WaitTimeAlertService,
+  parseAlertRequest
+} from '../WaitTimeAlertService';
+
+const spaceMountain = (waitTime: number, isOpen = true): AlertAttraction => ({
+  id: 'magicKingdom-space-mountain',
+  name: 'Space Mountain',
+  park: 'magicKingdom',
+  waitTime,
+  isOpen
+});
+
+const tron = (isOpen: boolean): AlertAttraction => ({
+  id: 'magicKingdom-tron',
+  name: 'TRON Lightcycle / Run',
+  park: 'magicKingdom',
+  waitTime: isOpen ? 70 : 0,
+  isOpen
+});
+
+const createNotifier = () => ({
+  requestPermission: jest.fn(async (): Promise<boolean> => true),
+  notify: jest.fn(async () => {})
+}) satisfies AlertNotifier;
+
+beforeEach(async () => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  await AsyncStorage.clear();
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('parseAlertRequest', () => {
+  it.each([
+    ['tell me when Space Mountain is under 30 minutes', { type: 'low_wait_time', threshold: 30 }],
+    ['let me know if Slinky drops below 45', { type: 'low_wait_time', threshold: 45 }],
+    ['alert me when Tron reopens', { type: 'ride_reopened' }],
+    ["ping me when Test Track is back open", { type: 'ride_reopened' }],
+    ['tell me when the parade starts', null]
+  ])('%p', (input, expected) => {
+    expect(parseAlertRequest(input)).toEqual(expected);
+  });
+});
+
+it('fires a low wait alert once, as a notification, when the wait drops under the threshold', async () => {
+  const notifier = createNotifier();
+  const alerts = new WaitTimeAlertService(notifier);
+  await alerts.addAlert(spaceMountain(45), { type: 'low_wait_time', threshold: 30 });
+
+  expect(await alerts.checkAlerts([spaceMountain(30)])).toEqual([]);
+
+  const triggered = await alerts.checkAlerts([spaceMountain(25)]);
+  expect(triggered.map(({ title, body }) => [title, body])).toEqual([
+    ['⏰ Short Wait Alert!', 'Space Mountain is down to 25 min']
+  ]);
+  expect(notifier.notify).toHaveBeenCalledWith(
+    '⏰ Short Wait Alert!',
+    'Space Mountain is down to 25 min',
+    expect.objectContaining({ attractionId: 'magicKingdom-space-mountain' })
+  );
+
+  expect(await alerts.checkAlerts([spaceMountain(10)])).toEqual([]);
+  expect(await alerts.getAlerts()).toEqual([]);
+});
+
+it('waits for a closed ride to reopen and survives an app restart', async () => {
+  await new WaitTimeAlertService(createNotifier()).addAlert(tron(false), { type: 'ride_reopened' });
+
+  const notifier = createNotifier();
+  const restarted = new WaitTimeAlertService(notifier);
+  expect(await restarted.checkAlerts([tron(false)])).toEqual([]);
+
+  const [triggered] = await restarted.checkAlerts([tron(true)]);
+  expect(triggered.body).toBe('TRON Lightcycle / Run is open again - current wait 70 min');
+  expect(notifier.notify).toHaveBeenCalledTimes(1);
+});
+
+it('replaces an existing alert for the same ride and still saves it without notification permission', async () => {
+  const notifier = createNotifier();
+  notifier.requestPermission.mockResolvedValue(false);
+  const alerts = new WaitTimeAlertService(notifier);
+
+  await alerts.addAlert(spaceMountain(60), { type: 'low_wait_time', threshold: 30 });
+  await alerts.addAlert(spaceMountain(60), { type: 'low_wait_time', threshold: 40 });
+
+  const stored = await alerts.getAlerts();
+  expect(stored).toHaveLength(1);
+  expect(alerts.describeAlert(stored[0])).toBe('Space Mountain is under 40 minutes');
+  await expect(alerts.addAlert(spaceMountain(60), { type: 'low_wait_time' })).rejects.toThrow(/threshold/);
+});
+
+it('drops stored alerts it cannot check instead of crashing', async () => {
+  await new WaitTimeAlertService(createNotifier()).addAlert(tron(false), { type: 'ride_reopened' });
+  const [saved] = JSON.parse((await AsyncStorage.getItem('pixie_pal_wait_time_alerts'))!);
+  await AsyncStorage.setItem('pixie_pal_wait_time_alerts', JSON.stringify([
+    saved,
+    null,
+    { ...saved, id: 'no-threshold', type: 'low_wait_time' },
+    { ...saved, id: 'no-name', attractionName: 7 }
+  ]));
+
+  const alerts = await new WaitTimeAlertService(createNotifier()).getAlerts();
+  expect(alerts).toEqual([saved]);
+
+  await AsyncStorage.setItem('pixie_pal_wait_time_alerts', '{"alerts":"nope"}');
+  expect(await new WaitTimeAlertService(createNotifier()).checkAlerts([tron(true)])).toEqual([]);
+});
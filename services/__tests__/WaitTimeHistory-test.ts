@@ -0,0 +1,114 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import type { Attraction } from '../PixiePalDataService';
+import { WaitTimeHistory } from '../WaitTimeHistory';
+
+const MINUTE = 60 * 1000;
+const START = new Date(2025, 6, 20, 10, 0).getTime();
+
+const slinky = (waitTime: number, isOpen = true): Attraction => ({
+  id: 'hollywoodStudios-slinky-dog-dash',
+  name: 'Slinky Dog Dash',
+  land: 'Toy Story Land',
+  waitTime,
+  isOpen,
+  hasLightningLane: true,
+  lastUpdated: new Date(START).toISOString(),
+  park: 'hollywoodStudios'
+});
+
+const recordSeries = async (history: WaitTimeHistory, waits: (number | null)[], step = 10 * MINUTE) => {
+  for (const [index, wait] of waits.entries()) {
+    await history.record([slinky(wait ?? 0, wait !== null)], START + index * step);
+  }
+};
+
+beforeEach(async () => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  await AsyncStorage.clear();
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+it('reports a falling line and the lowest wait seen today', async () => {
+  const history = new WaitTimeHistory();
+  await recordSeries(history, [40, 75, 70, 60, 55, 50]);
+  const now = START + 50 * MINUTE;
+
+  const trend = history.getTrend('hollywoodStudios-slinky-dog-dash', 30, now);
+  expect(trend).toMatchObject({ current: 50, change: -20, direction: 'falling', spanMinutes: 30 });
+  expect(trend.samples).toHaveLength(4);
+  expect(history.getLowestToday('hollywoodStudios-slinky-dog-dash', now)).toEqual({
+    at: START,
+    waitTime: 40,
+    isOpen: true
+  });
+});
+
+it('ignores closed readings and needs two open samples to call a trend', async () => {
+  const history = new WaitTimeHistory();
+  await recordSeries(history, [null, 30, null]);
+  const now = START + 20 * MINUTE;
+
+  expect(history.getTrend('hollywoodStudios-slinky-dog-dash', 60, now)).toMatchObject({
+    current: null,
+    direction: 'unknown'
+  });
+  expect(history.getLowestToday('hollywoodStudios-slinky-dog-dash', now)?.waitTime).toBe(30);
+  expect(history.getDirection('hollywoodStudios-slinky-dog-dash', 60, now)).toBe('unknown');
+});
+
+it('treats small changes as steady and keeps one sample per minute', async () => {
+  const history = new WaitTimeHistory();
+  await recordSeries(history, [45, 50, 48], 20 * 1000);
+  await history.record([slinky(47)], START + 5 * MINUTE);
+
+  const trend = history.getTrend('hollywoodStudios-slinky-dog-dash', 60, START + 5 * MINUTE);
+  expect(trend.samples).toHaveLength(2);
+  expect(trend.direction).toBe('steady');
+  expect(trend).toMatchObject({ windowMinutes: 60, spanMinutes: 4 });
+});
+
+it('skips corrupt stored history instead of crashing', async () => {
+  jest.useFakeTimers({ now: START, doNotFake: ['nextTick', 'setImmediate'] });
+  try {
+    await AsyncStorage.setItem('pixie_pal_wait_time_history', JSON.stringify({
+      day: '2025-07-20',
+      series: {
+        'hollywoodStudios-slinky-dog-dash': { name: 'Slinky Dog Dash', park: 'hollywoodStudios', samples: [{ at: START, waitTime: 45, isOpen: true }, { at: 'noon' }, null] },
+        'broken': 'nope'
+      }
+    }));
+    const history = new WaitTimeHistory();
+    await history.load();
+    expect(history.getSamples('hollywoodStudios-slinky-dog-dash')).toEqual([{ at: START, waitTime: 45, isOpen: true }]);
+    expect(history.getSamples('broken')).toEqual([]);
+
+    await AsyncStorage.setItem('pixie_pal_wait_time_history', '{"day":"2025-07-20","series":[1]}');
+    const reloaded = new WaitTimeHistory();
+    await reloaded.load();
+    expect(reloaded.getSamples('hollywoodStudios-slinky-dog-dash')).toEqual([]);
+  } finally {
+    jest.useRealTimers();
+  }
+});
+
+it('persists today and drops history from a previous day', async () => {
+  jest.useFakeTimers({ now: START + 30 * MINUTE, doNotFake: ['nextTick', 'setImmediate'] });
+  try {
+    await recordSeries(new WaitTimeHistory(), [60, 45]);
+
+    const reloaded = new WaitTimeHistory();
+    await reloaded.load();
+    expect(reloaded.getSamples('hollywoodStudios-slinky-dog-dash')).toHaveLength(2);
+
+    jest.setSystemTime(START + 24 * 60 * MINUTE);
+    const tomorrow = new WaitTimeHistory();
+    await tomorrow.load();
+    expect(tomorrow.getSamples('hollywoodStudios-slinky-dog-dash')).toEqual([]);
+  } finally {
+    jest.useRealTimers();
+  }
+});